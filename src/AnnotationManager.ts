@@ -0,0 +1,481 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { NeRFLoader, isLoadCancellation } from './NeRFLoader.js';
+import { SceneManager } from './SceneManager.js';
+import { SceneAnnotation, SceneMetadata } from './scenes.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { OverlayPanel, renderRichText } from './OverlayPanel.js';
+
+/**
+ * AnnotationManager - Clickable hotspots anchored inside captures
+ *
+ * Shows the current scene's annotations as numbered markers. Anchors are
+ * stored relative to the model container and re-projected every frame, so
+ * markers follow geo positioning, presets and the Model Adjustments sliders
+ * while keeping a constant on-screen size.
+ *
+ * Clicking a marker opens a detail panel with the annotation's text, image
+ * and linked scene. In authoring mode clicking elsewhere adds an annotation
+ * at the orbit target's depth under the cursor, and the detail panel offers
+ * editing and deletion. Changes are written to the scene catalog (export it
+ * to keep them).
+ */
+
+export interface AnnotationManagerConfig {
+  /** Used to place new annotations at the orbit target's depth */
+  controls?: OrbitControls;
+  /** Marker size as a fraction of the viewport height (default 0.04) */
+  markerSize?: number;
+}
+
+/**
+ * Events emitted by AnnotationManager
+ */
+export interface AnnotationEvents {
+  annotationOpened: { scene: SceneMetadata; annotation: SceneAnnotation };
+  annotationsChanged: { scene: SceneMetadata; annotations: SceneAnnotation[] };
+  authoringChanged: { enabled: boolean };
+}
+
+interface Marker {
+  annotation: SceneAnnotation;
+  sprite: THREE.Sprite;
+  texture: THREE.CanvasTexture;
+}
+
+// Pointer movement in pixels below which a press counts as a click, not an orbit drag
+const CLICK_TOLERANCE = 5;
+
+export class AnnotationManager {
+  public readonly events = new TypedEventEmitter<AnnotationEvents>();
+
+  private scene: THREE.Scene;
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private nerfLoader: NeRFLoader;
+  private sceneManager: SceneManager;
+  private controls?: OrbitControls;
+  private markerSize: number;
+
+  private markerGroup: THREE.Group;
+  private markers: Marker[] = [];
+  private currentScene: SceneMetadata | null = null;
+  private panel: OverlayPanel;
+  private openAnnotationId: string | null = null;
+  private authoring: boolean = false;
+  private markersVisible: boolean = true;
+
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private pointerDownAt: { x: number; y: number } | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    nerfLoader: NeRFLoader,
+    sceneManager: SceneManager,
+    config: AnnotationManagerConfig = {}
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.domElement = domElement;
+    this.nerfLoader = nerfLoader;
+    this.sceneManager = sceneManager;
+    this.controls = config.controls;
+    this.markerSize = config.markerSize ?? 0.04;
+
+    this.markerGroup = new THREE.Group();
+    this.markerGroup.name = 'AnnotationMarkers';
+    this.scene.add(this.markerGroup);
+
+    this.panel = new OverlayPanel({
+      placement: 'right',
+      onClose: () => {
+        this.openAnnotationId = null;
+      }
+    });
+
+    const events = this.sceneManager.events;
+    this.unsubscribers.push(
+      events.on('sceneWillLoad', () => this.setScene(null)),
+      events.on('sceneLoaded', ({ scene }) => this.setScene(scene)),
+      events.on('sceneUpdated', ({ scene }) => {
+        // Catalog edits may replace the entry of the loaded scene
+        if (this.currentScene && scene === this.sceneManager.getCurrentScene()) {
+          this.currentScene = scene;
+          this.rebuildMarkers();
+        }
+      })
+    );
+
+    this.domElement.addEventListener('pointerdown', this.onPointerDown);
+    this.domElement.addEventListener('pointerup', this.onPointerUp);
+    this.domElement.addEventListener('pointermove', this.onPointerMove);
+  }
+
+  /**
+   * Keeps markers on their anchors; call once per frame before rendering
+   */
+  public update(): void {
+    const container = this.nerfLoader.getContainer();
+    // Hidden with the model, e.g. in multi-capture mode
+    this.markerGroup.visible = container.visible && this.markersVisible && this.markers.length > 0;
+    if (!this.markerGroup.visible) return;
+
+    container.updateWorldMatrix(true, false);
+    this.markers.forEach(({ annotation, sprite }) => {
+      sprite.position.fromArray(annotation.position).applyMatrix4(container.matrixWorld);
+    });
+  }
+
+  /**
+   * Enables or disables authoring mode
+   */
+  public setAuthoring(enabled: boolean): void {
+    if (this.authoring === enabled) return;
+    this.authoring = enabled;
+    this.panel.close();
+    this.events.emit('authoringChanged', { enabled });
+  }
+
+  public isAuthoring(): boolean {
+    return this.authoring;
+  }
+
+  /**
+   * Shows or hides all markers
+   */
+  public setMarkersVisible(visible: boolean): void {
+    this.markersVisible = visible;
+    this.update();
+  }
+
+  /**
+   * Opens the detail panel of an annotation of the current scene
+   */
+  public openAnnotation(id: string): void {
+    const scene = this.currentScene;
+    const annotation = scene?.annotations?.find(a => a.id === id);
+    if (!scene || !annotation) return;
+
+    this.openAnnotationId = id;
+    this.panel.setTitle(annotation.title);
+
+    const content: Node[] = [];
+    if (annotation.image) {
+      const image = document.createElement('img');
+      image.src = annotation.image;
+      image.alt = annotation.title;
+      image.style.cssText = 'width:100%; border-radius:4px; margin-bottom:12px;';
+      content.push(image);
+    }
+    content.push(renderRichText(annotation.text));
+    this.panel.setContent(...content);
+
+    const actions: Array<{ label: string; onClick: () => void; primary?: boolean }> = [];
+    const linkedScene = annotation.linkedSceneId
+      ? this.sceneManager.getSceneInfo(annotation.linkedSceneId)
+      : undefined;
+    if (linkedScene) {
+      actions.push({
+        label: `Go to ${linkedScene.title}`,
+        primary: true,
+        onClick: () => this.goToScene(linkedScene.id)
+      });
+    }
+    if (this.authoring) {
+      actions.push(
+        { label: 'Edit', onClick: () => this.editAnnotation(annotation) },
+        { label: 'Delete', onClick: () => this.deleteAnnotation(annotation.id) }
+      );
+    }
+    this.panel.setActions(actions);
+    this.panel.show();
+
+    this.events.emit('annotationOpened', { scene, annotation });
+  }
+
+  /**
+   * Adds an annotation to the current scene
+   * @param position - Anchor in model container space
+   */
+  public addAnnotation(annotation: Omit<SceneAnnotation, 'id'> & { id?: string }): SceneAnnotation | null {
+    const scene = this.currentScene;
+    if (!scene) return null;
+
+    const existing = scene.annotations || [];
+    const created: SceneAnnotation = {
+      ...annotation,
+      id: annotation.id || this.createAnnotationId(annotation.title, existing)
+    };
+    this.saveAnnotations([...existing, created]);
+    return created;
+  }
+
+  /**
+   * Removes an annotation from the current scene
+   */
+  public deleteAnnotation(id: string): void {
+    const scene = this.currentScene;
+    if (!scene?.annotations) return;
+
+    if (this.openAnnotationId === id) {
+      this.panel.close();
+    }
+    this.saveAnnotations(scene.annotations.filter(a => a.id !== id));
+  }
+
+  private setScene(scene: SceneMetadata | null): void {
+    this.currentScene = scene;
+    this.panel.close();
+    this.rebuildMarkers();
+  }
+
+  private rebuildMarkers(): void {
+    this.clearMarkers();
+
+    const annotations = this.currentScene?.annotations || [];
+    annotations.forEach((annotation, index) => {
+      const texture = this.createMarkerTexture(String(index + 1));
+      const material = new THREE.SpriteMaterial({
+        map: texture,
+        sizeAttenuation: false,
+        depthTest: false,
+        transparent: true
+      });
+      const sprite = new THREE.Sprite(material);
+      sprite.scale.setScalar(this.markerSize);
+      // Drawn after the splats so markers are never hidden inside the capture
+      sprite.renderOrder = 1000;
+      sprite.userData.annotationId = annotation.id;
+
+      this.markerGroup.add(sprite);
+      this.markers.push({ annotation, sprite, texture });
+    });
+
+    this.update();
+
+    // Refresh the open panel in case its annotation was edited
+    if (this.openAnnotationId) {
+      if (annotations.some(a => a.id === this.openAnnotationId)) {
+        this.openAnnotation(this.openAnnotationId);
+      } else {
+        this.panel.close();
+      }
+    }
+  }
+
+  private clearMarkers(): void {
+    this.markers.forEach(({ sprite, texture }) => {
+      this.markerGroup.remove(sprite);
+      sprite.material.dispose();
+      texture.dispose();
+    });
+    this.markers = [];
+  }
+
+  /**
+   * Draws a numbered round marker
+   */
+  private createMarkerTexture(label: string): THREE.CanvasTexture {
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.beginPath();
+      context.arc(size / 2, size / 2, size / 2 - 4, 0, Math.PI * 2);
+      context.fillStyle = 'rgba(58, 123, 213, 0.9)';
+      context.fill();
+      context.lineWidth = 4;
+      context.strokeStyle = '#ffffff';
+      context.stroke();
+
+      context.fillStyle = '#ffffff';
+      context.font = 'bold 28px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(label, size / 2, size / 2 + 1);
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+  }
+
+  private saveAnnotations(annotations: SceneAnnotation[]): void {
+    const scene = this.currentScene;
+    if (!scene) return;
+
+    // Emits sceneUpdated, which rebuilds the markers
+    this.sceneManager.setSceneAnnotations(scene.id, annotations);
+    this.events.emit('annotationsChanged', { scene, annotations });
+  }
+
+  private createAnnotationId(title: string, existing: SceneAnnotation[]): string {
+    const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'annotation';
+    let id = base;
+    for (let n = 2; existing.some(a => a.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  /**
+   * Prompts for the fields of a new annotation at a container-space point
+   */
+  private promptNewAnnotation(position: THREE.Vector3): void {
+    const title = prompt('Annotation title:');
+    if (!title || !title.trim()) return;
+
+    const fields = this.promptAnnotationDetails({ text: '', image: undefined, linkedSceneId: undefined });
+    if (!fields) return;
+
+    const round = (n: number) => Math.round(n * 1000) / 1000;
+    const created = this.addAnnotation({
+      title: title.trim(),
+      position: [round(position.x), round(position.y), round(position.z)],
+      ...fields
+    });
+    if (created) {
+      this.openAnnotation(created.id);
+    }
+  }
+
+  private editAnnotation(annotation: SceneAnnotation): void {
+    const title = prompt('Annotation title:', annotation.title);
+    if (!title || !title.trim()) return;
+
+    const fields = this.promptAnnotationDetails(annotation);
+    if (!fields || !this.currentScene?.annotations) return;
+
+    const edited: SceneAnnotation = { ...annotation, title: title.trim(), ...fields };
+    this.saveAnnotations(
+      this.currentScene.annotations.map(a => (a.id === annotation.id ? edited : a))
+    );
+  }
+
+  /**
+   * Prompts for text, image and linked scene
+   * @returns null if cancelled
+   */
+  private promptAnnotationDetails(
+    current: Pick<SceneAnnotation, 'text' | 'image' | 'linkedSceneId'>
+  ): Pick<SceneAnnotation, 'text' | 'image' | 'linkedSceneId'> | null {
+    const text = prompt('Text (**bold**, *italic*, [link](https://...)):', current.text);
+    if (text === null) return null;
+
+    const image = prompt('Image URL (optional):', current.image || '');
+    if (image === null) return null;
+
+    const linkInput = prompt('Linked scene id (optional):', current.linkedSceneId || '');
+    if (linkInput === null) return null;
+
+    let linkedSceneId: string | undefined = linkInput.trim() || undefined;
+    if (linkedSceneId && !this.sceneManager.getSceneInfo(linkedSceneId)) {
+      alert(`Unknown scene id "${linkedSceneId}" - the link was not saved.`);
+      linkedSceneId = undefined;
+    }
+
+    return { text, image: image.trim() || undefined, linkedSceneId };
+  }
+
+  private async goToScene(id: string): Promise<void> {
+    this.panel.close();
+    try {
+      await this.sceneManager.loadSceneById(id);
+    } catch (error) {
+      if (!isLoadCancellation(error)) {
+        console.error(`Failed to load linked scene ${id}:`, error);
+      }
+    }
+  }
+
+  private updatePointer(event: PointerEvent): void {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+  }
+
+  /**
+   * Marker under the pointer (updatePointer must be called first)
+   */
+  private pickMarker(): Marker | undefined {
+    if (!this.markerGroup.visible) return undefined;
+
+    const [hit] = this.raycaster.intersectObjects(this.markerGroup.children, false);
+    return hit ? this.markers.find(m => m.sprite === hit.object) : undefined;
+  }
+
+  /**
+   * Point under the pointer at the depth of the orbit target, in container space
+   */
+  private pickAnchor(): THREE.Vector3 | null {
+    const target = this.controls ? this.controls.target : this.nerfLoader.getContainer().position;
+    const normal = this.camera.getWorldDirection(new THREE.Vector3());
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, target);
+
+    const point = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+    if (!point) return null;
+
+    const container = this.nerfLoader.getContainer();
+    container.updateWorldMatrix(true, false);
+    return container.worldToLocal(point);
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    this.pointerDownAt = { x: event.clientX, y: event.clientY };
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    const down = this.pointerDownAt;
+    this.pointerDownAt = null;
+    if (!down || Math.hypot(event.clientX - down.x, event.clientY - down.y) > CLICK_TOLERANCE) {
+      return;
+    }
+
+    this.updatePointer(event);
+    const marker = this.pickMarker();
+    if (marker) {
+      this.openAnnotation(marker.annotation.id);
+      return;
+    }
+
+    if (this.authoring && this.currentScene && this.nerfLoader.getContainer().visible) {
+      const anchor = this.pickAnchor();
+      if (anchor) {
+        this.promptNewAnnotation(anchor);
+      }
+    }
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (this.pointerDownAt || this.markers.length === 0) return;
+
+    this.updatePointer(event);
+    this.domElement.style.cursor = this.pickMarker() ? 'pointer' : '';
+  };
+
+  /**
+   * Removes markers, the panel and all listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.domElement.removeEventListener('pointerdown', this.onPointerDown);
+    this.domElement.removeEventListener('pointerup', this.onPointerUp);
+    this.domElement.removeEventListener('pointermove', this.onPointerMove);
+
+    this.clearMarkers();
+    this.scene.remove(this.markerGroup);
+    this.panel.dispose();
+    this.events.removeAllListeners();
+  }
+}
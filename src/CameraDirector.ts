@@ -0,0 +1,201 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { SceneViewpoint } from './scenes.js';
+import { tween, Easing } from './Tween.js';
+
+/**
+ * CameraDirector - Smooth camera moves between scene viewpoints
+ *
+ * Viewpoints are stored relative to the model container (see SceneViewpoint)
+ * and converted to world space when flown to, so they stay valid when the
+ * model is re-positioned or re-scaled. Starting a new move finishes the move
+ * in progress; the user grabbing the orbit controls stops it where it is.
+ */
+
+/**
+ * A camera view in world space
+ */
+export interface CameraView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  /** Vertical field of view in degrees (unchanged if omitted) */
+  fov?: number;
+}
+
+export interface CameraDirectorConfig {
+  /** Used when a scene has no viewpoints (default (30, 20, 30) looking at the origin, FOV 75) */
+  defaultView?: CameraView;
+  /** Duration of camera moves in milliseconds (default 1500) */
+  duration?: number;
+}
+
+export class CameraDirector {
+  private camera: THREE.Camera;
+  private controls: OrbitControls;
+  private container: THREE.Object3D;
+  private defaultView: CameraView;
+  private duration: number;
+  private move: { controller: AbortController; stopped: boolean } | null = null;
+
+  /**
+   * @param camera - Camera to move
+   * @param controls - Orbit controls whose target is moved with the camera
+   * @param container - Model container that viewpoints are relative to
+   * @param config - Default view and move duration
+   */
+  constructor(
+    camera: THREE.Camera,
+    controls: OrbitControls,
+    container: THREE.Object3D,
+    config: CameraDirectorConfig = {}
+  ) {
+    this.camera = camera;
+    this.controls = controls;
+    this.container = container;
+    this.defaultView = config.defaultView || {
+      position: new THREE.Vector3(30, 20, 30),
+      target: new THREE.Vector3(0, 0, 0),
+      fov: 75
+    };
+    this.duration = config.duration ?? 1500;
+
+    this.controls.addEventListener('start', this.onControlsStart);
+  }
+
+  /**
+   * Smoothly moves the camera to a world-space view
+   * @param duration - Milliseconds (defaults to the configured duration, 0 jumps)
+   * @returns Promise that resolves when the move completes or is finished early
+   */
+  public flyTo(view: CameraView, duration: number = this.duration): Promise<void> {
+    this.cancel();
+    const move = { controller: new AbortController(), stopped: false };
+    this.move = move;
+
+    const perspective = this.getPerspectiveCamera();
+    const from: CameraView = {
+      position: this.camera.position.clone(),
+      target: this.controls.target.clone(),
+      fov: perspective?.fov
+    };
+    const target = new THREE.Vector3();
+
+    return tween(duration, (t) => {
+      if (move.stopped) return;
+      this.camera.position.lerpVectors(from.position, view.position, t);
+      target.lerpVectors(from.target, view.target, t);
+      this.controls.target.copy(target);
+      this.camera.lookAt(target);
+
+      if (perspective && from.fov !== undefined && view.fov !== undefined) {
+        perspective.fov = THREE.MathUtils.lerp(from.fov, view.fov, t);
+        perspective.updateProjectionMatrix();
+      }
+    }, { easing: Easing.easeInOutCubic, signal: move.controller.signal }).then(() => {
+      if (this.move === move) {
+        this.move = null;
+      }
+    });
+  }
+
+  /**
+   * Smoothly moves the camera to a scene viewpoint
+   */
+  public goToViewpoint(viewpoint: SceneViewpoint, duration?: number): Promise<void> {
+    return this.flyTo(this.viewpointToView(viewpoint), duration);
+  }
+
+  /**
+   * Moves to a scene's entry view: its first viewpoint, or the default view
+   */
+  public goToEntryView(viewpoints: SceneViewpoint[] | undefined, duration?: number): Promise<void> {
+    const first = viewpoints?.[0];
+    return first ? this.goToViewpoint(first, duration) : this.flyTo(this.defaultView, duration);
+  }
+
+  /**
+   * Creates a viewpoint from the current camera and orbit target
+   */
+  public captureViewpoint(name: string): SceneViewpoint {
+    this.container.updateWorldMatrix(true, false);
+    const toLocal = this.container.matrixWorld.clone().invert();
+    const round = (v: THREE.Vector3) =>
+      v.toArray().map(n => Math.round(n * 1000) / 1000) as [number, number, number];
+
+    const viewpoint: SceneViewpoint = {
+      name,
+      position: round(this.camera.position.clone().applyMatrix4(toLocal)),
+      target: round(this.controls.target.clone().applyMatrix4(toLocal))
+    };
+
+    const perspective = this.getPerspectiveCamera();
+    if (perspective) {
+      viewpoint.fov = Math.round(perspective.fov * 10) / 10;
+    }
+    return viewpoint;
+  }
+
+  /**
+   * Converts a container-relative viewpoint to a world-space view
+   */
+  public viewpointToView(viewpoint: SceneViewpoint): CameraView {
+    this.container.updateWorldMatrix(true, false);
+    const toWorld = this.container.matrixWorld;
+
+    return {
+      position: new THREE.Vector3().fromArray(viewpoint.position).applyMatrix4(toWorld),
+      target: new THREE.Vector3().fromArray(viewpoint.target).applyMatrix4(toWorld),
+      fov: viewpoint.fov
+    };
+  }
+
+  /**
+   * Finishes the camera move in progress, if any, at its final view
+   */
+  public cancel(): void {
+    const move = this.move;
+    this.move = null;
+    move?.controller.abort();
+  }
+
+  /**
+   * Stops the camera move in progress, if any, where it currently is
+   */
+  public stop(): void {
+    if (this.move) {
+      this.move.stopped = true;
+    }
+    this.cancel();
+  }
+
+  /**
+   * Whether a camera move is in progress
+   */
+  public isMoving(): boolean {
+    return this.move !== null;
+  }
+
+  /**
+   * Sets the duration of camera moves in milliseconds
+   */
+  public setDuration(duration: number): void {
+    this.duration = duration;
+  }
+
+  private getPerspectiveCamera(): THREE.PerspectiveCamera | null {
+    return this.camera instanceof THREE.PerspectiveCamera ? this.camera : null;
+  }
+
+  // The user grabbing the controls takes over from an automatic move
+  private onControlsStart = (): void => {
+    this.stop();
+  };
+
+  /**
+   * Stops any move and removes the controls listener
+   */
+  public dispose(): void {
+    this.stop();
+    this.controls.removeEventListener('start', this.onControlsStart);
+  }
+}
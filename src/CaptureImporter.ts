@@ -0,0 +1,432 @@
+import { SceneManager } from './SceneManager.js';
+import { NeRFLoader, NeRFModelOptions, isLoadCancellation } from './NeRFLoader.js';
+import { SceneMetadata } from './scenes.js';
+import { SplatFormat, detectSplatFormat } from './SplatFormats.js';
+import { SceneManifestError, validateScene } from './SceneManifest.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * CaptureImporter - Loads captures picked, dropped or typed in by the user
+ *
+ * A splat file, or a folder with a splat file and a metadata JSON, becomes a
+ * temporary SceneMetadata entry whose url is an object URL of the file.
+ * The entry is loaded through NeRFLoader like any scene, or added to the
+ * session catalog and loaded through SceneManager, so it can be navigated
+ * to, edited and exported. Session entries are not kept across page loads.
+ *
+ * The metadata JSON is either a single scene object or a manifest
+ * ({ "scenes": [...] }) whose entry with the splat's file name in `url` is
+ * used. Missing fields are filled in: id and title from the file name, and
+ * the location of the current scene so the capture lands on the platform.
+ */
+
+export interface CaptureImportOptions
+  extends Pick<NeRFModelOptions, 'enableThreeShaderIntegration' | 'loadingAnimationEnabled' | 'particleRevealEnabled'> {
+  /** Add the entry to the session catalog instead of loading it on its own (default false) */
+  addToCatalog?: boolean;
+}
+
+export interface CaptureImporterConfig {
+  /** Element that accepts dropped files and folders, e.g. the canvas */
+  dropTarget?: HTMLElement;
+  /** Options used for drops (default: not added to the catalog) */
+  defaults?: CaptureImportOptions;
+}
+
+export interface CaptureImporterEvents {
+  importStarted: { scene: SceneMetadata; fileName: string };
+  imported: { scene: SceneMetadata; fileName: string; addedToCatalog: boolean };
+  importFailed: { fileName: string; error: unknown };
+}
+
+const SPLAT_FILE_ACCEPT = '.ply,.splat,.ksplat,.json';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function baseName(path: string): string {
+  const name = path.split(/[?#]/)[0].split('/').pop() || path;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+function fileName(path: string): string {
+  return path.split(/[?#]/)[0].split('/').pop() || path;
+}
+
+/**
+ * Picks the scene entry describing a splat file from parsed metadata JSON
+ */
+function readMetadata(data: unknown, splatName: string): Partial<SceneMetadata> {
+  if (isRecord(data) && Array.isArray(data.scenes)) {
+    const entries = data.scenes.filter(isRecord);
+    const match = entries.find(entry => typeof entry.url === 'string' && fileName(entry.url) === splatName);
+    return (match || entries[0] || {}) as Partial<SceneMetadata>;
+  }
+  if (!isRecord(data)) {
+    throw new Error('Metadata JSON must be a scene object or a manifest with "scenes"');
+  }
+  return data as Partial<SceneMetadata>;
+}
+
+/**
+ * Collects the files of a drop, descending into dropped folders
+ */
+async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = [...dataTransfer.items]
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return [...dataTransfer.files];
+
+  const files: File[] = [];
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      ));
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns folders in batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        await Promise.all(batch.map(visit));
+      }
+    }
+  };
+  await Promise.all(entries.map(visit));
+  return files;
+}
+
+export class CaptureImporter {
+  public readonly events = new TypedEventEmitter<CaptureImporterEvents>();
+
+  private sceneManager: SceneManager;
+  private nerfLoader: NeRFLoader;
+  private defaults: CaptureImportOptions;
+  private dropTarget?: HTMLElement;
+  private dropOverlay?: HTMLDivElement;
+  private dragDepth: number = 0;
+  // Object URLs of imported files, revoked once nothing can load them any more
+  private objectUrls = new Set<string>();
+  // Entry shown on its own (not in the catalog), if still loaded
+  private temporaryScene: SceneMetadata | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(sceneManager: SceneManager, nerfLoader: NeRFLoader, config: CaptureImporterConfig = {}) {
+    this.sceneManager = sceneManager;
+    this.nerfLoader = nerfLoader;
+    this.defaults = { ...config.defaults };
+
+    this.unsubscribers.push(
+      nerfLoader.events.on('modelDisposed', ({ url }) => {
+        if (this.temporaryScene?.url === url) {
+          this.temporaryScene = null;
+        }
+        this.releaseObjectUrl(url);
+      }),
+      sceneManager.events.on('sceneRemoved', ({ scene }) => this.releaseObjectUrl(scene.url))
+    );
+
+    if (config.dropTarget) {
+      this.attachDropTarget(config.dropTarget);
+    }
+  }
+
+  /**
+   * Sets the options used for dropped files
+   */
+  public setDefaults(options: CaptureImportOptions): void {
+    this.defaults = { ...options };
+  }
+
+  public getDefaults(): CaptureImportOptions {
+    return { ...this.defaults };
+  }
+
+  /**
+   * Imports a splat file, optionally with a metadata JSON next to it
+   * @param files - Picked or dropped files, e.g. the contents of a folder
+   * @throws Error if there is no splat file, the metadata is invalid or the load fails
+   */
+  public async importFiles(files: File[], options: CaptureImportOptions = this.defaults): Promise<SceneMetadata> {
+    const splats = files
+      .filter(file => detectSplatFormat(file.name, file.type))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const splat = splats[0];
+    if (!splat) {
+      const error = new Error('No .ply, .splat or .ksplat file found');
+      this.events.emit('importFailed', { fileName: files[0]?.name ?? '', error });
+      throw error;
+    }
+    if (splats.length > 1) {
+      console.warn(`Several splat files found - importing ${splat.name}`);
+    }
+
+    let metadata: Partial<SceneMetadata> = {};
+    const json = this.findMetadataFile(files, splat.name);
+    try {
+      if (json) {
+        metadata = readMetadata(JSON.parse(await json.text()), splat.name);
+      }
+    } catch (error) {
+      const cause = error instanceof SyntaxError ? new Error(`${json!.name} is not valid JSON`) : error;
+      this.events.emit('importFailed', { fileName: splat.name, error: cause });
+      throw cause;
+    }
+
+    const url = URL.createObjectURL(splat);
+    this.objectUrls.add(url);
+    const format = metadata.format || detectSplatFormat(splat.name, splat.type) || undefined;
+    return this.importScene(this.createScene(metadata, url, splat.name, format), splat.name, options);
+  }
+
+  /**
+   * Imports a capture by URL: a Luma capture or a local/same-origin splat file
+   */
+  public importUrl(url: string, options: CaptureImportOptions = this.defaults): Promise<SceneMetadata> {
+    const format = detectSplatFormat(url) || undefined;
+    return this.importScene(this.createScene({}, url, fileName(url), format), url, options);
+  }
+
+  /**
+   * Opens the file dialog and imports the picked files
+   * @param directory - Pick a folder instead of files
+   * @returns The imported entry, or null if the dialog was cancelled
+   */
+  public openFilePicker(directory: boolean = false, options: CaptureImportOptions = this.defaults): Promise<SceneMetadata | null> {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = SPLAT_FILE_ACCEPT;
+    input.webkitdirectory = directory;
+
+    return new Promise((resolve, reject) => {
+      input.addEventListener('cancel', () => resolve(null));
+      input.addEventListener('change', () => {
+        const files = [...(input.files || [])];
+        if (files.length === 0) {
+          resolve(null);
+          return;
+        }
+        this.importFiles(files, options).then(resolve, reject);
+      });
+      input.click();
+    });
+  }
+
+  /**
+   * Adds the entry shown on its own to the session catalog
+   * The model stays loaded; it becomes reachable by navigation.
+   * @returns The added entry, or null if no imported capture is shown
+   */
+  public addToCatalog(): SceneMetadata | null {
+    const scene = this.temporaryScene;
+    if (!scene || this.nerfLoader.getCurrentUrl() !== scene.url) return null;
+
+    const added = { ...scene, id: this.uniqueId(scene.id) };
+    this.sceneManager.addScene(added);
+    this.temporaryScene = null;
+    return added;
+  }
+
+  /**
+   * Gets the imported entry that is shown but not in the catalog
+   */
+  public getTemporaryScene(): SceneMetadata | null {
+    return this.temporaryScene;
+  }
+
+  /**
+   * Accepts files and folders dropped onto an element
+   */
+  public attachDropTarget(element: HTMLElement): void {
+    this.detachDropTarget();
+    this.dropTarget = element;
+
+    this.dropOverlay = document.createElement('div');
+    this.dropOverlay.textContent = 'Drop a .ply, .splat or .ksplat file, or a folder with one and its metadata JSON';
+    this.dropOverlay.style.cssText =
+      'position:fixed; inset:0; display:none; align-items:center; justify-content:center; z-index:1100;' +
+      'pointer-events:none; background:rgba(58, 123, 213, 0.25); border:3px dashed #3a7bd5;' +
+      'color:#fff; font-size:18px; text-shadow:0 1px 4px rgba(0, 0, 0, 0.8);';
+    document.body.appendChild(this.dropOverlay);
+
+    element.addEventListener('dragenter', this.onDragEnter);
+    element.addEventListener('dragover', this.onDragOver);
+    element.addEventListener('dragleave', this.onDragLeave);
+    element.addEventListener('drop', this.onDrop);
+  }
+
+  public detachDropTarget(): void {
+    const element = this.dropTarget;
+    if (!element) return;
+
+    element.removeEventListener('dragenter', this.onDragEnter);
+    element.removeEventListener('dragover', this.onDragOver);
+    element.removeEventListener('dragleave', this.onDragLeave);
+    element.removeEventListener('drop', this.onDrop);
+    this.dropOverlay?.remove();
+    this.dropOverlay = undefined;
+    this.dropTarget = undefined;
+    this.dragDepth = 0;
+  }
+
+  private onDragEnter = (event: DragEvent): void => {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    this.dragDepth++;
+    if (this.dropOverlay) this.dropOverlay.style.display = 'flex';
+  };
+
+  private onDragOver = (event: DragEvent): void => {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    // Required for the drop event to fire
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  private onDragLeave = (): void => {
+    // dragleave also fires when moving over child elements
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0 && this.dropOverlay) this.dropOverlay.style.display = 'none';
+  };
+
+  private onDrop = async (event: DragEvent): Promise<void> => {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    this.dragDepth = 0;
+    if (this.dropOverlay) this.dropOverlay.style.display = 'none';
+
+    try {
+      await this.importFiles(await getDroppedFiles(event.dataTransfer));
+    } catch (error) {
+      // Reported through importFailed
+      console.error('Failed to import dropped capture:', error);
+    }
+  };
+
+  /**
+   * Prefers "<splat name>.json", then scene.json or metadata.json, then the only JSON file
+   */
+  private findMetadataFile(files: File[], splatName: string): File | undefined {
+    const jsons = files.filter(file => /\.json$/i.test(file.name));
+    return jsons.find(file => baseName(file.name) === baseName(splatName)) ||
+      jsons.find(file => /^(scene|metadata)\.json$/i.test(file.name)) ||
+      (jsons.length === 1 ? jsons[0] : undefined);
+  }
+
+  /**
+   * Builds a scene entry for an imported source, filling in missing fields
+   */
+  private createScene(
+    metadata: Partial<SceneMetadata>,
+    url: string,
+    name: string,
+    format?: SplatFormat
+  ): SceneMetadata {
+    const fallbackLocation = this.sceneManager.getCurrentScene()?.location ||
+      this.nerfLoader.getGeoManager().getOrigin() ||
+      { latitude: 0, longitude: 0 };
+    const slug = baseName(name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'capture';
+
+    const scene: SceneMetadata = {
+      ...metadata,
+      id: this.uniqueId(typeof metadata.id === 'string' && metadata.id ? metadata.id : slug),
+      title: typeof metadata.title === 'string' && metadata.title ? metadata.title : baseName(name),
+      url,
+      location: metadata.location || { ...fallbackLocation }
+    };
+    if (format) {
+      scene.format = format;
+    } else {
+      delete scene.format;
+    }
+    return scene;
+  }
+
+  /**
+   * Appends -2, -3, ... to ids already used in the catalog
+   */
+  private uniqueId(id: string): string {
+    const taken = (candidate: string) => !!this.sceneManager.getSceneInfo(candidate);
+    if (!taken(id)) return id;
+    let n = 2;
+    while (taken(`${id}-${n}`)) n++;
+    return `${id}-${n}`;
+  }
+
+  /**
+   * Validates and loads an imported entry
+   */
+  private async importScene(
+    scene: SceneMetadata,
+    name: string,
+    options: CaptureImportOptions
+  ): Promise<SceneMetadata> {
+    const { addToCatalog = false, ...modelOptions } = options;
+
+    try {
+      const issues = validateScene(scene);
+      if (issues.length > 0) {
+        throw new SceneManifestError(`Invalid metadata for ${name}`, issues);
+      }
+
+      this.events.emit('importStarted', { scene, fileName: name });
+      console.log(`Importing ${name} as "${scene.id}"${addToCatalog ? ' into the session catalog' : ''}`);
+
+      if (addToCatalog) {
+        this.sceneManager.addScene(scene);
+        await this.sceneManager.loadSceneById(scene.id);
+      } else {
+        this.temporaryScene = scene;
+        await this.nerfLoader.loadNeRFModel(scene.url, {
+          ...modelOptions,
+          format: scene.format,
+          location: scene.location,
+          transform: scene.transform
+        });
+      }
+    } catch (error) {
+      if (this.temporaryScene === scene) {
+        this.temporaryScene = null;
+      }
+      // A capture that cannot be loaded is not kept in the catalog
+      if (addToCatalog && !isLoadCancellation(error) && this.sceneManager.getSceneInfo(scene.id)) {
+        this.sceneManager.removeScene(scene.id);
+      }
+      this.releaseObjectUrl(scene.url);
+      this.events.emit('importFailed', { fileName: name, error });
+      throw error;
+    }
+
+    this.events.emit('imported', { scene, fileName: name, addedToCatalog: addToCatalog });
+    return scene;
+  }
+
+  /**
+   * Revokes an object URL unless a catalog entry or the shown model still uses it
+   */
+  private releaseObjectUrl(url: string): void {
+    if (!this.objectUrls.has(url)) return;
+    const inCatalog = this.sceneManager.getAllScenes().some(scene => scene.url === url);
+    if (inCatalog || this.temporaryScene?.url === url) return;
+
+    URL.revokeObjectURL(url);
+    this.objectUrls.delete(url);
+  }
+
+  /**
+   * Removes the drop target and releases all object URLs
+   */
+  public dispose(): void {
+    this.detachDropTarget();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+    this.objectUrls.clear();
+    this.temporaryScene = null;
+    this.events.removeAllListeners();
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { LintRule, formatLintReport, lintCatalog } from './CatalogLinter.js';
+import { NARRATIVE_SCENES, SceneMetadata } from './scenes.js';
+
+const NOW = new Date('2025-01-01');
+
+let nextCapture = 0;
+
+/**
+ * A scene that passes every rule, with distinct URL and location
+ */
+function createScene(id: string, overrides: Partial<SceneMetadata> = {}): SceneMetadata {
+  nextCapture++;
+  return {
+    id,
+    title: `Scene ${id}`,
+    url: `https://lumalabs.ai/capture/00000000-0000-4000-8000-${String(nextCapture).padStart(12, '0')}`,
+    location: { latitude: 52.5 + nextCapture * 0.001, longitude: 13.4, altitude: 34 },
+    description: `Notes on ${id}`,
+    captureDate: '2024-03-15',
+    tags: ['urban'],
+    ...overrides
+  };
+}
+
+function rulesOf(scenes: SceneMetadata[]): LintRule[] {
+  return lintCatalog(scenes, { now: NOW }).issues.map(issue => issue.rule);
+}
+
+describe('lintCatalog', () => {
+  it('reports the placeholder metadata of the built-in catalog', () => {
+    const report = lintCatalog(NARRATIVE_SCENES);
+    const others = NARRATIVE_SCENES.slice(1).map(scene => scene.id);
+
+    expect(report.sceneCount).toBe(NARRATIVE_SCENES.length);
+    expect(report.ok).toBe(true);
+    (['shared-location', 'shared-capture-date', 'boilerplate-description'] as LintRule[]).forEach(rule => {
+      const issue = report.issues.find(candidate => candidate.rule === rule);
+      expect(issue, rule).toBeDefined();
+      expect(issue!.severity).toBe('warning');
+      expect(issue!.sceneId).toBe(NARRATIVE_SCENES[0].id);
+      expect(issue!.relatedIds).toEqual(others);
+    });
+    expect(report.issues.find(issue => issue.rule === 'boilerplate-description')!.message)
+      .toContain('"A beautiful capture of {title}"');
+  });
+
+  it('passes a clean catalog', () => {
+    const report = lintCatalog([createScene('a'), createScene('b'), createScene('c')], { now: NOW });
+    expect(report.issues).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(formatLintReport(report)).toBe('3 scenes: 0 errors, 0 warnings, 0 notes');
+  });
+
+  it('reports duplicate ids once per group', () => {
+    const report = lintCatalog([createScene('a'), createScene('b'), createScene('a')], { now: NOW });
+    expect(report.ok).toBe(false);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({
+      rule: 'duplicate-id',
+      severity: 'error',
+      index: 0,
+      sceneId: 'a',
+      relatedIds: ['a']
+    });
+  });
+
+  it('reports duplicate URLs regardless of case and trailing slash', () => {
+    const first = createScene('a');
+    const report = lintCatalog([first, createScene('b', { url: `${first.url.toUpperCase()}/` })], { now: NOW });
+    expect(report.issues.map(issue => [issue.rule, issue.sceneId, issue.relatedIds])).toEqual([
+      ['duplicate-url', 'a', ['b']]
+    ]);
+  });
+
+  it('reports malformed URLs', () => {
+    expect(rulesOf([createScene('a', { url: 'https://lumalabs.ai/capture/not-a-uuid' })])).toEqual(['malformed-url']);
+    expect(rulesOf([createScene('a', { url: 'ftp://example.com/scene.ply' })])).toEqual(['malformed-url']);
+    expect(rulesOf([createScene('a', { url: 'https://example.com/scene.zip' })])).toEqual(['malformed-url']);
+    expect(rulesOf([createScene('a', { url: 'https://[bad/scene.ply' })])).toEqual(['malformed-url']);
+
+    // Splat files, and other file URLs with an explicit format, are fine
+    expect(rulesOf([createScene('a', { url: '/captures/garden.ksplat' })])).toEqual([]);
+    expect(rulesOf([createScene('a', { url: 'https://example.com/download?id=7', format: 'ply' })])).toEqual([]);
+  });
+
+  it('reports invalid, future and too early capture dates', () => {
+    const report = lintCatalog([
+      createScene('a', { captureDate: '15/03/2024' }),
+      createScene('b', { captureDate: '2024-13-01' }),
+      createScene('c', { captureDate: '2030-06-01' }),
+      createScene('d', { captureDate: '1999-12-31' })
+    ], { now: NOW });
+
+    expect(report.issues.map(issue => [issue.rule, issue.sceneId])).toEqual([
+      ['invalid-date', 'a'],
+      ['invalid-date', 'b'],
+      ['invalid-date', 'c'],
+      ['invalid-date', 'd']
+    ]);
+    expect(report.issues[2].message).toBe('2030-06-01 is in the future');
+    expect(report.issues[3].message).toBe('1999-12-31 is before 2000-01-01');
+  });
+
+  it('reports annotations linking to unknown scenes', () => {
+    const report = lintCatalog([
+      createScene('a', {
+        annotations: [
+          { id: 'door', title: 'Door', text: '', position: [0, 0, 0], linkedSceneId: 'b' },
+          { id: 'stairs', title: 'Stairs', text: '', position: [0, 1, 0], linkedSceneId: 'cellar' }
+        ]
+      }),
+      createScene('b')
+    ], { now: NOW });
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({
+      rule: 'broken-link',
+      severity: 'error',
+      sceneId: 'a',
+      field: 'annotations.stairs.linkedSceneId'
+    });
+  });
+
+  it('applies severity overrides and turns rules off', () => {
+    const scenes = [createScene('a'), createScene('a')];
+    expect(lintCatalog(scenes, { now: NOW, rules: { 'duplicate-id': 'off' } }).issues).toEqual([]);
+
+    const report = lintCatalog(scenes, { now: NOW, rules: { 'duplicate-id': 'warning' } });
+    expect(report.counts).toEqual({ error: 0, warning: 1, info: 0 });
+    expect(report.ok).toBe(true);
+  });
+});
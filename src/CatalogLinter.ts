@@ -0,0 +1,307 @@
+import { SceneMetadata, parseCaptureDate } from './scenes.js';
+import { detectSplatFormat } from './SplatFormats.js';
+
+/**
+ * CatalogLinter - Finds suspicious or inconsistent scene metadata
+ *
+ * SceneManifest validation rejects entries of the wrong shape; the linter
+ * looks at well-formed catalogs for content that is probably wrong:
+ * duplicated ids and URLs, copy-pasted coordinates, dates and descriptions,
+ * malformed capture URLs, URLs no splat source can load, unknown tags and
+ * links to scenes that do not exist.
+ *
+ * lintCatalog() is a pure function returning a structured report, so it can
+ * run in the viewer, from the console or in an automated check:
+ *
+ *   const report = lintCatalog(NARRATIVE_SCENES);
+ *   if (!report.ok) throw new Error(formatLintReport(report));
+ */
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'duplicate-id'
+  | 'duplicate-url'
+  | 'malformed-url'
+  | 'implausible-location'
+  | 'shared-location'
+  | 'invalid-date'
+  | 'shared-capture-date'
+  | 'missing-description'
+  | 'boilerplate-description'
+  | 'unknown-tag'
+  | 'broken-link';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  /** Index of the scene in the catalog */
+  index: number;
+  sceneId: string;
+  field?: string;
+  message: string;
+  /** Other scenes involved, e.g. the duplicates of a shared value */
+  relatedIds?: string[];
+}
+
+export interface CatalogLintOptions {
+  /** Allowed tags (default DEFAULT_KNOWN_TAGS) */
+  knownTags?: string[];
+  /** Plausible altitude range in meters (default -500 to 9000) */
+  altitudeRange?: [number, number];
+  /** Earliest plausible capture date (default 2000-01-01) */
+  earliestDate?: Date;
+  /** Scenes sharing a capture date before it is reported (default 10) */
+  sharedDateThreshold?: number;
+  /** Scenes sharing a description pattern before it is reported as boilerplate (default 3) */
+  boilerplateThreshold?: number;
+  /** Severity overrides; 'off' disables a rule */
+  rules?: Partial<Record<LintRule, LintSeverity | 'off'>>;
+  /** Reference date for "in the future" checks (default now) */
+  now?: Date;
+}
+
+export interface CatalogLintReport {
+  sceneCount: number;
+  issues: LintIssue[];
+  counts: Record<LintSeverity, number>;
+  /** No issues of severity 'error' */
+  ok: boolean;
+}
+
+export const DEFAULT_KNOWN_TAGS = [
+  'nature', 'urban', 'interior', 'exterior', 'night', 'event', 'home', 'work', 'art', 'food'
+];
+
+const DEFAULT_SEVERITY: Record<LintRule, LintSeverity> = {
+  'duplicate-id': 'error',
+  'duplicate-url': 'error',
+  'malformed-url': 'error',
+  'implausible-location': 'error',
+  'shared-location': 'warning',
+  'invalid-date': 'error',
+  'shared-capture-date': 'warning',
+  'missing-description': 'warning',
+  'boilerplate-description': 'warning',
+  'unknown-tag': 'warning',
+  'broken-link': 'error'
+};
+
+const LUMA_CAPTURE_URL = /^https:\/\/(www\.)?lumalabs\.ai\/capture\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\/?$/i;
+
+/**
+ * Groups scenes by a key, keeping only keys shared by at least `minSize` scenes
+ */
+function findShared(
+  scenes: SceneMetadata[],
+  keyOf: (scene: SceneMetadata) => string | null,
+  minSize: number
+): Array<{ key: string; indices: number[] }> {
+  const groups = new Map<string, number[]>();
+  scenes.forEach((scene, index) => {
+    const key = keyOf(scene);
+    if (key === null) return;
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, indices]) => indices.length >= minSize)
+    .map(([key, indices]) => ({ key, indices }));
+}
+
+function listIds(ids: string[], max: number = 5): string {
+  return ids.length > max ? `${ids.slice(0, max).join(', ')} and ${ids.length - max} more` : ids.join(', ');
+}
+
+/**
+ * Checks a scene catalog and reports suspicious metadata
+ */
+export function lintCatalog(scenes: SceneMetadata[], options: CatalogLintOptions = {}): CatalogLintReport {
+  const {
+    knownTags = DEFAULT_KNOWN_TAGS,
+    altitudeRange = [-500, 9000],
+    earliestDate = new Date('2000-01-01'),
+    sharedDateThreshold = 10,
+    boilerplateThreshold = 3,
+    rules = {},
+    now = new Date()
+  } = options;
+
+  const issues: LintIssue[] = [];
+  const report = (issue: Omit<LintIssue, 'severity' | 'sceneId'>) => {
+    const severity = rules[issue.rule] ?? DEFAULT_SEVERITY[issue.rule];
+    if (severity === 'off') return;
+    issues.push({ ...issue, severity, sceneId: scenes[issue.index].id });
+  };
+
+  // Values shared between scenes are reported once per group, on its first scene
+  const reportShared = (
+    rule: LintRule,
+    field: string,
+    groups: Array<{ key: string; indices: number[] }>,
+    describe: (key: string, count: number) => string
+  ) => {
+    groups.forEach(({ key, indices }) => {
+      const ids = indices.map(i => scenes[i].id);
+      report({
+        rule,
+        index: indices[0],
+        field,
+        message: `${describe(key, ids.length)}: ${listIds(ids)}`,
+        relatedIds: ids.slice(1)
+      });
+    });
+  };
+
+  reportShared('duplicate-id', 'id', findShared(scenes, s => s.id, 2),
+    (key, count) => `id "${key}" is used by ${count} scenes`);
+
+  reportShared('duplicate-url', 'url', findShared(scenes, s => s.url.replace(/\/$/, '').toLowerCase(), 2),
+    (_key, count) => `${count} scenes load the same URL`);
+
+  reportShared('shared-location', 'location',
+    findShared(scenes, ({ location: { latitude, longitude, altitude } }) =>
+      `${latitude.toFixed(6)}, ${longitude.toFixed(6)}, ${altitude ?? 0}`, 2),
+    (key, count) => `${count} scenes share the exact location ${key}`);
+
+  reportShared('shared-capture-date', 'captureDate',
+    findShared(scenes, s => s.captureDate ?? null, sharedDateThreshold),
+    (key, count) => `${count} scenes share the capture date ${key}`);
+
+  // Descriptions that only differ by the scene title, e.g. "A beautiful capture of <title>"
+  reportShared('boilerplate-description', 'description',
+    findShared(scenes, s => (s.description ? s.description.split(s.title).join('{title}') : null), boilerplateThreshold),
+    (key, count) => `${count} scenes use the description template "${key}"`);
+
+  const sceneIds = new Set(scenes.map(scene => scene.id));
+  const tagSet = new Set(knownTags);
+
+  scenes.forEach((scene, index) => {
+    // URL
+    if (/lumalabs\.ai/i.test(scene.url) && !LUMA_CAPTURE_URL.test(scene.url)) {
+      report({
+        rule: 'malformed-url',
+        index,
+        field: 'url',
+        message: `"${scene.url}" is not a Luma capture URL (https://lumalabs.ai/capture/<uuid>)`
+      });
+    } else {
+      try {
+        const url = new URL(scene.url, 'https://localhost/');
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+          report({ rule: 'malformed-url', index, field: 'url', message: `unsupported protocol ${url.protocol}` });
+        } else if (!LUMA_CAPTURE_URL.test(scene.url) && !scene.format && !detectSplatFormat(scene.url)) {
+          report({
+            rule: 'malformed-url',
+            index,
+            field: 'url',
+            message: `"${scene.url}" is neither a Luma capture nor a .ply, .splat or .ksplat file (set format for other file URLs)`
+          });
+        }
+      } catch {
+        report({ rule: 'malformed-url', index, field: 'url', message: `"${scene.url}" is not a valid URL` });
+      }
+    }
+
+    // Location
+    const { latitude, longitude, altitude } = scene.location;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      report({
+        rule: 'implausible-location',
+        index,
+        field: 'location',
+        message: `coordinates ${latitude}, ${longitude} are out of range`
+      });
+    } else if (latitude === 0 && longitude === 0) {
+      report({
+        rule: 'implausible-location',
+        index,
+        field: 'location',
+        message: 'coordinates 0, 0 are most likely a missing location'
+      });
+    }
+    if (altitude !== undefined && (altitude < altitudeRange[0] || altitude > altitudeRange[1])) {
+      report({
+        rule: 'implausible-location',
+        index,
+        field: 'location.altitude',
+        message: `altitude ${altitude} m is outside ${altitudeRange[0]} to ${altitudeRange[1]} m`
+      });
+    }
+
+    // Capture date
+    if (scene.captureDate !== undefined) {
+      const date = parseCaptureDate(scene.captureDate);
+      if (!date) {
+        report({
+          rule: 'invalid-date',
+          index,
+          field: 'captureDate',
+          message: `"${scene.captureDate}" is not a date (expected YYYY-MM-DD)`
+        });
+      } else if (date > now) {
+        report({ rule: 'invalid-date', index, field: 'captureDate', message: `${scene.captureDate} is in the future` });
+      } else if (date < earliestDate) {
+        report({
+          rule: 'invalid-date',
+          index,
+          field: 'captureDate',
+          message: `${scene.captureDate} is before ${earliestDate.toISOString().slice(0, 10)}`
+        });
+      }
+    }
+
+    // Description
+    if (!scene.description || !scene.description.trim()) {
+      report({ rule: 'missing-description', index, field: 'description', message: 'no description' });
+    }
+
+    // Tags
+    const unknown = (scene.tags || []).filter(tag => !tagSet.has(tag));
+    if (unknown.length > 0) {
+      report({
+        rule: 'unknown-tag',
+        index,
+        field: 'tags',
+        message: `unknown tag${unknown.length > 1 ? 's' : ''} ${unknown.map(t => `"${t}"`).join(', ')}`
+      });
+    }
+
+    // Links to other scenes
+    scene.annotations?.forEach(annotation => {
+      if (annotation.linkedSceneId && !sceneIds.has(annotation.linkedSceneId)) {
+        report({
+          rule: 'broken-link',
+          index,
+          field: `annotations.${annotation.id}.linkedSceneId`,
+          message: `links to unknown scene "${annotation.linkedSceneId}"`
+        });
+      }
+    });
+  });
+
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  issues.sort((a, b) => order[a.severity] - order[b.severity] || a.index - b.index);
+
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  issues.forEach(issue => counts[issue.severity]++);
+
+  return { sceneCount: scenes.length, issues, counts, ok: counts.error === 0 };
+}
+
+/**
+ * Formats an issue as a single human readable line
+ */
+export function formatLintIssue(issue: LintIssue): string {
+  const field = issue.field ? ` ${issue.field}:` : '';
+  return `  ${issue.severity.padEnd(7)} ${issue.sceneId}${field} ${issue.message} [${issue.rule}]`;
+}
+
+/**
+ * Formats a report as text, e.g. for the console or a failing check
+ */
+export function formatLintReport(report: CatalogLintReport): string {
+  const { error, warning, info } = report.counts;
+  const summary = `${report.sceneCount} scenes: ${error} errors, ${warning} warnings, ${info} notes`;
+  return [summary, ...report.issues.map(formatLintIssue)].join('\n');
+}
@@ -0,0 +1,418 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { NeRFLoader } from './NeRFLoader.js';
+import { SceneManager } from './SceneManager.js';
+import { SceneCrop, SceneCropShape } from './scenes.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { CYLINDER_SEGMENTS, convexHull, fitCropToBounds, normalizeSceneCrop } from './CropVolume.js';
+
+/**
+ * CropEditor - Interactive editing of the current model's crop volume
+ *
+ * Shows the crop as an outline and attaches a transform gizmo to it. The
+ * outline lives in a group that copies the model container's world matrix
+ * every frame, so gizmo values are in container space like the stored crop.
+ * Edits are applied to NeRFLoader while dragging; saveToScene() writes the
+ * crop into the current scene's catalog entry (export the catalog to keep it).
+ *
+ * Gizmo axes depend on the shape: boxes move, rotate and scale freely,
+ * cylinders stay upright with one radius, polygons turn around Y only and
+ * bands only move and stretch vertically.
+ */
+
+export interface CropEditorConfig {
+  /** Disabled while the gizmo is dragged */
+  controls?: OrbitControls;
+}
+
+/**
+ * Events emitted by CropEditor
+ */
+export interface CropEditorEvents {
+  editingChanged: { enabled: boolean };
+  /** The crop shown differs from (or matches again) the one stored in the scene */
+  modifiedChanged: { modified: boolean };
+}
+
+export type CropGizmoMode = 'translate' | 'rotate' | 'scale';
+
+// Outline colors for kept and cut-out volumes
+const KEEP_INSIDE_COLOR = 0x66ccff;
+const KEEP_OUTSIDE_COLOR = 0xff7766;
+
+/**
+ * What the outline was built from, to turn gizmo changes back into a crop
+ */
+interface ShownCrop {
+  crop: SceneCrop;
+  /** Displayed bounds of polygons and bands, also where a bound is open */
+  minY: number;
+  maxY: number;
+  /** Polygon outline relative to the outline object's origin */
+  localPoints: [number, number][];
+}
+
+export class CropEditor {
+  public readonly events = new TypedEventEmitter<CropEditorEvents>();
+
+  private scene: THREE.Scene;
+  private nerfLoader: NeRFLoader;
+  private sceneManager: SceneManager;
+  private controls?: OrbitControls;
+
+  private gizmo: TransformControls;
+  private frame: THREE.Group;
+  private outline: THREE.LineSegments | null = null;
+  private shown: ShownCrop | null = null;
+  private editing: boolean = false;
+  private mode: CropGizmoMode = 'translate';
+  private modified: boolean = false;
+  // Set while gizmo changes are applied, so the outline is not rebuilt under the gizmo
+  private applying: boolean = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    nerfLoader: NeRFLoader,
+    sceneManager: SceneManager,
+    config: CropEditorConfig = {}
+  ) {
+    this.scene = scene;
+    this.nerfLoader = nerfLoader;
+    this.sceneManager = sceneManager;
+    this.controls = config.controls;
+
+    this.frame = new THREE.Group();
+    this.frame.name = 'CropEditor';
+    this.frame.matrixAutoUpdate = false;
+    this.frame.visible = false;
+    this.scene.add(this.frame);
+
+    this.gizmo = new TransformControls(camera, domElement);
+    this.gizmo.setSpace('local');
+    this.gizmo.enabled = false;
+    this.gizmo.addEventListener('dragging-changed', (event) => {
+      if (this.controls) this.controls.enabled = !event.value;
+      // Start the next drag from a clean outline (e.g. polygons rebuilt around their new points)
+      if (!event.value) this.rebuildOutline();
+    });
+    this.gizmo.addEventListener('objectChange', () => this.applyGizmoChange());
+    this.scene.add(this.gizmo.getHelper());
+
+    this.unsubscribers.push(
+      this.nerfLoader.events.on('cropChanged', () => {
+        if (!this.applying) this.rebuildOutline();
+        this.updateModified();
+      }),
+      this.nerfLoader.events.on('modelReady', () => this.rebuildOutline()),
+      this.sceneManager.events.on('sceneLoaded', () => this.updateModified()),
+      this.sceneManager.events.on('sceneUpdated', ({ scene }) => {
+        if (scene === this.sceneManager.getCurrentScene()) this.updateModified();
+      })
+    );
+  }
+
+  /**
+   * Keeps the outline on the model; call once per frame before rendering
+   */
+  public update(): void {
+    const container = this.nerfLoader.getContainer();
+    this.frame.visible = this.editing && container.visible && this.outline !== null;
+    if (!this.frame.visible) return;
+
+    container.updateWorldMatrix(true, false);
+    this.frame.matrix.copy(container.matrixWorld);
+    this.frame.matrixWorldNeedsUpdate = true;
+  }
+
+  /**
+   * Shows or hides the outline and gizmo
+   */
+  public setEditing(enabled: boolean): void {
+    if (this.editing === enabled) return;
+    this.editing = enabled;
+    this.gizmo.enabled = enabled;
+    this.rebuildOutline();
+    this.events.emit('editingChanged', { enabled });
+  }
+
+  public isEditing(): boolean {
+    return this.editing;
+  }
+
+  /**
+   * Sets how the gizmo changes the crop
+   */
+  public setMode(mode: CropGizmoMode): void {
+    this.mode = mode;
+    this.gizmo.setMode(mode);
+    this.updateGizmoAxes();
+  }
+
+  public getMode(): CropGizmoMode {
+    return this.mode;
+  }
+
+  /**
+   * Replaces the crop with one of another shape around the model
+   * @param shape - New shape, or null for the platform walls
+   */
+  public setShape(shape: SceneCropShape | null): void {
+    const crop = this.nerfLoader.getCrop();
+    if ((crop?.shape ?? null) === shape) return;
+
+    if (!shape) {
+      this.nerfLoader.setCrop(null);
+      return;
+    }
+    this.nerfLoader.setCrop(fitCropToBounds(shape, this.getModelBounds(), crop?.keep));
+  }
+
+  /**
+   * Gets the shape of the current crop, or null for the platform walls
+   */
+  public getShape(): SceneCropShape | null {
+    return this.nerfLoader.getCrop()?.shape ?? null;
+  }
+
+  /**
+   * Keeps the inside of the crop or cuts it out
+   */
+  public setKeep(keep: 'inside' | 'outside'): void {
+    const crop = this.nerfLoader.getCrop();
+    if (!crop || (crop.keep ?? 'inside') === keep) return;
+    this.nerfLoader.setCrop(normalizeSceneCrop({ ...crop, keep }));
+  }
+
+  public getKeep(): 'inside' | 'outside' {
+    return this.nerfLoader.getCrop()?.keep ?? 'inside';
+  }
+
+  /**
+   * Whether the crop differs from the one stored in the current scene
+   */
+  public isModified(): boolean {
+    return this.modified;
+  }
+
+  /**
+   * Stores the crop in the current scene's catalog entry
+   * @returns false if no scene is loaded
+   */
+  public saveToScene(): boolean {
+    const scene = this.sceneManager.getCurrentScene();
+    if (!scene) return false;
+    this.sceneManager.setSceneCrop(scene.id, this.nerfLoader.getCrop());
+    return true;
+  }
+
+  /**
+   * Goes back to the crop stored in the current scene
+   */
+  public revert(): void {
+    this.nerfLoader.setCrop(this.sceneManager.getCurrentScene()?.crop ?? null);
+  }
+
+  private updateModified(): void {
+    const crop = this.nerfLoader.getCrop();
+    const stored = this.sceneManager.getCurrentScene()?.crop;
+    const modified = JSON.stringify(crop ? normalizeSceneCrop(crop) : undefined) !==
+      JSON.stringify(stored ? normalizeSceneCrop(stored) : undefined);
+    if (modified === this.modified) return;
+    this.modified = modified;
+    this.events.emit('modifiedChanged', { modified });
+  }
+
+  /**
+   * Local bounding box of the current model (crop space), or an empty box
+   */
+  private getModelBounds(): THREE.Box3 {
+    const model = this.nerfLoader.getCurrentModel();
+    if (!model || model.boundingBox.isEmpty()) return new THREE.Box3();
+    model.updateMatrix();
+    return model.boundingBox.clone().applyMatrix4(model.matrix);
+  }
+
+  /**
+   * Builds the outline of the current crop and attaches the gizmo to it
+   */
+  private rebuildOutline(): void {
+    this.gizmo.detach();
+    if (this.outline) {
+      this.frame.remove(this.outline);
+      this.outline.geometry.dispose();
+      (this.outline.material as THREE.Material).dispose();
+      this.outline = null;
+    }
+    this.shown = null;
+
+    const crop = this.nerfLoader.getCrop();
+    if (!this.editing || !crop || !this.nerfLoader.getCurrentModel()) return;
+
+    const bounds = this.getModelBounds();
+    if (bounds.isEmpty()) bounds.set(new THREE.Vector3(-5, 0, -5), new THREE.Vector3(5, 10, 5));
+
+    const outline = new THREE.LineSegments(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({
+        color: crop.keep === 'outside' ? KEEP_OUTSIDE_COLOR : KEEP_INSIDE_COLOR,
+        depthTest: false,
+        transparent: true
+      })
+    );
+    outline.renderOrder = 999;
+    const shown: ShownCrop = { crop, minY: 0, maxY: 0, localPoints: [] };
+
+    switch (crop.shape) {
+      case 'box':
+        outline.geometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1));
+        outline.position.fromArray(crop.center);
+        if (crop.quaternion) outline.quaternion.fromArray(crop.quaternion).normalize();
+        outline.scale.fromArray(crop.size);
+        break;
+      case 'cylinder':
+        // Rims only: the side faces meet at less than the threshold angle
+        outline.geometry = new THREE.EdgesGeometry(new THREE.CylinderGeometry(1, 1, 1, CYLINDER_SEGMENTS), 15);
+        outline.position.fromArray(crop.center);
+        outline.scale.set(crop.radius, crop.height, crop.radius);
+        break;
+      case 'polygon':
+      case 'band': {
+        shown.minY = crop.minY ?? bounds.min.y;
+        shown.maxY = crop.maxY ?? bounds.max.y;
+        // Bands are drawn as a slab over the model's footprint
+        const points: [number, number][] = crop.shape === 'polygon'
+          ? convexHull(crop.points)
+          : [[bounds.min.x, bounds.min.z], [bounds.max.x, bounds.min.z], [bounds.max.x, bounds.max.z], [bounds.min.x, bounds.max.z]];
+        const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+        const cz = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+        shown.localPoints = points.map(([x, z]) => [x - cx, z - cz]);
+        outline.geometry = this.createPrismGeometry(shown.localPoints);
+        outline.position.set(cx, (shown.minY + shown.maxY) / 2, cz);
+        outline.scale.set(1, Math.max(shown.maxY - shown.minY, 0.01), 1);
+        break;
+      }
+    }
+
+    this.outline = outline;
+    this.shown = shown;
+    this.frame.add(outline);
+    this.gizmo.attach(outline);
+    this.updateGizmoAxes();
+  }
+
+  /**
+   * Outline of a vertical prism of height 1 centred on the origin
+   */
+  private createPrismGeometry(points: [number, number][]): THREE.BufferGeometry {
+    const vertices: number[] = [];
+    points.forEach(([x, z], i) => {
+      const [nx, nz] = points[(i + 1) % points.length];
+      vertices.push(x, -0.5, z, nx, -0.5, nz);
+      vertices.push(x, 0.5, z, nx, 0.5, nz);
+      vertices.push(x, -0.5, z, x, 0.5, z);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    return geometry;
+  }
+
+  /**
+   * Shows only the gizmo handles the current shape can use
+   */
+  private updateGizmoAxes(): void {
+    const shape = this.shown?.crop.shape;
+    let axes = [true, true, true];
+    if (shape === 'cylinder') {
+      // Upright, one radius (taken from X)
+      axes = this.mode === 'rotate' ? [false, false, false] : this.mode === 'scale' ? [true, true, false] : axes;
+    } else if (shape === 'polygon' && this.mode === 'rotate') {
+      axes = [false, true, false];
+    } else if (shape === 'band') {
+      axes = this.mode === 'rotate' ? [false, false, false] : [false, true, false];
+    }
+    [this.gizmo.showX, this.gizmo.showY, this.gizmo.showZ] = axes;
+  }
+
+  /**
+   * Turns the outline's new transform into a crop and applies it
+   */
+  private applyGizmoChange(): void {
+    const outline = this.outline;
+    const shown = this.shown;
+    if (!outline || !shown) return;
+
+    const { crop } = shown;
+    const keep = crop.keep;
+    const center = outline.position.toArray() as [number, number, number];
+    const scale = outline.scale;
+    const positive = (value: number) => Math.max(Math.abs(value), 0.01);
+    let next: SceneCrop;
+
+    switch (crop.shape) {
+      case 'box':
+        next = {
+          shape: 'box',
+          center,
+          size: [positive(scale.x), positive(scale.y), positive(scale.z)],
+          quaternion: outline.quaternion.toArray() as [number, number, number, number]
+        };
+        break;
+      case 'cylinder':
+        scale.z = scale.x;
+        next = { shape: 'cylinder', center, radius: positive(scale.x), height: positive(scale.y) };
+        break;
+      case 'polygon':
+      case 'band': {
+        const height = positive(scale.y);
+        const minY = outline.position.y - height / 2;
+        const maxY = outline.position.y + height / 2;
+        // Open bounds stay open unless the gizmo moved them
+        const bound = (value: number, displayed: number, stored?: number) =>
+          stored === undefined && Math.abs(value - displayed) < 1e-6 ? undefined : value;
+
+        if (crop.shape === 'band') {
+          next = { shape: 'band', minY: bound(minY, shown.minY, crop.minY), maxY: bound(maxY, shown.maxY, crop.maxY) };
+        } else {
+          outline.updateMatrix();
+          const point = new THREE.Vector3();
+          next = {
+            shape: 'polygon',
+            points: shown.localPoints.map(([x, z]) => {
+              point.set(x, 0, z).applyMatrix4(outline.matrix);
+              return [point.x, point.z];
+            }),
+            minY: bound(minY, shown.minY, crop.minY),
+            maxY: bound(maxY, shown.maxY, crop.maxY)
+          };
+        }
+        break;
+      }
+    }
+
+    if (keep) next.keep = keep;
+    this.applying = true;
+    try {
+      this.nerfLoader.setCrop(normalizeSceneCrop(next));
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Removes the outline, gizmo and event listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.editing = false;
+    this.rebuildOutline();
+    this.gizmo.dispose();
+    this.scene.remove(this.gizmo.getHelper());
+    this.scene.remove(this.frame);
+    this.events.removeAllListeners();
+  }
+}
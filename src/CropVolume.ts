@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import { SceneCrop, SceneCropShape } from './scenes.js';
+
+/**
+ * CropVolume - Clipping planes for scene crop volumes
+ *
+ * Every crop shape is convex, so it is cut with clipping planes: the planes
+ * face inwards and keep the inside, or are flipped and combined with
+ * clipIntersection to cut the inside out. Cylinders are approximated by a
+ * prism and concave polygons are replaced by their convex hull.
+ *
+ * Planes are built in the crop's space (the model container); NeRFLoader
+ * moves them into world space with the container's matrix.
+ */
+
+export const CROP_SHAPES: SceneCropShape[] = ['box', 'cylinder', 'polygon', 'band'];
+
+/** Sides of the prism approximating a cylinder */
+export const CYLINDER_SEGMENTS = 32;
+
+/**
+ * Clipping planes of a crop and how three.js should combine them
+ */
+export interface CropClipping {
+  planes: THREE.Plane[];
+  /** Clip only where all planes clip (material.clipIntersection) */
+  intersection: boolean;
+}
+
+type Point2 = [number, number];
+
+function cross(o: Point2, a: Point2, b: Point2): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+/**
+ * Convex hull of [x, z] points, counter-clockwise (monotone chain)
+ */
+export function convexHull(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point2[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: Point2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Floor and ceiling planes of a height range; undefined bounds add no plane
+ */
+function heightPlanes(minY?: number, maxY?: number): THREE.Plane[] {
+  const planes: THREE.Plane[] = [];
+  if (minY !== undefined) planes.push(new THREE.Plane(new THREE.Vector3(0, 1, 0), -minY));
+  if (maxY !== undefined) planes.push(new THREE.Plane(new THREE.Vector3(0, -1, 0), maxY));
+  return planes;
+}
+
+/**
+ * Inward-facing planes through the edges of a counter-clockwise [x, z] outline
+ */
+function outlinePlanes(outline: Point2[]): THREE.Plane[] {
+  return outline.map((point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    const normal = new THREE.Vector3(-(next[1] - point[1]), 0, next[0] - point[0]).normalize();
+    return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, new THREE.Vector3(point[0], 0, point[1]));
+  });
+}
+
+/**
+ * Builds the clipping planes of a crop in the crop's space
+ */
+export function createCropClipping(crop: SceneCrop): CropClipping {
+  let planes: THREE.Plane[];
+
+  switch (crop.shape) {
+    case 'box': {
+      const [sx, sy, sz] = crop.size;
+      const matrix = new THREE.Matrix4().compose(
+        new THREE.Vector3().fromArray(crop.center),
+        crop.quaternion ? new THREE.Quaternion().fromArray(crop.quaternion).normalize() : new THREE.Quaternion(),
+        new THREE.Vector3(1, 1, 1)
+      );
+      planes = [
+        new THREE.Plane(new THREE.Vector3(1, 0, 0), sx / 2),
+        new THREE.Plane(new THREE.Vector3(-1, 0, 0), sx / 2),
+        new THREE.Plane(new THREE.Vector3(0, 1, 0), sy / 2),
+        new THREE.Plane(new THREE.Vector3(0, -1, 0), sy / 2),
+        new THREE.Plane(new THREE.Vector3(0, 0, 1), sz / 2),
+        new THREE.Plane(new THREE.Vector3(0, 0, -1), sz / 2)
+      ].map(plane => plane.applyMatrix4(matrix));
+      break;
+    }
+    case 'cylinder': {
+      const [x, y, z] = crop.center;
+      const outline: Point2[] = [];
+      // The prism's sides touch the cylinder, so nothing inside it is cut
+      const radius = crop.radius / Math.cos(Math.PI / CYLINDER_SEGMENTS);
+      for (let i = 0; i < CYLINDER_SEGMENTS; i++) {
+        const angle = (i / CYLINDER_SEGMENTS) * Math.PI * 2;
+        outline.push([x + Math.cos(angle) * radius, z + Math.sin(angle) * radius]);
+      }
+      planes = [
+        ...outlinePlanes(outline),
+        ...heightPlanes(y - crop.height / 2, y + crop.height / 2)
+      ];
+      break;
+    }
+    case 'polygon': {
+      const hull = convexHull(crop.points);
+      planes = [
+        ...(hull.length >= 3 ? outlinePlanes(hull) : []),
+        ...heightPlanes(crop.minY, crop.maxY)
+      ];
+      break;
+    }
+    case 'band':
+      planes = heightPlanes(crop.minY, crop.maxY);
+      break;
+  }
+
+  // Cutting the inside out: flipped planes clip where they all agree
+  if (crop.keep === 'outside') {
+    planes.forEach(plane => plane.negate());
+    return { planes, intersection: true };
+  }
+  return { planes, intersection: false };
+}
+
+/**
+ * Creates a crop of the given shape around a bounding box
+ * @param bounds - Bounds in the crop's space, e.g. the model's local bounding box
+ */
+export function fitCropToBounds(
+  shape: SceneCropShape,
+  bounds: THREE.Box3,
+  keep?: SceneCrop['keep']
+): SceneCrop {
+  const box = bounds.isEmpty() ? new THREE.Box3(new THREE.Vector3(-5, 0, -5), new THREE.Vector3(5, 10, 5)) : bounds;
+  const center = box.getCenter(new THREE.Vector3()).toArray() as [number, number, number];
+  const size = box.getSize(new THREE.Vector3()).toArray() as [number, number, number];
+  const { min, max } = box;
+
+  let crop: SceneCrop;
+  switch (shape) {
+    case 'box':
+      crop = { shape, center, size };
+      break;
+    case 'cylinder':
+      crop = { shape, center, radius: Math.max(size[0], size[2]) / 2, height: size[1] };
+      break;
+    case 'polygon':
+      crop = {
+        shape,
+        points: [[min.x, min.z], [max.x, min.z], [max.x, max.z], [min.x, max.z]],
+        minY: min.y,
+        maxY: max.y
+      };
+      break;
+    case 'band':
+      crop = { shape, minY: min.y, maxY: max.y };
+      break;
+  }
+
+  if (keep) crop.keep = keep;
+  return normalizeSceneCrop(crop);
+}
+
+/**
+ * Rounds a crop for storage and drops default values
+ */
+export function normalizeSceneCrop(crop: SceneCrop): SceneCrop {
+  const round = (value: number, digits: number = 3) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  };
+  const roundAll = <T extends number[]>(values: T, digits?: number) => values.map(v => round(v, digits)) as T;
+
+  let result: SceneCrop;
+  switch (crop.shape) {
+    case 'box': {
+      result = { shape: 'box', center: roundAll(crop.center), size: roundAll(crop.size) };
+      if (crop.quaternion) {
+        const quaternion = roundAll(crop.quaternion, 6);
+        const [x, y, z, w] = quaternion;
+        if (x !== 0 || y !== 0 || z !== 0 || Math.abs(w) !== 1) result.quaternion = quaternion;
+      }
+      break;
+    }
+    case 'cylinder':
+      result = {
+        shape: 'cylinder',
+        center: roundAll(crop.center),
+        radius: round(crop.radius),
+        height: round(crop.height)
+      };
+      break;
+    case 'polygon':
+      result = { shape: 'polygon', points: crop.points.map(point => roundAll(point)) };
+      if (crop.minY !== undefined) result.minY = round(crop.minY);
+      if (crop.maxY !== undefined) result.maxY = round(crop.maxY);
+      break;
+    case 'band':
+      result = { shape: 'band' };
+      if (crop.minY !== undefined) result.minY = round(crop.minY);
+      if (crop.maxY !== undefined) result.maxY = round(crop.maxY);
+      break;
+  }
+
+  if (crop.keep === 'outside') result.keep = 'outside';
+  return result;
+}
@@ -0,0 +1,314 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { SceneManager } from './SceneManager.js';
+import { UIManager, ModelTransformState } from './UIManager.js';
+import { PlatformEnvironment } from './PlatformEnvironment.js';
+import { isLoadCancellation } from './NeRFLoader.js';
+import { CameraDirector } from './CameraDirector.js';
+
+/**
+ * DeepLinkRouter - Shareable URLs for the current view
+ *
+ * Encodes the scene, camera, model adjustments and time of day in the URL
+ * hash, e.g.
+ *
+ *   #scene=art-hotel&cam=12.5,8,20&target=0,2,0&time=18.5&scale=1.2
+ *
+ * The state is restored on load and kept up to date while the user
+ * navigates. Switching scenes adds a history entry so the browser's
+ * back/forward buttons move through previously visited scenes; camera and
+ * slider changes only replace the current entry.
+ */
+
+/**
+ * View state stored in the URL (every field is optional)
+ */
+export interface DeepLinkState {
+  sceneId?: string;
+  cameraPosition?: THREE.Vector3;
+  cameraTarget?: THREE.Vector3;
+  timeOfDay?: number;
+  modelTransforms?: Partial<ModelTransformState>;
+}
+
+export interface DeepLinkRouterConfig {
+  sceneManager: SceneManager;
+  uiManager: UIManager;
+  platformEnv: PlatformEnvironment;
+  camera: THREE.Camera;
+  controls: OrbitControls;
+  /** Finished before a linked camera is applied, so entry-view moves do not override it */
+  cameraDirector?: CameraDirector;
+  /** Delay before camera movement is written to the URL in milliseconds (default 300) */
+  updateDelay?: number;
+}
+
+// Model adjustments of a scene without a default transform
+const IDENTITY_TRANSFORMS: ModelTransformState = { scale: 1, yOffset: 0, rotationY: 0 };
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatVector(vector: THREE.Vector3): string {
+  return [vector.x, vector.y, vector.z].map(formatNumber).join(',');
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function parseVector(value: string | null): THREE.Vector3 | undefined {
+  if (!value) return undefined;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return undefined;
+  return new THREE.Vector3(parts[0], parts[1], parts[2]);
+}
+
+/**
+ * Parses a URL hash (with or without the leading '#')
+ * Malformed values are ignored rather than rejected
+ */
+export function parseDeepLink(hash: string): DeepLinkState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: DeepLinkState = {};
+
+  const sceneId = params.get('scene');
+  if (sceneId) state.sceneId = sceneId;
+
+  const cameraPosition = parseVector(params.get('cam'));
+  if (cameraPosition) state.cameraPosition = cameraPosition;
+
+  const cameraTarget = parseVector(params.get('target'));
+  if (cameraTarget) state.cameraTarget = cameraTarget;
+
+  const timeOfDay = parseNumber(params.get('time'));
+  if (timeOfDay !== undefined) state.timeOfDay = Math.min(24, Math.max(0, timeOfDay));
+
+  const modelTransforms: Partial<ModelTransformState> = {};
+  const scale = parseNumber(params.get('scale'));
+  if (scale !== undefined && scale > 0) modelTransforms.scale = scale;
+  const yOffset = parseNumber(params.get('yoff'));
+  if (yOffset !== undefined) modelTransforms.yOffset = yOffset;
+  const rotationY = parseNumber(params.get('rot'));
+  if (rotationY !== undefined) modelTransforms.rotationY = rotationY;
+  if (Object.keys(modelTransforms).length > 0) state.modelTransforms = modelTransforms;
+
+  return state;
+}
+
+/**
+ * Formats view state as a URL hash (including the leading '#')
+ * @param defaults - Model adjustments equal to these (the scene's defaults) are left out
+ */
+export function formatDeepLink(
+  state: DeepLinkState,
+  defaults: ModelTransformState = IDENTITY_TRANSFORMS
+): string {
+  const params = new URLSearchParams();
+
+  if (state.sceneId) params.set('scene', state.sceneId);
+  if (state.cameraPosition) params.set('cam', formatVector(state.cameraPosition));
+  if (state.cameraTarget) params.set('target', formatVector(state.cameraTarget));
+  if (state.timeOfDay !== undefined) params.set('time', formatNumber(state.timeOfDay));
+
+  const transforms = state.modelTransforms || {};
+  if (transforms.scale !== undefined && transforms.scale !== defaults.scale) {
+    params.set('scale', formatNumber(transforms.scale));
+  }
+  if (transforms.yOffset !== undefined && transforms.yOffset !== defaults.yOffset) {
+    params.set('yoff', formatNumber(transforms.yOffset));
+  }
+  if (transforms.rotationY !== undefined && transforms.rotationY !== defaults.rotationY) {
+    params.set('rot', formatNumber(transforms.rotationY));
+  }
+
+  // Commas in vectors are safe in a fragment, keep them readable
+  const query = params.toString().replace(/%2C/g, ',');
+  return query ? `#${query}` : '';
+}
+
+export class DeepLinkRouter {
+  private sceneManager: SceneManager;
+  private uiManager: UIManager;
+  private platformEnv: PlatformEnvironment;
+  private camera: THREE.Camera;
+  private controls: OrbitControls;
+  private cameraDirector?: CameraDirector;
+  private updateDelay: number;
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  // Counter rather than flag, as popstate can start a restore while one is running
+  private restoring: number = 0;
+  private started: boolean = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(config: DeepLinkRouterConfig) {
+    this.sceneManager = config.sceneManager;
+    this.uiManager = config.uiManager;
+    this.platformEnv = config.platformEnv;
+    this.camera = config.camera;
+    this.controls = config.controls;
+    this.cameraDirector = config.cameraDirector;
+    this.updateDelay = config.updateDelay ?? 300;
+  }
+
+  /**
+   * Restores the state encoded in the current URL
+   * Resolves once the linked scene has loaded (or failed to load)
+   */
+  public async restore(): Promise<void> {
+    await this.applyState(parseDeepLink(window.location.hash));
+  }
+
+  /**
+   * Starts keeping the URL in sync and listening for back/forward navigation
+   */
+  public start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.unsubscribers.push(
+      this.sceneManager.events.on('sceneLoaded', ({ scene }) => {
+        if (this.restoring > 0) return;
+        // A different scene than the one in the URL is a new navigation step
+        const linkedScene = parseDeepLink(window.location.hash).sceneId;
+        this.writeUrl(linkedScene !== scene.id);
+      }),
+      this.uiManager.events.on('modelTransformChanged', () => this.scheduleUpdate()),
+      this.uiManager.events.on('timeOfDayChanged', () => this.scheduleUpdate())
+    );
+
+    this.controls.addEventListener('change', this.onControlsChange);
+    window.addEventListener('popstate', this.onPopState);
+  }
+
+  /**
+   * Gets the current view state
+   */
+  public getState(): DeepLinkState {
+    return {
+      sceneId: this.sceneManager.getCurrentScene()?.id,
+      cameraPosition: this.camera.position.clone(),
+      cameraTarget: this.controls.target.clone(),
+      timeOfDay: this.platformEnv.timeOfDay,
+      modelTransforms: this.uiManager.getModelTransformState()
+    };
+  }
+
+  /**
+   * Gets a shareable link to the current view
+   */
+  public getShareUrl(): string {
+    const url = new URL(window.location.href);
+    url.hash = formatDeepLink(this.getState(), this.uiManager.getDefaultModelTransformState());
+    return url.toString();
+  }
+
+  /**
+   * Applies view state, loading the linked scene first if it is not current
+   */
+  private async applyState(state: DeepLinkState): Promise<void> {
+    this.restoring++;
+    try {
+      const currentId = this.sceneManager.getCurrentScene()?.id;
+      if (state.sceneId && state.sceneId !== currentId) {
+        if (!this.sceneManager.getSceneInfo(state.sceneId)) {
+          console.warn(`Deep link: unknown scene "${state.sceneId}"`);
+        } else {
+          try {
+            await this.sceneManager.loadSceneById(state.sceneId);
+          } catch (error) {
+            if (isLoadCancellation(error)) return;
+            console.error(`Deep link: failed to load scene "${state.sceneId}":`, error);
+          }
+        }
+      }
+
+      // Camera is applied after loading so transitions do not override it
+      if (state.cameraPosition || state.cameraTarget) {
+        this.cameraDirector?.cancel();
+      }
+      if (state.cameraPosition) {
+        this.camera.position.copy(state.cameraPosition);
+      }
+      if (state.cameraTarget) {
+        this.controls.target.copy(state.cameraTarget);
+      }
+      if (state.cameraPosition || state.cameraTarget) {
+        this.controls.update();
+      }
+
+      if (state.timeOfDay !== undefined) {
+        this.uiManager.setTimeOfDay(state.timeOfDay);
+      }
+      // Adjustments missing from the URL are the scene's defaults
+      this.uiManager.applyModelTransforms({
+        ...this.uiManager.getDefaultModelTransformState(),
+        ...state.modelTransforms
+      });
+    } finally {
+      this.restoring--;
+      this.cancelScheduledUpdate();
+    }
+  }
+
+  private onControlsChange = (): void => {
+    this.scheduleUpdate();
+  };
+
+  private onPopState = (): void => {
+    void this.applyState(parseDeepLink(window.location.hash));
+  };
+
+  /**
+   * Writes the URL after a short delay so continuous camera movement
+   * does not flood the history API
+   */
+  private scheduleUpdate(): void {
+    if (this.restoring > 0) return;
+    this.cancelScheduledUpdate();
+    this.updateTimer = setTimeout(() => {
+      this.updateTimer = null;
+      // Wait for the scene switch to finish, sceneLoaded writes the URL then
+      if (this.restoring > 0 || this.sceneManager.isLoading()) return;
+      this.writeUrl(false);
+    }, this.updateDelay);
+  }
+
+  private cancelScheduledUpdate(): void {
+    if (this.updateTimer !== null) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+    }
+  }
+
+  /**
+   * Writes the current view state to the URL
+   * @param push - Add a history entry instead of replacing the current one
+   */
+  private writeUrl(push: boolean): void {
+    const hash = formatDeepLink(this.getState(), this.uiManager.getDefaultModelTransformState());
+    if (hash === window.location.hash) return;
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (push) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }
+
+  /**
+   * Stops syncing the URL and removes all listeners
+   */
+  public dispose(): void {
+    this.cancelScheduledUpdate();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.controls.removeEventListener('change', this.onControlsChange);
+    window.removeEventListener('popstate', this.onPopState);
+    this.started = false;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * EventEmitter - Minimal typed event emitter
+ *
+ * Event names and payload types are declared by an event map interface, so
+ * listeners get fully typed payloads:
+ *
+ *   interface MyEvents { loaded: { url: string } }
+ *   const events = new TypedEventEmitter<MyEvents>();
+ *   events.on('loaded', ({ url }) => console.log(url));
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+  /**
+   * Registers a listener for an event
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that is removed after its first call
+   * @returns Function that removes the listener
+   */
+  public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const wrapper: EventListener<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Removes a previously registered listener
+   */
+  public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls every listener registered for an event
+   * A throwing listener is logged and does not prevent the others from running
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    [...set].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Removes all listeners, or all listeners of one event
+   */
+  public removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import * as THREE from 'three';
+import { SplatData } from './SplatFormats.js';
+
+/**
+ * GaussianSplatMesh - Renders parsed splat files
+ *
+ * Each splat is an instanced screen-aligned quad shaped by projecting its 3D
+ * covariance (EWA splatting). Centers and covariances live in a float data
+ * texture and colors in a byte texture; the per-instance attribute is only a
+ * splat index, so depth sorting re-uploads one float per splat.
+ *
+ * Splats are blended back to front with premultiplied alpha and sorted on the
+ * CPU with a 16 bit counting sort whenever the view changes. The material
+ * supports three.js clipping planes, tested against splat centers.
+ */
+
+// Texels per row of the data textures
+const TEXTURE_WIDTH = 4096;
+// Center and covariance texels per splat
+const TEXELS_PER_SPLAT = 3;
+const SORT_BINS = 65536;
+
+const vertexShader = /* glsl */ `
+  uniform highp sampler2D uCenters;
+  uniform highp sampler2D uColors;
+  uniform vec2 uViewport;
+  uniform float uOpacity;
+
+  attribute float splatIndex;
+
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  #include <clipping_planes_pars_vertex>
+
+  ivec2 texel(int i) {
+    return ivec2(i % ${TEXTURE_WIDTH}, i / ${TEXTURE_WIDTH});
+  }
+
+  void main() {
+    int i = int(splatIndex);
+    vec4 a = texelFetch(uCenters, texel(i * ${TEXELS_PER_SPLAT}), 0);
+    vec4 b = texelFetch(uCenters, texel(i * ${TEXELS_PER_SPLAT} + 1), 0);
+    vec4 c = texelFetch(uCenters, texel(i * ${TEXELS_PER_SPLAT} + 2), 0);
+
+    vec4 mvPosition = modelViewMatrix * vec4(a.xyz, 1.0);
+    vec4 clip = projectionMatrix * mvPosition;
+
+    // Skip splats behind the camera or well outside the view
+    float bound = 1.2 * clip.w;
+    if (clip.w <= 0.0 || abs(clip.x) > bound || abs(clip.y) > bound) {
+      gl_Position = vec4(0.0, 0.0, 2.0, 1.0);
+      return;
+    }
+
+    // 3D covariance in model space, rotated into view space
+    mat3 covariance = mat3(a.w, b.x, b.y, b.x, b.z, b.w, b.y, b.w, c.x);
+    mat3 view = mat3(modelViewMatrix);
+    covariance = view * covariance * transpose(view);
+
+    // Jacobian of the perspective projection to pixels at the splat center
+    vec2 focal = vec2(projectionMatrix[0][0], projectionMatrix[1][1]) * uViewport * 0.5;
+    float depth = -mvPosition.z;
+    mat3 jacobian = mat3(
+      focal.x / depth, 0.0, 0.0,
+      0.0, focal.y / depth, 0.0,
+      focal.x * mvPosition.x / (depth * depth), focal.y * mvPosition.y / (depth * depth), 0.0
+    );
+    mat3 projected = jacobian * covariance * transpose(jacobian);
+
+    // Screen-space ellipse axes; the low-pass term keeps splats at least a pixel wide
+    float d1 = projected[0][0] + 0.3;
+    float d2 = projected[1][1] + 0.3;
+    float offDiagonal = projected[0][1];
+    float mid = 0.5 * (d1 + d2);
+    float radius = length(vec2(0.5 * (d1 - d2), offDiagonal));
+    float lambda1 = mid + radius;
+    float lambda2 = max(mid - radius, 0.1);
+    vec2 direction = vec2(offDiagonal, lambda1 - d1);
+    direction = length(direction) > 1e-6 ? normalize(direction) : vec2(1.0, 0.0);
+    vec2 major = min(sqrt(2.0 * lambda1), 1024.0) * direction;
+    vec2 minor = min(sqrt(2.0 * lambda2), 1024.0) * vec2(direction.y, -direction.x);
+
+    vColor = texelFetch(uColors, texel(i), 0);
+    vColor.a *= uOpacity;
+    vPosition = position.xy;
+
+    vec2 offset = (position.x * major + position.y * minor) * 2.0 / uViewport;
+    gl_Position = vec4(clip.xy + offset * clip.w, clip.z, clip.w);
+
+    #include <clipping_planes_vertex>
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  varying vec4 vColor;
+  varying vec2 vPosition;
+
+  #include <clipping_planes_pars_fragment>
+
+  void main() {
+    #include <clipping_planes_fragment>
+
+    float power = -dot(vPosition, vPosition);
+    if (power < -4.0) discard;
+    float alpha = exp(power) * vColor.a;
+    if (alpha < 1.0 / 255.0) discard;
+    gl_FragColor = vec4(vColor.rgb * alpha, alpha);
+  }
+`;
+
+export class GaussianSplatMesh extends THREE.Mesh<THREE.InstancedBufferGeometry, THREE.ShaderMaterial> {
+  /** Bounds of the splat centers in local space (empty until data is set) */
+  public readonly boundingBox = new THREE.Box3();
+
+  private data: SplatData | null = null;
+  private centersTexture: THREE.DataTexture | null = null;
+  private colorsTexture: THREE.DataTexture | null = null;
+  private indexAttribute: THREE.InstancedBufferAttribute | null = null;
+  private depths = new Float32Array(0);
+  private order = new Uint32Array(0);
+  private counts = new Uint32Array(SORT_BINS);
+  // View direction in model space at the last sort; camera translation does
+  // not change the order of view-space depths
+  private sortedDirection = new THREE.Vector3(NaN, NaN, NaN);
+  private modelView = new THREE.Matrix4();
+  private viewport = new THREE.Vector4();
+
+  constructor() {
+    const geometry = new THREE.InstancedBufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+      -2, -2, 0, 2, -2, 0, 2, 2, 0, -2, 2, 0
+    ], 3));
+    geometry.setIndex([0, 1, 2, 0, 2, 3]);
+    geometry.instanceCount = 0;
+
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uCenters: { value: null },
+        uColors: { value: null },
+        uViewport: { value: new THREE.Vector2(1, 1) },
+        uOpacity: { value: 1 }
+      },
+      vertexShader,
+      fragmentShader,
+      transparent: true,
+      depthWrite: false,
+      clipping: true,
+      blending: THREE.CustomBlending,
+      blendSrc: THREE.OneFactor,
+      blendDst: THREE.OneMinusSrcAlphaFactor,
+      blendSrcAlpha: THREE.OneFactor,
+      blendDstAlpha: THREE.OneMinusSrcAlphaFactor
+    });
+
+    super(geometry, material);
+    this.name = 'GaussianSplatMesh';
+    // Instances are spread far beyond the quad geometry's bounds
+    this.frustumCulled = false;
+  }
+
+  /**
+   * Uploads parsed splats, replacing any previous data
+   */
+  public setData(data: SplatData): void {
+    this.releaseData();
+    this.data = data;
+
+    const { count, positions, scales, rotations, colors } = data;
+    const rows = (texels: number) => Math.max(1, Math.ceil(texels / TEXTURE_WIDTH));
+
+    const centers = new Float32Array(TEXTURE_WIDTH * rows(count * TEXELS_PER_SPLAT) * 4);
+    for (let i = 0; i < count; i++) {
+      const base = i * TEXELS_PER_SPLAT * 4;
+      centers[base] = positions[i * 3];
+      centers[base + 1] = positions[i * 3 + 1];
+      centers[base + 2] = positions[i * 3 + 2];
+      writeCovariance(scales, rotations, i, centers, base + 3);
+    }
+    this.centersTexture = new THREE.DataTexture(
+      centers, TEXTURE_WIDTH, rows(count * TEXELS_PER_SPLAT), THREE.RGBAFormat, THREE.FloatType
+    );
+    this.centersTexture.needsUpdate = true;
+
+    const colorData = new Uint8Array(TEXTURE_WIDTH * rows(count) * 4);
+    colorData.set(colors);
+    this.colorsTexture = new THREE.DataTexture(colorData, TEXTURE_WIDTH, rows(count));
+    this.colorsTexture.needsUpdate = true;
+
+    this.material.uniforms.uCenters.value = this.centersTexture;
+    this.material.uniforms.uColors.value = this.colorsTexture;
+
+    this.indexAttribute = new THREE.InstancedBufferAttribute(new Float32Array(count), 1);
+    this.indexAttribute.setUsage(THREE.DynamicDrawUsage);
+    this.geometry.setAttribute('splatIndex', this.indexAttribute);
+    this.geometry.instanceCount = count;
+
+    this.depths = new Float32Array(count);
+    this.order = new Uint32Array(count);
+    this.sortedDirection.set(NaN, NaN, NaN);
+
+    this.boundingBox.setFromArray(positions);
+  }
+
+  /**
+   * Gets the parsed splats (null until data is set)
+   */
+  public getData(): SplatData | null {
+    return this.data;
+  }
+
+  public getSplatCount(): number {
+    return this.data?.count ?? 0;
+  }
+
+  /**
+   * Splat centers [x, y, z, ...] in local space (null until data is set)
+   */
+  public getSplatPositions(): Float32Array | null {
+    return this.data?.positions ?? null;
+  }
+
+  public setOpacity(opacity: number): void {
+    this.material.uniforms.uOpacity.value = opacity;
+  }
+
+  public getOpacity(): number {
+    return this.material.uniforms.uOpacity.value;
+  }
+
+  /**
+   * Splats are not pickable
+   */
+  public override raycast(): void {}
+
+  public override onBeforeRender(
+    renderer: THREE.WebGLRenderer,
+    _scene: THREE.Scene,
+    camera: THREE.Camera
+  ): void {
+    renderer.getCurrentViewport(this.viewport);
+    this.material.uniforms.uViewport.value.set(this.viewport.z, this.viewport.w);
+
+    this.modelView.multiplyMatrices(camera.matrixWorldInverse, this.matrixWorld);
+    this.sortSplats();
+  }
+
+  /**
+   * Orders splats back to front for the current view
+   * Skipped while the view direction has not noticeably changed
+   */
+  private sortSplats(): void {
+    const data = this.data;
+    if (!data || !this.indexAttribute || data.count === 0) return;
+
+    // Depth row of the model-view matrix, without the constant translation
+    const e = this.modelView.elements;
+    const view = new THREE.Vector3(e[2], e[6], e[10]);
+    const turned = Math.max(
+      Math.abs(view.x - this.sortedDirection.x),
+      Math.abs(view.y - this.sortedDirection.y),
+      Math.abs(view.z - this.sortedDirection.z)
+    );
+    if (turned < 0.001 * view.length()) return;
+    this.sortedDirection.copy(view);
+
+    const { count, positions } = data;
+    const { depths, order, counts } = this;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < count; i++) {
+      const depth = view.x * positions[i * 3] + view.y * positions[i * 3 + 1] + view.z * positions[i * 3 + 2];
+      depths[i] = depth;
+      if (depth < min) min = depth;
+      if (depth > max) max = depth;
+    }
+
+    // Counting sort on quantized depth, most negative (farthest) first
+    const scale = max > min ? (SORT_BINS - 1) / (max - min) : 0;
+    counts.fill(0);
+    for (let i = 0; i < count; i++) {
+      const bin = ((depths[i] - min) * scale) | 0;
+      depths[i] = bin;
+      counts[bin]++;
+    }
+    for (let bin = 0, start = 0; bin < SORT_BINS; bin++) {
+      const binCount = counts[bin];
+      counts[bin] = start;
+      start += binCount;
+    }
+    for (let i = 0; i < count; i++) {
+      order[counts[depths[i]]++] = i;
+    }
+
+    const indices = this.indexAttribute.array as Float32Array;
+    for (let i = 0; i < count; i++) {
+      indices[i] = order[i];
+    }
+    this.indexAttribute.needsUpdate = true;
+  }
+
+  private releaseData(): void {
+    this.centersTexture?.dispose();
+    this.colorsTexture?.dispose();
+    this.centersTexture = null;
+    this.colorsTexture = null;
+    this.data = null;
+    this.geometry.instanceCount = 0;
+  }
+
+  /**
+   * Releases the textures, geometry and material
+   */
+  public dispose(): void {
+    this.releaseData();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+}
+
+/**
+ * Writes the upper triangle of the covariance R·S·Sᵀ·Rᵀ of splat i
+ * as [xx, xy, xz, yy, yz, zz]
+ */
+function writeCovariance(
+  scales: Float32Array,
+  rotations: Float32Array,
+  i: number,
+  target: Float32Array,
+  offset: number
+): void {
+  const [sx, sy, sz] = [scales[i * 3], scales[i * 3 + 1], scales[i * 3 + 2]];
+  const [x, y, z, w] = [rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2], rotations[i * 4 + 3]];
+
+  // Rotation matrix rows, each column scaled by the axis standard deviation
+  const m = [
+    [(1 - 2 * (y * y + z * z)) * sx, 2 * (x * y - w * z) * sy, 2 * (x * z + w * y) * sz],
+    [2 * (x * y + w * z) * sx, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z - w * x) * sz],
+    [2 * (x * z - w * y) * sx, 2 * (y * z + w * x) * sy, (1 - 2 * (x * x + y * y)) * sz]
+  ];
+  const dot = (r: number, c: number) => m[r][0] * m[c][0] + m[r][1] * m[c][1] + m[r][2] * m[c][2];
+
+  target.set([dot(0, 0), dot(0, 1), dot(0, 2), dot(1, 1), dot(1, 2), dot(2, 2)], offset);
+}
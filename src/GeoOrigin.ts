@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { SceneManager } from './SceneManager.js';
+import { NeRFLoader } from './NeRFLoader.js';
+import { GeoLocation, GeoSpatialManager, getGeoCentroid } from './GeoSpatial.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * GeoOrigin - Chooses the geospatial origin by an explicit policy
+ *
+ * Without a policy the origin is whichever scene happens to load first, so
+ * positions depend on navigation order. The policies:
+ * - fixed: a coordinate from the config
+ * - catalog-centroid: the center of all catalog locations
+ * - filter-centroid: the center of the scenes navigation is scoped to
+ *   (the whole catalog when unscoped)
+ * - first-loaded: the first scene loaded in the session (the old behavior)
+ *
+ * Centroids follow catalog edits and scope changes. Every loader sharing the
+ * GeoSpatialManager re-positions its model when the origin moves; with a
+ * camera, the view moves along with the main model so it stays in place.
+ */
+
+export type GeoOriginPolicy = 'fixed' | 'catalog-centroid' | 'filter-centroid' | 'first-loaded';
+
+export const GEO_ORIGIN_POLICIES: GeoOriginPolicy[] = ['fixed', 'catalog-centroid', 'filter-centroid', 'first-loaded'];
+
+export interface GeoOriginOptions {
+  /** How the origin is chosen (default 'first-loaded') */
+  policy?: GeoOriginPolicy;
+  /** Origin of the 'fixed' policy (default: the catalog centroid when selected) */
+  fixedOrigin?: GeoLocation;
+  /** Moved along with the main model when the origin changes */
+  camera?: THREE.Camera;
+  controls?: OrbitControls;
+}
+
+/**
+ * Events emitted by GeoOriginController
+ */
+export interface GeoOriginEvents {
+  policyChanged: { policy: GeoOriginPolicy; origin: GeoLocation | null };
+}
+
+// Origins closer than this (degrees, meters) count as unchanged
+const SAME_ANGLE = 1e-9;
+const SAME_ALTITUDE = 1e-3;
+
+function isSameLocation(a: GeoLocation | null, b: GeoLocation | null): boolean {
+  if (!a || !b) return a === b;
+  return Math.abs(a.latitude - b.latitude) < SAME_ANGLE &&
+    Math.abs(a.longitude - b.longitude) < SAME_ANGLE &&
+    Math.abs((a.altitude || 0) - (b.altitude || 0)) < SAME_ALTITUDE;
+}
+
+export class GeoOriginController {
+  public readonly events = new TypedEventEmitter<GeoOriginEvents>();
+
+  private sceneManager: SceneManager;
+  private nerfLoader: NeRFLoader;
+  private geoManager: GeoSpatialManager;
+  private camera?: THREE.Camera;
+  private controls?: OrbitControls;
+  private policy: GeoOriginPolicy;
+  private fixedOrigin: GeoLocation | null;
+  private firstLoaded: GeoLocation | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(sceneManager: SceneManager, nerfLoader: NeRFLoader, options: GeoOriginOptions = {}) {
+    this.sceneManager = sceneManager;
+    this.nerfLoader = nerfLoader;
+    this.geoManager = nerfLoader.getGeoManager();
+    this.camera = options.camera;
+    this.controls = options.controls;
+    this.policy = options.policy || 'first-loaded';
+    this.fixedOrigin = options.fixedOrigin ? { ...options.fixedOrigin } : null;
+    if (this.policy === 'fixed' && !this.fixedOrigin) {
+      this.fixedOrigin = this.getCatalogCentroid();
+    }
+
+    const events = sceneManager.events;
+    const refreshCentroid = () => {
+      if (this.policy === 'catalog-centroid' || this.policy === 'filter-centroid') this.apply();
+    };
+    this.unsubscribers.push(
+      events.on('sceneWillLoad', ({ scene }) => {
+        if (this.firstLoaded) return;
+        this.firstLoaded = { ...scene.location };
+        if (this.policy === 'first-loaded') this.apply();
+      }),
+      // A loader (e.g. a multi-capture one) claimed the origin for its first capture
+      this.geoManager.events.on('originChanged', ({ origin }) => {
+        if (!this.firstLoaded && origin && this.policy === 'first-loaded') this.firstLoaded = { ...origin };
+      }),
+      events.on('sceneAdded', refreshCentroid),
+      events.on('sceneRemoved', refreshCentroid),
+      events.on('sceneUpdated', refreshCentroid),
+      events.on('navigationScopeChanged', () => {
+        if (this.policy === 'filter-centroid') this.apply();
+      })
+    );
+
+    this.apply();
+  }
+
+  /**
+   * Selects how the origin is chosen and applies it right away
+   * @param fixedOrigin - Origin of the 'fixed' policy; defaults to the configured one
+   */
+  public setPolicy(policy: GeoOriginPolicy, fixedOrigin?: GeoLocation): void {
+    this.policy = policy;
+    if (fixedOrigin) this.fixedOrigin = { ...fixedOrigin };
+    if (policy === 'fixed' && !this.fixedOrigin) {
+      // Keep the layout of the catalog until a coordinate is given
+      this.fixedOrigin = this.getCatalogCentroid();
+    }
+
+    this.apply();
+    this.events.emit('policyChanged', { policy, origin: this.geoManager.getOrigin() });
+  }
+
+  public getPolicy(): GeoOriginPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Gets the origin the policy asks for (null if it cannot tell yet)
+   */
+  public resolveOrigin(): GeoLocation | null {
+    switch (this.policy) {
+      case 'fixed':
+        return this.fixedOrigin;
+      case 'catalog-centroid':
+        return this.getCatalogCentroid();
+      case 'filter-centroid': {
+        const scope = this.sceneManager.getNavigationScope();
+        const scenes = scope ? this.sceneManager.queryScenes(scope) : this.sceneManager.getAllScenes();
+        return getGeoCentroid(scenes.map(scene => scene.location));
+      }
+      case 'first-loaded':
+        return this.firstLoaded;
+    }
+  }
+
+  /**
+   * Starts over: with 'first-loaded' the current scene becomes the first
+   * loaded one; other policies are applied again
+   */
+  public resetOrigin(): void {
+    if (this.policy === 'first-loaded') {
+      const current = this.sceneManager.getCurrentScene();
+      this.firstLoaded = current ? { ...current.location } : null;
+    }
+    this.apply();
+  }
+
+  /**
+   * Moves the origin to the one the policy asks for
+   * With no origin to use (e.g. nothing loaded yet with 'first-loaded'), the
+   * next geolocated load becomes the origin.
+   */
+  public apply(): void {
+    const origin = this.resolveOrigin();
+    if (isSameLocation(origin, this.geoManager.getOrigin())) return;
+
+    // Keep the view on the main model while every loader moves
+    const container = this.nerfLoader.getContainer();
+    const before = container.position.clone();
+
+    if (origin) {
+      this.geoManager.setOrigin(origin);
+    } else {
+      this.geoManager.reset();
+    }
+
+    const offset = container.position.clone().sub(before);
+    if (offset.lengthSq() > 0) {
+      this.camera?.position.add(offset);
+      this.controls?.target.add(offset);
+      this.controls?.update();
+    }
+  }
+
+  private getCatalogCentroid(): GeoLocation | null {
+    return getGeoCentroid(this.sceneManager.getAllScenes().map(scene => scene.location));
+  }
+
+  /**
+   * Removes event listeners; the origin is left as it is
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.events.removeAllListeners();
+  }
+}
@@ -0,0 +1,235 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import {
+  GEO_PROJECTIONS,
+  GeoLocation,
+  GeoProjection,
+  GeoSpatialManager,
+  ecefToGeodetic,
+  geodeticToECEF
+} from './GeoSpatial.js';
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+function dms(degrees: number, minutes: number, seconds: number): number {
+  return Math.sign(degrees) * (Math.abs(degrees) + minutes / 60 + seconds / 3600);
+}
+
+/**
+ * Geodesic distance and initial azimuth on WGS84 (Vincenty's inverse formula)
+ */
+function vincentyInverse(from: GeoLocation, to: GeoLocation): { distance: number; azimuth: number } {
+  const rad = THREE.MathUtils.degToRad;
+  const L = rad(to.longitude - from.longitude);
+  const u1 = Math.atan((1 - WGS84_F) * Math.tan(rad(from.latitude)));
+  const u2 = Math.atan((1 - WGS84_F) * Math.tan(rad(to.latitude)));
+  const sinU1 = Math.sin(u1), cosU1 = Math.cos(u1);
+  const sinU2 = Math.sin(u2), cosU2 = Math.cos(u2);
+
+  let lambda = L;
+  let previous: number;
+  let sinSigma: number, cosSigma: number, sigma: number;
+  let cos2Alpha: number, cos2SigmaM: number, sinLambda: number, cosLambda: number;
+  do {
+    sinLambda = Math.sin(lambda);
+    cosLambda = Math.cos(lambda);
+    sinSigma = Math.hypot(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+    cos2Alpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSigma - 2 * sinU1 * sinU2 / cos2Alpha;
+    const c = WGS84_F / 16 * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+    previous = lambda;
+    lambda = L + (1 - c) * WGS84_F * sinAlpha *
+      (sigma + c * sinSigma * (cos2SigmaM + c * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+  } while (Math.abs(lambda - previous) > 1e-12);
+
+  const uSq = cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+  const a = 1 + uSq / 16384 * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+  const b = uSq / 1024 * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+  const deltaSigma = b * sinSigma * (cos2SigmaM + b / 4 * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+    b / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+
+  return {
+    distance: WGS84_B * a * (sigma - deltaSigma),
+    azimuth: THREE.MathUtils.euclideanModulo(
+      THREE.MathUtils.radToDeg(Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda)),
+      360
+    )
+  };
+}
+
+/**
+ * Horizontal distance and bearing of a location in the scene, seen from the origin
+ */
+function measure(projection: GeoProjection, origin: GeoLocation, location: GeoLocation) {
+  const geoManager = new GeoSpatialManager({ projection });
+  geoManager.setOrigin(origin);
+  const position = geoManager.geoToScene(location);
+  return {
+    distance: Math.hypot(position.x, position.z),
+    azimuth: THREE.MathUtils.euclideanModulo(THREE.MathUtils.radToDeg(Math.atan2(position.x, -position.z)), 360)
+  };
+}
+
+function angleDifference(a: number, b: number): number {
+  return Math.abs(THREE.MathUtils.euclideanModulo(a - b + 180, 360) - 180);
+}
+
+// Geoscience Australia's geodesic example (Vincenty 1975), on GDA94 / GRS80,
+// which agrees with WGS84 to well below a millimeter over this line
+const FLINDERS_PEAK: GeoLocation = { latitude: dms(-37, 57, 3.7203), longitude: dms(144, 25, 29.5244) };
+const BUNINYONG: GeoLocation = { latitude: dms(-37, 39, 10.1561), longitude: dms(143, 55, 35.3839) };
+const FLINDERS_BUNINYONG_DISTANCE = 54972.271;
+const FLINDERS_BUNINYONG_AZIMUTH = dms(306, 52, 5.37);
+
+const BRANDENBURG_GATE: GeoLocation = { latitude: 52.516275, longitude: 13.377704 };
+
+// Published landmark coordinates, 2 to 8 km from the Brandenburg Gate
+const CITY_POINTS: Array<[string, GeoLocation]> = [
+  ['Berlin TV Tower', { latitude: 52.520817, longitude: 13.409419 }],
+  ['Charlottenburg Palace', { latitude: 52.520833, longitude: 13.295833 }],
+  ['Tegel Airport', { latitude: 52.559722, longitude: 13.287778 }]
+];
+
+// 55 to 255 km
+const REGIONAL_LINES: Array<[string, GeoLocation, GeoLocation]> = [
+  ['Flinders Peak to Buninyong', FLINDERS_PEAK, BUNINYONG],
+  ['Berlin to Leipzig', BRANDENBURG_GATE, { latitude: 51.345, longitude: 12.382 }],
+  ['Berlin to Hamburg', BRANDENBURG_GATE, { latitude: 53.5511, longitude: 9.9937 }]
+];
+
+describe('vincentyInverse', () => {
+  it('reproduces the published Flinders Peak to Buninyong geodesic', () => {
+    const { distance, azimuth } = vincentyInverse(FLINDERS_PEAK, BUNINYONG);
+    expect(Math.abs(distance - FLINDERS_BUNINYONG_DISTANCE)).toBeLessThan(0.001);
+    // 0.01 arc second
+    expect(angleDifference(azimuth, FLINDERS_BUNINYONG_AZIMUTH)).toBeLessThan(0.01 / 3600);
+  });
+});
+
+describe('geodeticToECEF / ecefToGeodetic', () => {
+  it('places the reference points of the ellipsoid', () => {
+    const equator = geodeticToECEF({ latitude: 0, longitude: 0 });
+    expect(equator.x).toBeCloseTo(WGS84_A, 6);
+    expect(equator.y).toBeCloseTo(0, 6);
+    expect(equator.z).toBeCloseTo(0, 6);
+
+    const east = geodeticToECEF({ latitude: 0, longitude: 90, altitude: 100 });
+    expect(east.x).toBeCloseTo(0, 6);
+    expect(east.y).toBeCloseTo(WGS84_A + 100, 6);
+
+    const pole = geodeticToECEF({ latitude: 90, longitude: 0 });
+    expect(pole.x).toBeCloseTo(0, 6);
+    expect(pole.z).toBeCloseTo(WGS84_B, 6);
+  });
+
+  it('round-trips within a nanodegree and a millimeter', () => {
+    const latitudes = [-90, -67.5, -37.95, 0, 23.4, 52.516275, 89.999];
+    const longitudes = [-179.9, -73.98, 0, 13.377704, 144.4249, 180];
+    const altitudes = [-420, 0, 34, 8848];
+
+    latitudes.forEach(latitude => longitudes.forEach(longitude => altitudes.forEach(altitude => {
+      const location = ecefToGeodetic(geodeticToECEF({ latitude, longitude, altitude }));
+      expect(Math.abs(location.latitude - latitude)).toBeLessThan(1e-9);
+      // Longitude is undefined at the poles
+      if (Math.abs(latitude) < 90) {
+        expect(angleDifference(location.longitude, longitude)).toBeLessThan(1e-9);
+      }
+      expect(Math.abs((location.altitude || 0) - altitude)).toBeLessThan(0.001);
+    })));
+  });
+});
+
+describe('geoToScene / sceneToGeo', () => {
+  const locations = [
+    ...CITY_POINTS.map(([, location]) => ({ ...location, altitude: 60 })),
+    ...REGIONAL_LINES.map(([, , location]) => location)
+  ];
+
+  GEO_PROJECTIONS.forEach(projection => {
+    it(`round-trips with the ${projection} projection`, () => {
+      const geoManager = new GeoSpatialManager({ projection });
+      geoManager.setOrigin({ ...BRANDENBURG_GATE, altitude: 34 });
+
+      locations.forEach(location => {
+        const result = geoManager.sceneToGeo(geoManager.geoToScene(location));
+        expect(result).not.toBeNull();
+        expect(Math.abs(result!.latitude - location.latitude)).toBeLessThan(1e-9);
+        expect(Math.abs(result!.longitude - location.longitude)).toBeLessThan(1e-9);
+        expect(Math.abs((result!.altitude || 0) - (location.altitude || 0))).toBeLessThan(0.001);
+      });
+    });
+  });
+
+  it('puts the origin at the scene origin', () => {
+    GEO_PROJECTIONS.forEach(projection => {
+      const geoManager = new GeoSpatialManager({ projection });
+      geoManager.setOrigin(BRANDENBURG_GATE);
+      expect(geoManager.geoToScene(BRANDENBURG_GATE).length()).toBeLessThan(1e-6);
+    });
+  });
+
+  it('returns null without an origin', () => {
+    expect(new GeoSpatialManager().sceneToGeo(new THREE.Vector3())).toBeNull();
+  });
+});
+
+describe('projection accuracy against geodesics', () => {
+  describe('city scale (2-8 km)', () => {
+    CITY_POINTS.forEach(([name, location]) => {
+      const reference = vincentyInverse(BRANDENBURG_GATE, location);
+
+      it(`enu is within 1 cm and 0.0001° to ${name}`, () => {
+        const { distance, azimuth } = measure('enu', BRANDENBURG_GATE, location);
+        expect(Math.abs(distance - reference.distance)).toBeLessThan(0.01);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(1e-4);
+      });
+
+      // Both use a sphere, off from the ellipsoid by up to ~0.35% in Berlin
+      it(`equirectangular is within 0.5% and 0.05° to ${name}`, () => {
+        const { distance, azimuth } = measure('equirectangular', BRANDENBURG_GATE, location);
+        expect(Math.abs(distance - reference.distance) / reference.distance).toBeLessThan(0.005);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(0.05);
+      });
+
+      it(`web-mercator is within 0.5% and 0.05° to ${name}`, () => {
+        const { distance, azimuth } = measure('web-mercator', BRANDENBURG_GATE, location);
+        expect(Math.abs(distance - reference.distance) / reference.distance).toBeLessThan(0.005);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(0.05);
+      });
+    });
+  });
+
+  describe('regional scale (55-255 km)', () => {
+    const earthRadius = 6371000;
+
+    REGIONAL_LINES.forEach(([name, from, to]) => {
+      const reference = vincentyInverse(from, to);
+
+      // Points fall below the tangent plane, shortening it by about d³ / 6R²
+      it(`enu is within 1 m of the tangent-plane distance and 0.001° for ${name}`, () => {
+        const { distance, azimuth } = measure('enu', from, to);
+        const expected = reference.distance - reference.distance ** 3 / (6 * earthRadius * earthRadius);
+        expect(Math.abs(distance - expected)).toBeLessThan(1);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(0.001);
+      });
+
+      it(`equirectangular is within 0.5% and 1.5° for ${name}`, () => {
+        const { distance, azimuth } = measure('equirectangular', from, to);
+        expect(Math.abs(distance - reference.distance) / reference.distance).toBeLessThan(0.005);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(1.5);
+      });
+
+      // True to scale only at the origin's latitude
+      it(`web-mercator is within 1.5% and 1.5° for ${name}`, () => {
+        const { distance, azimuth } = measure('web-mercator', from, to);
+        expect(Math.abs(distance - reference.distance) / reference.distance).toBeLessThan(0.015);
+        expect(angleDifference(azimuth, reference.azimuth)).toBeLessThan(1.5);
+      });
+    });
+  });
+});
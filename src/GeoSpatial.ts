@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { TypedEventEmitter } from './EventEmitter.js';
 
 /**
  * GeoSpatial - Coordinate transformation utilities
@@ -6,27 +7,205 @@ import * as THREE from 'three';
  * Handles conversion between geographic coordinates (lat/lon) and
  * Three.js scene coordinates for proper model positioning.
  *
- * Uses equirectangular projection for simplicity and performance.
- * Works well for scenes within ~10km radius.
+ * Projections (see GeoProjection):
+ * - equirectangular (default): fast, works well within ~10km of the origin
+ * - enu: east-north-up tangent plane at the origin via WGS84 earth-centered
+ *   coordinates (ECEF); exact, with the earth's curvature
+ * - web-mercator: matches web map tiles, true to scale at the origin's latitude
+ *
+ * sceneToGeo() converts scene coordinates back with the same projection.
+ * Origin and projection changes are emitted, so loaders can re-position their
+ * models (see GeoOriginController for choosing the origin).
+ *
+ * Scene axes: X = East, Y = Up, -Z = North. A location can also carry the
+ * capture's orientation, so captures face true north and line up with each
+ * other and with the sun.
  */
 
 export interface GeoLocation {
   latitude: number;
   longitude: number;
   altitude?: number;
+  /** Compass bearing of the capture's forward axis (-Z) in degrees clockwise from true north */
+  heading?: number;
+  /** Degrees the forward axis is raised above the horizon */
+  pitch?: number;
+  /** Degrees the capture is rolled about its forward axis, positive right side down */
+  roll?: number;
+  /** Rotation in scene axes [x, y, z, w]; replaces heading, pitch and roll */
+  quaternion?: [number, number, number, number];
+}
+
+/**
+ * Orientation part of a location
+ */
+export type GeoOrientation = Pick<GeoLocation, 'heading' | 'pitch' | 'roll' | 'quaternion'>;
+
+/**
+ * Gets the orientation fields of a location
+ * @returns null if the location has no orientation
+ */
+export function getGeoOrientation(location: GeoOrientation): GeoOrientation | null {
+  const orientation: GeoOrientation = {};
+  if (location.quaternion) {
+    orientation.quaternion = location.quaternion;
+  } else {
+    if (location.heading !== undefined) orientation.heading = location.heading;
+    if (location.pitch !== undefined) orientation.pitch = location.pitch;
+    if (location.roll !== undefined) orientation.roll = location.roll;
+  }
+  return Object.keys(orientation).length > 0 ? orientation : null;
+}
+
+export type GeoProjection = 'equirectangular' | 'enu' | 'web-mercator';
+
+export const GEO_PROJECTIONS: GeoProjection[] = ['equirectangular', 'enu', 'web-mercator'];
+
+export interface GeoSpatialOptions {
+  /** How locations are projected to scene coordinates (default 'equirectangular') */
+  projection?: GeoProjection;
+}
+
+/**
+ * Events emitted by GeoSpatialManager
+ */
+export interface GeoSpatialEvents {
+  /** The origin was set, or reset (null) */
+  originChanged: { origin: GeoLocation | null; previous: GeoLocation | null };
+  projectionChanged: { projection: GeoProjection };
+}
+
+// WGS84 ellipsoid; the conversions are written out to keep geospatial
+// libraries (and their React peers) out of the bundle
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const WGS84_EP2 = WGS84_E2 / (1 - WGS84_E2);
+
+/**
+ * Converts a location to earth-centered, earth-fixed coordinates on WGS84
+ */
+export function geodeticToECEF(location: GeoLocation, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+  const lat = THREE.MathUtils.degToRad(location.latitude);
+  const lon = THREE.MathUtils.degToRad(location.longitude);
+  const height = location.altitude || 0;
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+
+  return target.set(
+    (n + height) * Math.cos(lat) * Math.cos(lon),
+    (n + height) * Math.cos(lat) * Math.sin(lon),
+    (n * (1 - WGS84_E2) + height) * sinLat
+  );
+}
+
+/**
+ * Converts earth-centered, earth-fixed coordinates to a WGS84 location
+ * Bowring's method; sub-millimeter near the earth's surface.
+ */
+export function ecefToGeodetic(ecef: THREE.Vector3): GeoLocation {
+  const { x, y, z } = ecef;
+  const p = Math.sqrt(x * x + y * y);
+  const theta = Math.atan2(z * WGS84_A, p * WGS84_B);
+  const sinTheta = Math.sin(theta);
+  const cosTheta = Math.cos(theta);
+
+  const lat = Math.atan2(
+    z + WGS84_EP2 * WGS84_B * sinTheta * sinTheta * sinTheta,
+    p - WGS84_E2 * WGS84_A * cosTheta * cosTheta * cosTheta
+  );
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+
+  return {
+    latitude: THREE.MathUtils.radToDeg(lat),
+    longitude: THREE.MathUtils.radToDeg(Math.atan2(y, x)),
+    // Valid at any latitude, unlike p / cos(lat) - n
+    altitude: p * Math.cos(lat) + z * sinLat - (WGS84_A * WGS84_A) / n
+  };
+}
+
+/**
+ * Geographic center of locations, averaged on the WGS84 ellipsoid
+ * The altitude is the mean altitude.
+ * @returns null for no locations
+ */
+export function getGeoCentroid(locations: GeoLocation[]): GeoLocation | null {
+  if (locations.length === 0) return null;
+
+  const sum = new THREE.Vector3();
+  const point = new THREE.Vector3();
+  let altitude = 0;
+  locations.forEach(location => {
+    sum.add(geodeticToECEF({ latitude: location.latitude, longitude: location.longitude }, point));
+    altitude += location.altitude || 0;
+  });
+
+  const { latitude, longitude } = ecefToGeodetic(sum.divideScalar(locations.length));
+  return { latitude, longitude, altitude: altitude / locations.length };
+}
+
+/**
+ * Scene axes at a location in ECEF directions: X = East, Y = Up, Z = South
+ */
+function getSceneFrame(location: GeoLocation): THREE.Matrix4 {
+  const lat = THREE.MathUtils.degToRad(location.latitude);
+  const lon = THREE.MathUtils.degToRad(location.longitude);
+  const east = new THREE.Vector3(-Math.sin(lon), Math.cos(lon), 0);
+  const up = new THREE.Vector3(Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat));
+  const south = new THREE.Vector3().crossVectors(east, up);
+  return new THREE.Matrix4().makeBasis(east, up, south);
+}
+
+/**
+ * Web Mercator coordinates [x, y] in meters (spherical, as used by web maps)
+ */
+function toMercator(latitude: number, longitude: number): [number, number] {
+  const lat = THREE.MathUtils.degToRad(latitude);
+  return [
+    WGS84_A * THREE.MathUtils.degToRad(longitude),
+    WGS84_A * Math.log(Math.tan(Math.PI / 4 + lat / 2))
+  ];
 }
 
 export class GeoSpatialManager {
+  public readonly events = new TypedEventEmitter<GeoSpatialEvents>();
+
   private origin: GeoLocation | null = null;
+  private projection: GeoProjection;
   private readonly EARTH_RADIUS = 6371000; // meters
 
+  constructor(options: GeoSpatialOptions = {}) {
+    this.projection = options.projection || 'equirectangular';
+  }
+
+  /**
+   * Selects how locations are projected
+   */
+  public setProjection(projection: GeoProjection): void {
+    if (projection === this.projection) return;
+    this.projection = projection;
+    console.log('Geospatial projection set to:', projection);
+    this.events.emit('projectionChanged', { projection });
+  }
+
+  /**
+   * Gets the projection
+   */
+  public getProjection(): GeoProjection {
+    return this.projection;
+  }
+
   /**
    * Sets the reference origin point for the scene
    * All subsequent positions will be relative to this origin
    */
   public setOrigin(location: GeoLocation): void {
+    const previous = this.origin;
     this.origin = location;
     console.log('Geospatial origin set to:', location);
+    this.events.emit('originChanged', { origin: location, previous });
   }
 
   /**
@@ -38,8 +217,7 @@ export class GeoSpatialManager {
 
   /**
    * Converts a geographic location to scene coordinates
-   * Returns position relative to the origin in meters
-   * Uses equirectangular projection (suitable for small areas)
+   * Returns position relative to the origin in meters, using the selected projection
    */
   public geoToScene(location: GeoLocation): THREE.Vector3 {
     if (!this.origin) {
@@ -47,19 +225,128 @@ export class GeoSpatialManager {
       this.setOrigin(location);
       return new THREE.Vector3(0, location.altitude || 0, 0);
     }
+    const origin = this.origin;
+
+    switch (this.projection) {
+      case 'enu': {
+        // Offset between the earth-centered positions, in the origin's tangent plane
+        const offset = geodeticToECEF(location).sub(geodeticToECEF(origin));
+        return offset.applyMatrix4(getSceneFrame(origin).transpose());
+      }
+      case 'web-mercator': {
+        // Mercator meters grow with 1/cos(latitude); scale them back at the origin
+        const scale = Math.cos(THREE.MathUtils.degToRad(origin.latitude));
+        const [x0, y0] = toMercator(origin.latitude, origin.longitude);
+        const [x, y] = toMercator(location.latitude, location.longitude);
+        return new THREE.Vector3(
+          (x - x0) * scale,
+          (location.altitude || 0) - (origin.altitude || 0),
+          -(y - y0) * scale
+        );
+      }
+      case 'equirectangular': {
+        const lat0 = THREE.MathUtils.degToRad(origin.latitude);
+        const lon0 = THREE.MathUtils.degToRad(origin.longitude);
+        const lat = THREE.MathUtils.degToRad(location.latitude);
+        const lon = THREE.MathUtils.degToRad(location.longitude);
+
+        // Equirectangular projection (suitable for small distances)
+        // X = East, Y = Up, Z = North (negated for Three.js convention)
+        const x = (lon - lon0) * Math.cos((lat0 + lat) / 2) * this.EARTH_RADIUS;
+        const z = -(lat - lat0) * this.EARTH_RADIUS; // Negative for Three.js coordinate system
+        const y = (location.altitude || 0) - (origin.altitude || 0);
+
+        return new THREE.Vector3(x, y, z);
+      }
+    }
+  }
 
-    const lat0 = THREE.MathUtils.degToRad(this.origin.latitude);
-    const lon0 = THREE.MathUtils.degToRad(this.origin.longitude);
-    const lat = THREE.MathUtils.degToRad(location.latitude);
-    const lon = THREE.MathUtils.degToRad(location.longitude);
+  /**
+   * Converts scene coordinates back to a geographic location
+   * Inverse of geoToScene() with the selected projection.
+   * @returns null if no origin is set
+   */
+  public sceneToGeo(position: THREE.Vector3): GeoLocation | null {
+    const origin = this.origin;
+    if (!origin) return null;
 
-    // Equirectangular projection (suitable for small distances)
-    // X = East, Y = Up, Z = North (negated for Three.js convention)
-    const x = (lon - lon0) * Math.cos((lat0 + lat) / 2) * this.EARTH_RADIUS;
-    const z = -(lat - lat0) * this.EARTH_RADIUS; // Negative for Three.js coordinate system
-    const y = (location.altitude || 0) - (this.origin.altitude || 0);
+    switch (this.projection) {
+      case 'enu': {
+        const ecef = position.clone().applyMatrix4(getSceneFrame(origin)).add(geodeticToECEF(origin));
+        return ecefToGeodetic(ecef);
+      }
+      case 'web-mercator': {
+        const scale = Math.cos(THREE.MathUtils.degToRad(origin.latitude));
+        const [x0, y0] = toMercator(origin.latitude, origin.longitude);
+        const x = x0 + position.x / scale;
+        const y = y0 - position.z / scale;
+        return {
+          latitude: THREE.MathUtils.radToDeg(2 * Math.atan(Math.exp(y / WGS84_A)) - Math.PI / 2),
+          longitude: THREE.MathUtils.radToDeg(x / WGS84_A),
+          altitude: position.y + (origin.altitude || 0)
+        };
+      }
+      case 'equirectangular': {
+        const lat0 = THREE.MathUtils.degToRad(origin.latitude);
+        const lat = lat0 - position.z / this.EARTH_RADIUS;
+        const lon = THREE.MathUtils.degToRad(origin.longitude) +
+          position.x / (Math.cos((lat0 + lat) / 2) * this.EARTH_RADIUS);
+        return {
+          latitude: THREE.MathUtils.radToDeg(lat),
+          longitude: THREE.MathUtils.radToDeg(lon),
+          altitude: position.y + (origin.altitude || 0)
+        };
+      }
+    }
+  }
 
-    return new THREE.Vector3(x, y, z);
+  /**
+   * Rotation from the level frame at a location (X = East, Y = Up, Z = South)
+   * into scene axes
+   * Identity except with the enu projection, where up and north at a distant
+   * location are turned by the earth's curvature.
+   */
+  public getFrameRotation(location: GeoLocation): THREE.Quaternion {
+    if (this.projection !== 'enu' || !this.origin) return new THREE.Quaternion();
+    const frame = getSceneFrame(this.origin).transpose().multiply(getSceneFrame(location));
+    return new THREE.Quaternion().setFromRotationMatrix(frame);
+  }
+
+  /**
+   * Converts a capture orientation to a rotation in scene coordinates
+   * Heading turns clockwise seen from above, so 90 points the forward axis east.
+   * @param location - Where the capture is, to turn it into the origin's frame (see getFrameRotation)
+   */
+  public orientationToScene(orientation: GeoOrientation, location?: GeoLocation): THREE.Quaternion {
+    const rotation = location ? this.getFrameRotation(location) : new THREE.Quaternion();
+    if (orientation.quaternion) {
+      return rotation.multiply(new THREE.Quaternion().fromArray(orientation.quaternion).normalize());
+    }
+
+    const { heading = 0, pitch = 0, roll = 0 } = orientation;
+    return rotation.multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(
+      THREE.MathUtils.degToRad(pitch),
+      THREE.MathUtils.degToRad(-heading),
+      THREE.MathUtils.degToRad(-roll),
+      'YXZ'
+    )));
+  }
+
+  /**
+   * Converts a rotation in scene coordinates to heading, pitch and roll
+   * Inverse of orientationToScene(); the heading is in [0, 360).
+   */
+  public orientationFromScene(quaternion: THREE.Quaternion, location?: GeoLocation): GeoOrientation {
+    const local = location
+      ? this.getFrameRotation(location).invert().multiply(quaternion)
+      : quaternion;
+    const euler = new THREE.Euler().setFromQuaternion(local, 'YXZ');
+    const round = (degrees: number) => Math.round(degrees * 100) / 100 || 0;
+    return {
+      heading: round(THREE.MathUtils.euclideanModulo(-THREE.MathUtils.radToDeg(euler.y), 360)) % 360,
+      pitch: round(THREE.MathUtils.radToDeg(euler.x)),
+      roll: round(-THREE.MathUtils.radToDeg(euler.z))
+    };
   }
 
   /**
@@ -85,6 +372,8 @@ export class GeoSpatialManager {
    * Resets the origin
    */
   public reset(): void {
+    const previous = this.origin;
     this.origin = null;
+    if (previous) this.events.emit('originChanged', { origin: null, previous });
   }
 }
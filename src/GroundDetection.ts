@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+
+/**
+ * GroundDetection - Finds the ground plane of a capture from its splat centers
+ *
+ * Captures come in tilted and with arbitrary floor heights. The ground is
+ * searched among the lowest points with RANSAC: random point triples propose
+ * planes, the plane with the most points within a tolerance wins, and a
+ * least-squares fit over those points refines it. Planes tilted more than
+ * `maxTilt` from the model's up axis are ignored, so walls are not taken for
+ * the floor.
+ *
+ * Sampling uses a fixed seed, so repeated detections give the same plane.
+ */
+
+export interface GroundDetectionOptions {
+  /** Splat centers sampled from the model (default 50000) */
+  maxSamples?: number;
+  /** Share of the lowest samples searched for the ground (default 0.3) */
+  lowerFraction?: number;
+  /** Planes proposed (default 400) */
+  iterations?: number;
+  /** Distance counted as on the plane, as a fraction of the model's size (default 0.01) */
+  tolerance?: number;
+  /** Largest accepted angle between the plane and the model's horizontal, in degrees (default 40) */
+  maxTilt?: number;
+  /** Share of the searched points that must lie on the plane (default 0.15) */
+  minInlierRatio?: number;
+}
+
+/**
+ * A detected ground plane in the model's local space
+ */
+export interface GroundPlane {
+  /** Unit normal pointing up */
+  normal: THREE.Vector3;
+  /** Point on the plane below the centroid of its points */
+  point: THREE.Vector3;
+  /** Share of the searched points on the plane */
+  inlierRatio: number;
+  /** Angle between the plane and the model's horizontal in degrees */
+  tilt: number;
+}
+
+// Fewer samples than this cannot tell the ground from noise
+const MIN_SAMPLES = 50;
+
+/**
+ * Small seeded generator (mulberry32) so detection is repeatable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Least-squares plane y = a*x + b*z + c through points
+ * @returns null if the points do not span a plane
+ */
+function fitPlane(points: THREE.Vector3[]): { a: number; b: number; c: number } | null {
+  let sxx = 0, sxz = 0, szz = 0, sx = 0, sz = 0, sxy = 0, szy = 0, sy = 0;
+  points.forEach(({ x, y, z }) => {
+    sxx += x * x; sxz += x * z; szz += z * z;
+    sx += x; sz += z;
+    sxy += x * y; szy += z * y; sy += y;
+  });
+  const n = points.length;
+
+  // Normal equations, solved with Cramer's rule
+  const m = new THREE.Matrix3().set(
+    sxx, sxz, sx,
+    sxz, szz, sz,
+    sx, sz, n
+  );
+  const det = m.determinant();
+  if (Math.abs(det) < 1e-12) return null;
+
+  const solve = (column: number) => {
+    const replaced = m.clone();
+    const e = replaced.elements;
+    // Matrix3 elements are column-major
+    e[column * 3] = sxy;
+    e[column * 3 + 1] = szy;
+    e[column * 3 + 2] = sy;
+    return replaced.determinant() / det;
+  };
+  return { a: solve(0), b: solve(1), c: solve(2) };
+}
+
+/**
+ * Estimates the dominant ground plane of a capture
+ * @param positions - Splat centers [x, y, z, ...] in the model's local space
+ * @returns null if there are too few points or no plane holds enough of them
+ */
+export function detectGroundPlane(
+  positions: ArrayLike<number>,
+  options: GroundDetectionOptions = {}
+): GroundPlane | null {
+  const {
+    maxSamples = 50000,
+    lowerFraction = 0.3,
+    iterations = 400,
+    tolerance = 0.01,
+    maxTilt = 40,
+    minInlierRatio = 0.15
+  } = options;
+
+  const count = Math.floor(positions.length / 3);
+  const stride = Math.max(1, Math.floor(count / maxSamples));
+  const samples: THREE.Vector3[] = [];
+  const bounds = new THREE.Box3();
+  for (let i = 0; i < count; i += stride) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) continue;
+    const point = new THREE.Vector3(x, y, z);
+    samples.push(point);
+    bounds.expandByPoint(point);
+  }
+  if (samples.length < MIN_SAMPLES) return null;
+
+  samples.sort((p, q) => p.y - q.y);
+  const candidates = samples.slice(0, Math.max(MIN_SAMPLES, Math.floor(samples.length * lowerFraction)));
+  const maxDistance = tolerance * bounds.getSize(new THREE.Vector3()).length();
+  const minUp = Math.cos(THREE.MathUtils.degToRad(maxTilt));
+
+  const random = createRandom(1);
+  const pick = () => candidates[Math.floor(random() * candidates.length)];
+  const normal = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  const best = { normal: new THREE.Vector3(), constant: 0, inliers: 0 };
+
+  for (let i = 0; i < iterations; i++) {
+    const a = pick();
+    normal.subVectors(pick(), a).cross(edge.subVectors(pick(), a));
+    if (normal.lengthSq() < 1e-12) continue;
+    normal.normalize();
+    if (normal.y < 0) normal.negate();
+    if (normal.y < minUp) continue;
+
+    const constant = -normal.dot(a);
+    let inliers = 0;
+    for (const point of candidates) {
+      if (Math.abs(normal.dot(point) + constant) <= maxDistance) inliers++;
+    }
+    if (inliers > best.inliers) {
+      best.normal.copy(normal);
+      best.constant = constant;
+      best.inliers = inliers;
+    }
+  }
+
+  const inlierRatio = best.inliers / candidates.length;
+  if (inlierRatio < minInlierRatio) return null;
+
+  const inliers = candidates.filter(point => Math.abs(best.normal.dot(point) + best.constant) <= maxDistance);
+  const centroid = inliers.reduce((sum, point) => sum.add(point), new THREE.Vector3()).divideScalar(inliers.length);
+
+  // Refine over the inliers; fall back to the sampled plane for degenerate sets
+  const fit = fitPlane(inliers);
+  const planeNormal = fit ? new THREE.Vector3(-fit.a, 1, -fit.b).normalize() : best.normal.clone();
+  const point = fit
+    ? new THREE.Vector3(centroid.x, fit.a * centroid.x + fit.b * centroid.z + fit.c, centroid.z)
+    : centroid;
+
+  return {
+    normal: planeNormal,
+    point,
+    inlierRatio,
+    tilt: THREE.MathUtils.radToDeg(Math.acos(Math.min(1, planeNormal.y)))
+  };
+}
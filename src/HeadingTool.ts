@@ -0,0 +1,274 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { NeRFLoader } from './NeRFLoader.js';
+import { SceneManager } from './SceneManager.js';
+import { GeoOrientation, getGeoOrientation } from './GeoSpatial.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * HeadingTool - Sets a capture's heading against a north arrow
+ *
+ * Shows an arrow to true north (scene -Z) and one along the capture's forward
+ * axis at the model's position, with a ring gizmo that turns the capture
+ * around the vertical axis. Line up something whose direction is known, such
+ * as a street or a facade, with the north arrow. Pitch and roll are kept.
+ *
+ * Turning changes the NeRFLoader geo orientation; saveToScene() writes it
+ * into the current scene's location (export the catalog to keep it).
+ */
+
+export interface HeadingToolConfig {
+  /** Disabled while the gizmo is dragged */
+  controls?: OrbitControls;
+  /** Length of the arrows in meters (default 12) */
+  arrowLength?: number;
+}
+
+/**
+ * Events emitted by HeadingTool
+ */
+export interface HeadingToolEvents {
+  editingChanged: { enabled: boolean };
+  /** Degrees clockwise from north */
+  headingChanged: { heading: number };
+  /** The orientation shown differs from (or matches again) the one stored in the scene */
+  modifiedChanged: { modified: boolean };
+}
+
+const NORTH_COLOR = 0xff4444;
+const FORWARD_COLOR = 0xffcc44;
+
+export class HeadingTool {
+  public readonly events = new TypedEventEmitter<HeadingToolEvents>();
+
+  private scene: THREE.Scene;
+  private nerfLoader: NeRFLoader;
+  private sceneManager: SceneManager;
+  private controls?: OrbitControls;
+
+  private gizmo: TransformControls;
+  private group: THREE.Group;
+  private northArrow: THREE.ArrowHelper;
+  private forwardArrow: THREE.ArrowHelper;
+  private label: THREE.Sprite;
+  private pivot: THREE.Object3D;
+  private editing: boolean = false;
+  private modified: boolean = false;
+  // Heading when the current drag started
+  private dragStartHeading: number | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    domElement: HTMLElement,
+    nerfLoader: NeRFLoader,
+    sceneManager: SceneManager,
+    config: HeadingToolConfig = {}
+  ) {
+    this.scene = scene;
+    this.nerfLoader = nerfLoader;
+    this.sceneManager = sceneManager;
+    this.controls = config.controls;
+    const length = config.arrowLength ?? 12;
+
+    this.group = new THREE.Group();
+    this.group.name = 'HeadingTool';
+    this.group.visible = false;
+    this.scene.add(this.group);
+
+    const north = new THREE.Vector3(0, 0, -1);
+    this.northArrow = new THREE.ArrowHelper(north, new THREE.Vector3(), length, NORTH_COLOR, length * 0.2, length * 0.1);
+    this.forwardArrow = new THREE.ArrowHelper(
+      north, new THREE.Vector3(), length * 0.75, FORWARD_COLOR, length * 0.12, length * 0.06
+    );
+    this.label = this.createLabel('N');
+    this.label.position.set(0, 0, -length * 1.15);
+    this.group.add(this.northArrow, this.forwardArrow, this.label);
+    // Drawn after the splats so the arrows are never hidden inside the capture
+    this.group.traverse(object => {
+      object.renderOrder = 999;
+      const material = (object as THREE.Mesh).material as THREE.Material | undefined;
+      if (material) material.depthTest = false;
+    });
+
+    this.pivot = new THREE.Object3D();
+    this.group.add(this.pivot);
+
+    this.gizmo = new TransformControls(camera, domElement);
+    this.gizmo.setMode('rotate');
+    this.gizmo.setSpace('world');
+    this.gizmo.showX = false;
+    this.gizmo.showZ = false;
+    this.gizmo.enabled = false;
+    this.gizmo.addEventListener('dragging-changed', (event) => {
+      if (this.controls) this.controls.enabled = !event.value;
+      this.pivot.quaternion.identity();
+      this.dragStartHeading = event.value ? this.getHeading() : null;
+    });
+    this.gizmo.addEventListener('objectChange', () => {
+      if (this.dragStartHeading === null) return;
+      const turn = new THREE.Euler().setFromQuaternion(this.pivot.quaternion, 'YXZ').y;
+      // Turning counter-clockwise seen from above lowers the heading
+      this.setHeading(this.dragStartHeading - THREE.MathUtils.radToDeg(turn));
+    });
+    this.scene.add(this.gizmo.getHelper());
+
+    this.unsubscribers.push(
+      this.nerfLoader.events.on('geoOrientationChanged', () => {
+        this.events.emit('headingChanged', { heading: this.getHeading() });
+        this.updateModified();
+      }),
+      this.sceneManager.events.on('sceneLoaded', () => this.updateModified()),
+      this.sceneManager.events.on('sceneUpdated', ({ scene }) => {
+        if (scene === this.sceneManager.getCurrentScene()) this.updateModified();
+      })
+    );
+  }
+
+  /**
+   * Keeps the arrows on the model; call once per frame before rendering
+   */
+  public update(): void {
+    const container = this.nerfLoader.getContainer();
+    this.group.visible = this.editing && container.visible && this.nerfLoader.getCurrentModel() !== null;
+    if (!this.group.visible) return;
+
+    container.updateWorldMatrix(true, false);
+    this.group.position.setFromMatrixPosition(container.matrixWorld);
+
+    // Forward axis of the capture, flattened onto the platform
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(container.getWorldQuaternion(new THREE.Quaternion()));
+    forward.y = 0;
+    if (forward.lengthSq() > 1e-6) this.forwardArrow.setDirection(forward.normalize());
+  }
+
+  /**
+   * Shows or hides the arrows and gizmo
+   */
+  public setEditing(enabled: boolean): void {
+    if (this.editing === enabled) return;
+    this.editing = enabled;
+    this.gizmo.enabled = enabled;
+    if (enabled) {
+      this.gizmo.attach(this.pivot);
+    } else {
+      this.gizmo.detach();
+    }
+    this.update();
+    this.events.emit('editingChanged', { enabled });
+  }
+
+  public isEditing(): boolean {
+    return this.editing;
+  }
+
+  /**
+   * Gets the heading of the current model in degrees clockwise from north
+   */
+  public getHeading(): number {
+    return this.getOrientation().heading ?? 0;
+  }
+
+  /**
+   * Turns the current model to a heading, keeping its pitch and roll
+   * @param heading - Degrees clockwise from north
+   */
+  public setHeading(heading: number): void {
+    const { pitch, roll } = this.getOrientation();
+    const orientation: GeoOrientation = {
+      heading: Math.round(THREE.MathUtils.euclideanModulo(heading, 360) * 10) / 10 % 360
+    };
+    if (pitch) orientation.pitch = pitch;
+    if (roll) orientation.roll = roll;
+    this.nerfLoader.setGeoOrientation(orientation);
+  }
+
+  /**
+   * Whether the orientation differs from the one stored in the current scene
+   */
+  public isModified(): boolean {
+    return this.modified;
+  }
+
+  /**
+   * Stores the orientation in the current scene's location
+   * @returns false if no scene is loaded
+   */
+  public saveToScene(): boolean {
+    const scene = this.sceneManager.getCurrentScene();
+    if (!scene) return false;
+    this.sceneManager.setSceneOrientation(scene.id, this.nerfLoader.getGeoOrientation());
+    return true;
+  }
+
+  /**
+   * Goes back to the orientation stored in the current scene
+   */
+  public revert(): void {
+    const scene = this.sceneManager.getCurrentScene();
+    this.nerfLoader.setGeoOrientation(scene ? getGeoOrientation(scene.location) : null);
+  }
+
+  /**
+   * Heading, pitch and roll of the loader's orientation, also for quaternions
+   */
+  private getOrientation(): GeoOrientation {
+    const orientation = this.nerfLoader.getGeoOrientation();
+    if (!orientation) return {};
+    const geoManager = this.nerfLoader.getGeoManager();
+    return geoManager.orientationFromScene(geoManager.orientationToScene(orientation));
+  }
+
+  private updateModified(): void {
+    const location = this.sceneManager.getCurrentScene()?.location;
+    const modified = JSON.stringify(this.nerfLoader.getGeoOrientation()) !==
+      JSON.stringify(location ? getGeoOrientation(location) : null);
+    if (modified === this.modified) return;
+    this.modified = modified;
+    this.events.emit('modifiedChanged', { modified });
+  }
+
+  private createLabel(text: string): THREE.Sprite {
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.fillStyle = '#ff4444';
+      context.font = 'bold 48px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(text, size / 2, size / 2);
+    }
+
+    const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      sizeAttenuation: false,
+      transparent: true
+    }));
+    sprite.scale.setScalar(0.05);
+    return sprite;
+  }
+
+  /**
+   * Removes the arrows, gizmo and event listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.gizmo.detach();
+    this.gizmo.dispose();
+    this.scene.remove(this.gizmo.getHelper());
+
+    this.northArrow.dispose();
+    this.forwardArrow.dispose();
+    this.label.material.map?.dispose();
+    this.label.material.dispose();
+    this.scene.remove(this.group);
+    this.events.removeAllListeners();
+  }
+}
@@ -0,0 +1,365 @@
+import * as THREE from 'three';
+import { NeRFLoader, PlatformConstraints, isLoadCancellation } from './NeRFLoader.js';
+import { GeoSpatialManager, GeoLocation } from './GeoSpatial.js';
+import { SceneManager } from './SceneManager.js';
+import { SceneMetadata } from './scenes.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * MultiCaptureManager - Shows several geolocated captures at once
+ *
+ * Each capture gets its own NeRFLoader, and therefore its own container,
+ * transforms and clipping volume. All loaders share one GeoSpatialManager so
+ * the captures are placed relative to each other by their geolocation.
+ *
+ * Captures are chosen by id, tag or distance from a point. The combined
+ * estimated GPU memory of all captures is kept within a budget: hidden
+ * captures are unloaded first, and captures that do not fit are skipped.
+ */
+
+/**
+ * Which catalog scenes to show; criteria are combined (a scene must match all given)
+ */
+export interface CaptureSelector {
+  ids?: string[];
+  tag?: string;
+  near?: { location: GeoLocation; radius: number };
+}
+
+export interface MultiCaptureOptions {
+  /** Maximum number of captures loaded at once (default 6) */
+  maxCaptures?: number;
+  /** Maximum combined estimated GPU memory in bytes (default 1 GB) */
+  maxBytes?: number;
+  /** Clipping volume of each capture (default: the main platform size) */
+  platformConstraints?: PlatformConstraints;
+}
+
+/**
+ * Public state of one capture
+ */
+export interface CaptureInfo {
+  scene: SceneMetadata;
+  visible: boolean;
+  ready: boolean;
+  estimatedBytes: number;
+  /** Distance from the geospatial origin in meters (null if no origin is set) */
+  distanceFromOrigin: number | null;
+}
+
+/**
+ * Events emitted by MultiCaptureManager
+ */
+export interface MultiCaptureEvents {
+  captureLoaded: { scene: SceneMetadata; boundingBox: THREE.Box3; durationMs: number };
+  captureFailed: { scene: SceneMetadata; error: unknown };
+  captureUnloaded: { scene: SceneMetadata };
+  captureVisibilityChanged: { scene: SceneMetadata; visible: boolean };
+  loadProgress: { scene: SceneMetadata; progress: number };
+  /** Captures that were not loaded because of the count or memory budget */
+  budgetExceeded: { skipped: SceneMetadata[]; estimatedBytes: number };
+}
+
+interface Capture {
+  scene: SceneMetadata;
+  loader: NeRFLoader;
+  ready: boolean;
+  /** performance.now() when the capture was last made visible, for eviction order */
+  lastShownAt: number;
+  unsubscribe: () => void;
+}
+
+export class MultiCaptureManager {
+  public readonly events = new TypedEventEmitter<MultiCaptureEvents>();
+
+  private scene: THREE.Scene;
+  private sceneManager: SceneManager;
+  private geoManager: GeoSpatialManager;
+  private platformConstraints?: PlatformConstraints;
+  private maxCaptures: number;
+  private maxBytes: number;
+  private captures = new Map<string, Capture>();
+  private loadController: AbortController | null = null;
+
+  /**
+   * @param scene - Scene the capture containers are added to
+   * @param sceneManager - Provides the scene catalog
+   * @param geoManager - Shared with the main loader so captures line up with it
+   * @param options - Budget and clipping options
+   */
+  constructor(
+    scene: THREE.Scene,
+    sceneManager: SceneManager,
+    geoManager: GeoSpatialManager,
+    options: MultiCaptureOptions = {}
+  ) {
+    this.scene = scene;
+    this.sceneManager = sceneManager;
+    this.geoManager = geoManager;
+    this.platformConstraints = options.platformConstraints;
+    this.maxCaptures = options.maxCaptures ?? 6;
+    this.maxBytes = options.maxBytes ?? 1024 * 1024 * 1024;
+  }
+
+  /**
+   * Finds the catalog scenes matching a selector
+   */
+  public selectScenes(selector: CaptureSelector): SceneMetadata[] {
+    const { ids, tag, near } = selector;
+
+    return this.sceneManager.getAllScenes().filter(scene => {
+      if (ids && !ids.includes(scene.id)) return false;
+      if (tag && !scene.tags?.includes(tag)) return false;
+      if (near && this.geoManager.calculateDistance(near.location, scene.location) > near.radius) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Shows exactly the scenes matching the selector
+   * Captures that no longer match are unloaded; new ones are loaded one at a
+   * time, nearest to the origin first, until the budget is reached.
+   * Starting another call aborts the loads of the previous one.
+   * @returns The captures that are loaded once all loads have settled
+   */
+  public async showCaptures(selector: CaptureSelector): Promise<CaptureInfo[]> {
+    this.loadController?.abort();
+    const controller = new AbortController();
+    this.loadController = controller;
+
+    const selected = this.sortByDistance(this.selectScenes(selector));
+    const selectedIds = new Set(selected.map(scene => scene.id));
+
+    [...this.captures.keys()]
+      .filter(id => !selectedIds.has(id))
+      .forEach(id => this.unloadCapture(id));
+
+    const skipped: SceneMetadata[] = [];
+    try {
+      for (const scene of selected) {
+        if (controller.signal.aborted) break;
+
+        const existing = this.captures.get(scene.id);
+        if (existing) {
+          this.setCaptureVisible(scene.id, true);
+          continue;
+        }
+
+        if (this.captures.size >= this.maxCaptures || !this.enforceBudget()) {
+          skipped.push(scene);
+          continue;
+        }
+
+        await this.loadCapture(scene, controller.signal);
+      }
+    } finally {
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+    }
+
+    if (skipped.length > 0) {
+      console.warn(`Multi-capture budget reached - skipped ${skipped.map(s => s.id).join(', ')}`);
+      this.events.emit('budgetExceeded', { skipped, estimatedBytes: this.getEstimatedBytes() });
+    }
+
+    return this.getCaptures();
+  }
+
+  /**
+   * Loads a single capture into its own container
+   * Failed loads are reported through events and do not throw
+   */
+  private async loadCapture(scene: SceneMetadata, signal: AbortSignal): Promise<void> {
+    const loader = new NeRFLoader(this.scene, this.platformConstraints, this.geoManager, {
+      cache: { maxEntries: 0 },
+      clipping: 'container',
+      containerName: `NeRFCapture:${scene.id}`
+    });
+
+    const capture: Capture = {
+      scene,
+      loader,
+      ready: false,
+      lastShownAt: performance.now(),
+      unsubscribe: loader.events.on('loadProgress', ({ progress }) => {
+        this.events.emit('loadProgress', { scene, progress });
+      })
+    };
+    this.captures.set(scene.id, capture);
+
+    try {
+      const { boundingBox, durationMs } = await loader.loadNeRFModel(scene.url, {
+        format: scene.format,
+        location: scene.location,
+        transform: scene.transform,
+        crop: scene.crop,
+        signal
+      });
+      capture.ready = true;
+
+      // Sizes are only known once loaded, so a capture can still overflow the budget
+      if (!this.enforceBudget(capture)) {
+        console.warn(`Capture ${scene.id} exceeds the multi-capture memory budget`);
+        this.unloadCapture(scene.id);
+        this.events.emit('budgetExceeded', { skipped: [scene], estimatedBytes: this.getEstimatedBytes() });
+        return;
+      }
+
+      this.events.emit('captureLoaded', { scene, boundingBox, durationMs });
+    } catch (error) {
+      if (this.captures.get(scene.id) === capture) {
+        this.unloadCapture(scene.id);
+      }
+      if (!isLoadCancellation(error)) {
+        console.error(`Failed to load capture ${scene.id}:`, error);
+        this.events.emit('captureFailed', { scene, error });
+      }
+    }
+  }
+
+  /**
+   * Unloads hidden captures, least recently shown first, until the combined
+   * memory is within budget
+   * @param keep - Capture that must not be unloaded
+   * @returns Whether the captures now fit the budget
+   */
+  private enforceBudget(keep?: Capture): boolean {
+    const hidden = [...this.captures.values()]
+      .filter(capture => capture !== keep && !capture.loader.getContainer().visible)
+      .sort((a, b) => a.lastShownAt - b.lastShownAt);
+
+    while (this.getEstimatedBytes() > this.maxBytes && hidden.length > 0) {
+      const oldest = hidden.shift() as Capture;
+      console.log(`Multi-capture over budget - unloading hidden capture ${oldest.scene.id}`);
+      this.unloadCapture(oldest.scene.id);
+    }
+
+    return this.getEstimatedBytes() <= this.maxBytes;
+  }
+
+  /**
+   * Orders scenes by distance from the geospatial origin (catalog order if unset)
+   */
+  private sortByDistance(scenes: SceneMetadata[]): SceneMetadata[] {
+    const origin = this.geoManager.getOrigin();
+    if (!origin) return scenes;
+
+    return scenes
+      .map(scene => ({ scene, distance: this.geoManager.calculateDistance(origin, scene.location) }))
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ scene }) => scene);
+  }
+
+  /**
+   * Shows or hides a capture without unloading it
+   */
+  public setCaptureVisible(id: string, visible: boolean): void {
+    const capture = this.captures.get(id);
+    if (!capture) return;
+
+    const container = capture.loader.getContainer();
+    if (container.visible === visible) return;
+
+    container.visible = visible;
+    if (visible) {
+      capture.lastShownAt = performance.now();
+    }
+    this.events.emit('captureVisibilityChanged', { scene: capture.scene, visible });
+  }
+
+  /**
+   * Unloads a capture and releases its GPU memory
+   */
+  public unloadCapture(id: string): void {
+    const capture = this.captures.get(id);
+    if (!capture) return;
+
+    this.captures.delete(id);
+    capture.unsubscribe();
+    capture.loader.dispose();
+    this.events.emit('captureUnloaded', { scene: capture.scene });
+  }
+
+  /**
+   * Unloads every capture and aborts loads in progress
+   */
+  public clear(): void {
+    this.loadController?.abort();
+    this.loadController = null;
+    [...this.captures.keys()].forEach(id => this.unloadCapture(id));
+  }
+
+  /**
+   * Gets the loaded (and loading) captures
+   */
+  public getCaptures(): CaptureInfo[] {
+    const origin = this.geoManager.getOrigin();
+
+    return [...this.captures.values()].map(capture => ({
+      scene: capture.scene,
+      visible: capture.loader.getContainer().visible,
+      ready: capture.ready,
+      estimatedBytes: capture.loader.getEstimatedBytes(),
+      distanceFromOrigin: origin
+        ? this.geoManager.calculateDistance(origin, capture.scene.location)
+        : null
+    }));
+  }
+
+  /**
+   * Gets the loader of a capture, e.g. to adjust its container transform
+   */
+  public getCaptureLoader(id: string): NeRFLoader | undefined {
+    return this.captures.get(id)?.loader;
+  }
+
+  /**
+   * Whether any captures are loaded or loading
+   */
+  public isActive(): boolean {
+    return this.captures.size > 0;
+  }
+
+  /**
+   * Combined estimated GPU memory of all captures in bytes
+   */
+  public getEstimatedBytes(): number {
+    let total = 0;
+    this.captures.forEach(capture => {
+      total += capture.loader.getEstimatedBytes();
+    });
+    return total;
+  }
+
+  /**
+   * World-space bounds of all visible, loaded captures (empty if none)
+   */
+  public getBounds(): THREE.Box3 {
+    const bounds = new THREE.Box3();
+    this.captures.forEach(capture => {
+      const model = capture.loader.getCurrentModel();
+      if (!capture.ready || !model || !capture.loader.getContainer().visible) return;
+      model.updateWorldMatrix(true, false);
+      bounds.union(model.boundingBox.clone().applyMatrix4(model.matrixWorld));
+    });
+    return bounds;
+  }
+
+  /**
+   * Gets the combined budget limits
+   */
+  public getBudget(): { maxCaptures: number; maxBytes: number } {
+    return { maxCaptures: this.maxCaptures, maxBytes: this.maxBytes };
+  }
+
+  /**
+   * Unloads all captures and removes all listeners
+   */
+  public dispose(): void {
+    this.clear();
+    this.events.removeAllListeners();
+  }
+}
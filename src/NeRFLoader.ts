@@ -1,13 +1,52 @@
 import * as THREE from 'three';
-import { LumaSplatsThree } from '@lumaai/luma-web';
-import { GeoSpatialManager, GeoLocation } from './GeoSpatial.js';
+import { GeoSpatialManager, GeoLocation, GeoOrientation, getGeoOrientation } from './GeoSpatial.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import {
+  SplatCache,
+  SplatCacheOptions,
+  SplatCacheStats,
+  SplatHandle,
+  estimateSplatBytes
+} from './SplatCache.js';
+import { setSplatOpacity } from './SplatEffects.js';
+import {
+  SplatModel,
+  SplatModelSettings,
+  SplatSourceAdapter,
+  SplatSourceRequest,
+  createDefaultSplatSources
+} from './SplatSource.js';
+import { SplatFormat } from './SplatFormats.js';
+import { SceneCrop, SceneTransform } from './scenes.js';
+import { createCropClipping } from './CropVolume.js';
+import { GroundDetectionOptions, GroundPlane, detectGroundPlane } from './GroundDetection.js';
 
 /**
  * NeRFLoader - Dynamic NeRF model loading and management
  *
  * This module handles loading and displaying Gaussian Splatting NeRF models
- * from Luma Labs captures. Supports dynamic loading by URL and proper cleanup.
- * Now includes geospatial positioning support.
+ * from Luma Labs captures and .ply/.splat/.ksplat files. Supports dynamic
+ * loading by URL and proper cleanup. Now includes geospatial positioning support.
+ *
+ * Models are created by the first source adapter (see SplatSource) that can
+ * load the URL, format or MIME type; more adapters can be registered.
+ *
+ * Recently shown and preloaded models are kept hidden in a bounded LRU cache
+ * (see SplatCache) so that switching back to them does not download again.
+ *
+ * The container transform is composed of a base (geo position and auto-scale
+ * factor) and a model transform on top of it (offset, rotation and scale
+ * multiplier), so per-scene presets and user adjustments survive re-scaling.
+ *
+ * A location's heading, pitch and roll (or quaternion) turn the container so
+ * captures face true north; the model transform is applied on top of it.
+ * Models move along when the geospatial origin or projection changes.
+ *
+ * Models are clipped to the platform walls and floor, or to a crop volume
+ * (see CropVolume) that moves with the container.
+ *
+ * levelToGround() detects a model's ground plane (see GroundDetection) and
+ * sets a model transform that puts it on the platform surface.
  */
 
 export interface NeRFModelOptions {
@@ -15,41 +54,235 @@ export interface NeRFModelOptions {
   loadingAnimationEnabled?: boolean;
   particleRevealEnabled?: boolean;
   location?: GeoLocation;
+  /** Milliseconds to wait for the splat data before failing (default 60000) */
+  timeout?: number;
+  /** Aborting the signal cancels the load and disposes the partially loaded model */
+  signal?: AbortSignal;
+  /** Initial splat opacity, e.g. 0 to fade the model in with a transition (default 1) */
+  opacity?: number;
+  /** Model transform applied after geo positioning and auto-scaling (default identity) */
+  transform?: SceneTransform;
+  /** Splat file format, for URLs whose extension does not tell */
+  format?: SplatFormat;
+  /** MIME type of the source, e.g. of a dropped file */
+  mimeType?: string;
+  /** Crop volume in container space, replacing the platform clipping walls */
+  crop?: SceneCrop;
 }
 
+/**
+ * A model taken out of the container so it can stay visible (e.g. during a
+ * scene transition) while the next model loads
+ */
+export interface DetachedModel {
+  handle: SplatHandle;
+  /** Holds the model with a copy of the container transform it had when detached */
+  group: THREE.Group;
+}
+
+/**
+ * Result of a completed model load
+ */
+export interface LoadedNeRFModel {
+  model: SplatModel;
+  url: string;
+  /** Name of the source adapter that loaded the model */
+  source: string;
+  /** World-space bounding box after geo positioning and auto-scaling */
+  boundingBox: THREE.Box3;
+  durationMs: number;
+}
+
+export type NeRFLoadErrorCode = 'timeout' | 'failed' | 'disposed' | 'aborted';
+
+/**
+ * Error thrown when a model does not become ready
+ */
+export class NeRFLoadError extends Error {
+  public readonly code: NeRFLoadErrorCode;
+  public readonly url: string;
+  public readonly cause?: unknown;
+
+  constructor(code: NeRFLoadErrorCode, url: string, message: string, cause?: unknown) {
+    super(`${message} (${url})`);
+    this.name = 'NeRFLoadError';
+    this.code = code;
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Returns true if the error means the load was cancelled (aborted, superseded
+ * by a newer load, or disposed) rather than failed
+ */
+export function isLoadCancellation(error: unknown): error is NeRFLoadError {
+  return error instanceof NeRFLoadError && (error.code === 'aborted' || error.code === 'disposed');
+}
+
+const DEFAULT_LOAD_TIMEOUT = 60000;
+
 export interface PlatformConstraints {
   size: number;
   height: number;
   surfaceY: number;
 }
 
+/**
+ * Where the platform-sized clipping volume is centred:
+ * - platform:  on the central platform (the model is cut to the platform)
+ * - container: horizontally on the model container, so geo-positioned models
+ *              away from the platform keep their own clipping volume
+ */
+export type ClippingMode = 'platform' | 'container';
+
+export interface NeRFLoaderOptions {
+  /** Limits of the cache of hidden, previously shown or preloaded models */
+  cache?: SplatCacheOptions;
+  /** Clipping volume placement (default 'platform') */
+  clipping?: ClippingMode;
+  /** Name of the model container in the scene graph (default 'NeRFModelContainer') */
+  containerName?: string;
+  /** Source adapters asked in order (default Luma captures, then splat files) */
+  sources?: SplatSourceAdapter[];
+  /** Level models loaded without a transform onto the platform surface (default false) */
+  autoLevelGround?: boolean;
+}
+
+/**
+ * Result of levelToGround()
+ */
+export interface GroundLeveling {
+  url: string;
+  /** Detected plane in the model's local space */
+  plane: GroundPlane;
+  /** Model transform before leveling, to undo it */
+  previous: Required<SceneTransform>;
+  /** Model transform that levels the model */
+  transform: Required<SceneTransform>;
+}
+
+/**
+ * Events emitted by NeRFLoader
+ * Timings are milliseconds measured with performance.now()
+ */
+export interface NeRFLoaderEvents {
+  loadStarted: { url: string; startTime: number };
+  loadProgress: { url: string; progress: number };
+  modelReady: { url: string; model: SplatModel; boundingBox: THREE.Box3; durationMs: number };
+  autoScaled: { url: string; scaleFactor: number; size: THREE.Vector3 };
+  loadFailed: { url: string; error: NeRFLoadError };
+  loadAborted: { url: string; reason: NeRFLoadError };
+  /** The current model left the container, either into the cache or disposed */
+  modelUnloaded: { url: string; cached: boolean };
+  /** GPU resources of a model were released (current model or cache eviction) */
+  modelDisposed: { url: string };
+  /** The crop volume was replaced; null means the platform walls */
+  cropChanged: { crop: SceneCrop | null };
+  /** The geographic orientation was replaced; null means none (facing north) */
+  geoOrientationChanged: { orientation: GeoOrientation | null };
+  /** A model was leveled onto the platform, automatically after loading or by levelToGround() */
+  groundLeveled: GroundLeveling & { automatic: boolean };
+}
+
 export class NeRFLoader {
+  public readonly events = new TypedEventEmitter<NeRFLoaderEvents>();
+
   private scene: THREE.Scene;
-  private currentModel: LumaSplatsThree | null = null;
+  private currentHandle: SplatHandle | null = null;
+  private cancelPendingLoad: ((code: NeRFLoadErrorCode, message: string) => void) | null = null;
   private modelContainer: THREE.Group;
   private geoManager: GeoSpatialManager;
+  private ownsGeoManager: boolean;
   private platformConstraints: PlatformConstraints;
-  private clipPlanes: THREE.Plane[];
+  private clipPlanes: THREE.Plane[] = [];
+  private clipping: ClippingMode;
+  private crop: SceneCrop | null = null;
+  // Container transform = base (geo position and orientation, auto-scale) + model transform
+  private basePosition = new THREE.Vector3();
+  private baseQuaternion = new THREE.Quaternion();
+  private geoLocation: GeoLocation | null = null;
+  private geoOrientation: GeoOrientation | null = null;
+  private baseScale: number = 1;
+  private modelOffset = new THREE.Vector3();
+  private modelQuaternion = new THREE.Quaternion();
+  private modelScale: number = 1;
+  // Vertical offset animated by transitions, never part of the model transform
+  private transitionOffset: number = 0;
+  private cache: SplatCache;
+  private cacheGroup: THREE.Group;
+  private sources: SplatSourceAdapter[];
+  private autoLevelGround: boolean;
+  private geoUnsubscribers: Array<() => void> = [];
 
   constructor(
     scene: THREE.Scene,
     platformConstraints?: PlatformConstraints,
-    geoManager?: GeoSpatialManager
+    geoManager?: GeoSpatialManager,
+    options: NeRFLoaderOptions = {}
   ) {
     this.scene = scene;
     this.geoManager = geoManager || new GeoSpatialManager();
+    // A shared geospatial manager is left alone on dispose
+    this.ownsGeoManager = !geoManager;
     this.platformConstraints = platformConstraints || {
       size: 60,
       height: 1.5,
       surfaceY: 0
     };
 
-    // Create clipping planes for platform boundaries
-    this.clipPlanes = this.createClippingPlanes();
+    this.clipping = options.clipping || 'platform';
 
     this.modelContainer = new THREE.Group();
-    this.modelContainer.name = 'NeRFModelContainer';
+    this.modelContainer.name = options.containerName || 'NeRFModelContainer';
     this.scene.add(this.modelContainer);
+
+    // Hidden group holding cached models; invisible objects are not rendered
+    // but their splat data keeps downloading
+    this.cacheGroup = new THREE.Group();
+    this.cacheGroup.name = 'NeRFModelCache';
+    this.cacheGroup.visible = false;
+    this.scene.add(this.cacheGroup);
+
+    this.cache = new SplatCache(options.cache || {}, (handle) => {
+      this.disposeModel(handle.model, handle.url);
+    });
+
+    this.sources = options.sources ? [...options.sources] : createDefaultSplatSources();
+    this.autoLevelGround = options.autoLevelGround ?? false;
+
+    // Follow origin and projection changes, also when they come from another loader
+    this.geoUnsubscribers.push(
+      this.geoManager.events.on('originChanged', () => this.updateGeoPosition()),
+      this.geoManager.events.on('projectionChanged', () => this.updateGeoPosition())
+    );
+  }
+
+  /**
+   * Adds a source adapter
+   * @param first - Ask it before the existing adapters (default true), so it can take over their URLs
+   */
+  public registerSource(adapter: SplatSourceAdapter, first: boolean = true): void {
+    this.sources = this.sources.filter(source => source.name !== adapter.name);
+    if (first) {
+      this.sources.unshift(adapter);
+    } else {
+      this.sources.push(adapter);
+    }
+  }
+
+  /**
+   * Gets the source adapters in the order they are asked
+   */
+  public getSources(): SplatSourceAdapter[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Finds the first adapter that can load a source
+   */
+  public resolveSource(request: SplatSourceRequest): SplatSourceAdapter | null {
+    return this.sources.find(source => source.canLoad(request)) ?? null;
   }
 
   /**
@@ -68,116 +301,484 @@ export class NeRFLoader {
   }
 
   /**
-   * Loads a NeRF model from a Luma capture URL
-   * @param url - Luma capture URL (e.g., "https://lumalabs.ai/capture/...")
-   * @param options - Loading options including optional geolocation
-   * @returns Promise that resolves when the model is loaded
+   * Loads a NeRF model from a Luma capture URL or a splat file
+   * @param url - Luma capture URL (e.g., "https://lumalabs.ai/capture/...") or
+   * local/same-origin .ply, .splat or .ksplat URL
+   * @param options - Loading options including optional geolocation and format hints
+   * @returns Promise that resolves once the splat data is loaded, positioned and auto-scaled
+   * @throws NeRFLoadError if the download fails, times out, is aborted, or is
+   * superseded by a newer call before the model is ready
    */
   public async loadNeRFModel(
     url: string,
     options: NeRFModelOptions = {}
-  ): Promise<LumaSplatsThree> {
-    // Dispose of any existing model first
-    this.disposeCurrentModel();
-
+  ): Promise<LoadedNeRFModel> {
     const {
       enableThreeShaderIntegration = true,
       loadingAnimationEnabled = true,
       particleRevealEnabled = true,
-      location
+      location,
+      timeout = DEFAULT_LOAD_TIMEOUT,
+      signal,
+      opacity = 1,
+      transform = {},
+      format,
+      mimeType,
+      crop
     } = options;
 
+    if (signal?.aborted) {
+      throw new NeRFLoadError('aborted', url, 'Load was aborted before it started');
+    }
+
+    // Fail before releasing the current model if nothing can load the source
+    const request: SplatSourceRequest = { url, format, mimeType };
+    const cached = this.cache.has(url);
+    const source = cached ? null : this.resolveSource(request);
+    if (!cached && !source) {
+      const error = new NeRFLoadError('failed', url, 'No splat source adapter can load this URL');
+      this.events.emit('loadFailed', { url, error });
+      throw error;
+    }
+
+    // Abort an overlapping load, then release the existing model
+    this.cancelPendingLoad?.('aborted', 'Load was superseded by a newer load');
+    this.releaseCurrentModel();
+
     console.log(`Loading NeRF model from: ${url}`);
+    const startTime = performance.now();
+    this.events.emit('loadStarted', { url, startTime });
 
-    // Create new Luma Splats instance
-    const splat = new LumaSplatsThree({
-      source: url,
-      enableThreeShaderIntegration,
-      loadingAnimationEnabled,
-      particleRevealEnabled
-    });
+    const settings = { enableThreeShaderIntegration, loadingAnimationEnabled, particleRevealEnabled };
+    let handle = this.cache.take(url);
+    if (handle) {
+      console.log(`Using cached NeRF model${handle.isReady ? '' : ' (still loading)'}`);
+      const cachedSource = handle.source;
+      this.sources.find(s => s.name === cachedSource)?.applySettings?.(handle.model, settings);
+      this.cacheGroup.remove(handle.model);
+    } else {
+      handle = this.createSplatHandle(source!, request, settings);
+    }
+    const splat = handle.model;
+    setSplatOpacity(splat, opacity);
 
     // Add to the container
     this.modelContainer.add(splat);
-    this.currentModel = splat;
+    this.currentHandle = handle;
 
     // If geolocation is provided, position the model accordingly
+    this.geoLocation = location ?? null;
     if (location) {
       this.positionModelByGeo(location);
     }
-
-    // Wait for model to load and then auto-scale if needed
-    this.waitForModelAndAutoScale(splat);
+    this.setGeoOrientation(location ? getGeoOrientation(location) : null);
+    this.setCrop(crop ?? null);
+    this.setModelTransform(transform);
 
     console.log('NeRF model loading initiated');
 
-    // Return the splat object immediately - Luma handles async loading internally
-    return Promise.resolve(splat);
+    try {
+      await this.waitForModelReady(handle, timeout, signal);
+    } catch (error) {
+      const loadError = error instanceof NeRFLoadError
+        ? error
+        : new NeRFLoadError('failed', url, 'Failed to load model', error);
+
+      // Never leave a stale or broken model in the container
+      if (this.currentHandle === handle) {
+        this.disposeCurrentModel();
+      }
+
+      if (isLoadCancellation(loadError)) {
+        console.log(`NeRF model load cancelled: ${url}`);
+        this.events.emit('loadAborted', { url, reason: loadError });
+      } else {
+        this.events.emit('loadFailed', { url, error: loadError });
+      }
+      throw loadError;
+    }
+
+    this.autoScaleModel(splat, url);
+    this.applyContainerTransform();
+
+    // A scene's transform preset already places the model
+    if (this.autoLevelGround && !options.transform) {
+      this.applyGroundLeveling(true);
+    }
+
+    this.modelContainer.updateMatrixWorld(true);
+    const boundingBox = splat.boundingBox.clone().applyMatrix4(splat.matrixWorld);
+    const durationMs = performance.now() - startTime;
+
+    console.log(`NeRF model ready after ${durationMs.toFixed(0)}ms`);
+    this.events.emit('modelReady', { url, model: splat, boundingBox, durationMs });
+
+    return { model: splat, url, source: handle.source, boundingBox, durationMs };
+  }
+
+  /**
+   * Lets a source adapter create the model and tracks when its data is fully loaded
+   */
+  private createSplatHandle(
+    source: SplatSourceAdapter,
+    request: SplatSourceRequest,
+    settings: SplatModelSettings
+  ): SplatHandle {
+    const { url } = request;
+    console.log(`Loading with the ${source.name} source`);
+
+    const { model, ready, getSplatCount } = source.load(request, settings, (progress) => {
+      this.events.emit('loadProgress', { url, progress });
+    });
+
+    const handle: SplatHandle = { url, model, source: source.name, ready, isReady: false, getSplatCount };
+    ready.then(
+      () => {
+        handle.isReady = true;
+        // Cached models grow while loading, so re-check the memory budget
+        this.cache.enforceLimits();
+      },
+      () => { /* reported by whoever awaits the handle */ }
+    );
+
+    return handle;
   }
 
   /**
-   * Waits for the model to load and automatically scales it to fit the platform if needed
+   * Resolves when the source adapter reports the splat as fully loaded
+   * Rejects on download failure, timeout, abort, or if the model is disposed first
    */
-  private async waitForModelAndAutoScale(splat: LumaSplatsThree): Promise<void> {
-    // Wait for the model to have geometry by polling
-    const maxAttempts = 100; // ~10 seconds max wait
-    let attempts = 0;
+  private waitForModelReady(
+    handle: SplatHandle,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { url } = handle;
 
-    const checkLoaded = async (): Promise<boolean> => {
-      // Check if the splat has children with geometry
-      let hasGeometry = false;
-      splat.traverse((child) => {
-        if (child instanceof THREE.Mesh || (child as any).geometry) {
-          hasGeometry = true;
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const settle = (error?: NeRFLoadError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (this.cancelPendingLoad === cancel) {
+          this.cancelPendingLoad = null;
         }
-      });
-      return hasGeometry;
-    };
 
-    // Poll until loaded or timeout
-    while (attempts < maxAttempts) {
-      const loaded = await checkLoaded();
-      if (loaded) {
-        break;
-      }
-      await new Promise(resolve => setTimeout(resolve, 100));
-      attempts++;
-    }
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const cancel = (code: NeRFLoadErrorCode, message: string) => {
+        settle(new NeRFLoadError(code, url, message));
+      };
 
-    if (attempts >= maxAttempts) {
-      console.warn('Model loading timeout - skipping auto-scale');
+      const onAbort = () => cancel('aborted', 'Load was aborted');
+
+      const timer = setTimeout(() => {
+        settle(new NeRFLoadError('timeout', url, `Model did not finish loading within ${timeout}ms`));
+      }, timeout);
+
+      handle.ready.then(
+        () => settle(),
+        (cause) => settle(new NeRFLoadError('failed', url, 'Failed to download splat data', cause))
+      );
+      signal?.addEventListener('abort', onAbort);
+      this.cancelPendingLoad = cancel;
+    });
+  }
+
+  /**
+   * Starts downloading a model in the background so a later
+   * loadNeRFModel() call for the same URL can reuse it
+   */
+  public preload(url: string, options: NeRFModelOptions = {}): void {
+    if (this.currentHandle?.url === url || this.cache.has(url)) return;
+    if (this.cache.getStats().maxEntries === 0) return;
+
+    const {
+      enableThreeShaderIntegration = true,
+      loadingAnimationEnabled = true,
+      particleRevealEnabled = true,
+      format,
+      mimeType
+    } = options;
+
+    const request: SplatSourceRequest = { url, format, mimeType };
+    const source = this.resolveSource(request);
+    if (!source) {
+      console.warn(`No splat source adapter can preload ${url}`);
       return;
     }
 
-    // Calculate bounding box
-    const box = new THREE.Box3().setFromObject(splat);
-    const size = new THREE.Vector3();
-    box.getSize(size);
+    console.log(`Preloading NeRF model: ${url}`);
+    const handle = this.createSplatHandle(source, request, {
+      enableThreeShaderIntegration,
+      loadingAnimationEnabled,
+      particleRevealEnabled
+    });
+    this.cacheGroup.add(handle.model);
+    this.cache.put(handle);
+
+    handle.ready.catch((error) => {
+      console.warn(`Failed to preload NeRF model ${url}:`, error);
+      if (this.currentHandle !== handle) {
+        this.cache.evict(url);
+      }
+    });
+  }
+
+  /**
+   * Gets the current usage and limits of the model cache
+   */
+  public getCacheStats(): SplatCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Estimated GPU memory of the current model and all cached models in bytes
+   */
+  public getEstimatedBytes(): number {
+    const current = this.currentHandle ? estimateSplatBytes(this.currentHandle) : 0;
+    return current + this.cache.getEstimatedBytes();
+  }
 
-    // Check if model exceeds platform bounds (with some margin)
-    const platformSize = this.platformConstraints.size;
-    const maxDimension = Math.max(size.x, size.z); // Only check horizontal dimensions
-    const margin = 0.9; // Use 90% of platform size to leave some space
+  /**
+   * Disposes every cached model
+   */
+  public clearCache(): void {
+    this.cache.clear();
+  }
 
-    if (maxDimension > platformSize * margin) {
-      const scaleFactor = (platformSize * margin) / maxDimension;
-      this.modelContainer.scale.multiplyScalar(scaleFactor);
+  /**
+   * Sets the base scale so the loaded model fits the platform if needed
+   * The scale is set (not accumulated) so it does not depend on the previous model
+   */
+  private autoScaleModel(splat: SplatModel, url: string): void {
+    splat.updateMatrix();
+    const size = new THREE.Vector3();
 
-      console.log(`Model auto-scaled by ${scaleFactor.toFixed(3)}x to fit platform`);
-      console.log(`Original size: [${size.x.toFixed(2)}, ${size.y.toFixed(2)}, ${size.z.toFixed(2)}]`);
-      console.log(`Platform size: ${platformSize.toFixed(2)}`);
+    if (splat.boundingBox.isEmpty()) {
+      console.warn('Model has no bounding box - skipping auto-scale');
+      this.baseScale = 1;
     } else {
-      console.log(`Model fits within platform bounds`);
-      console.log(`Model size: [${size.x.toFixed(2)}, ${size.y.toFixed(2)}, ${size.z.toFixed(2)}]`);
-      console.log(`Platform size: ${platformSize.toFixed(2)}`);
+      // Size in container space, before the container's own scale
+      splat.boundingBox.clone().applyMatrix4(splat.matrix).getSize(size);
+
+      // Check if model exceeds platform bounds (with some margin)
+      const platformSize = this.platformConstraints.size;
+      const maxDimension = Math.max(size.x, size.z); // Only check horizontal dimensions
+      const margin = 0.9; // Use 90% of platform size to leave some space
+      let scaleFactor = 1;
+
+      if (maxDimension > platformSize * margin) {
+        scaleFactor = (platformSize * margin) / maxDimension;
+        console.log(`Model auto-scaled by ${scaleFactor.toFixed(3)}x to fit platform`);
+        console.log(`Original size: [${size.x.toFixed(2)}, ${size.y.toFixed(2)}, ${size.z.toFixed(2)}]`);
+        console.log(`Platform size: ${platformSize.toFixed(2)}`);
+      } else {
+        console.log(`Model fits within platform bounds`);
+        console.log(`Model size: [${size.x.toFixed(2)}, ${size.y.toFixed(2)}, ${size.z.toFixed(2)}]`);
+        console.log(`Platform size: ${platformSize.toFixed(2)}`);
+      }
+
+      this.baseScale = scaleFactor;
+      this.events.emit('autoScaled', { url, scaleFactor, size });
     }
+  }
+
+  /**
+   * Replaces the model transform applied on top of geo positioning and auto-scaling
+   * @param transform - Omitted fields reset to the identity
+   */
+  public setModelTransform(transform: SceneTransform): void {
+    const { position, quaternion, scale = 1 } = transform;
 
-    // Re-apply clipping planes after scaling
+    this.modelOffset.set(0, 0, 0);
+    if (position) this.modelOffset.fromArray(position);
+
+    this.modelQuaternion.identity();
+    if (quaternion) this.modelQuaternion.fromArray(quaternion).normalize();
+
+    this.modelScale = scale;
+
+    this.applyContainerTransform();
+  }
+
+  /**
+   * Composes the container transform from the base and the model transform
+   */
+  private applyContainerTransform(): void {
+    this.modelContainer.position.copy(this.basePosition).add(this.modelOffset);
+    this.modelContainer.position.y += this.transitionOffset;
+    // The model rotation turns the geo-oriented capture in scene axes
+    this.modelContainer.quaternion.copy(this.modelQuaternion).multiply(this.baseQuaternion);
+    this.modelContainer.scale.setScalar(this.baseScale * this.modelScale);
+
+    // Re-apply clipping planes after moving and scaling
     this.applyClippingPlanes();
   }
 
   /**
-   * Positions the model container based on geographic coordinates
+   * Moves the container up or down on top of its transform, e.g. to raise a
+   * model through the platform; crop planes follow it
+   * @param offset - Meters, 0 to end the offset
+   */
+  public setTransitionOffset(offset: number): void {
+    this.transitionOffset = offset;
+    this.applyContainerTransform();
+  }
+
+  /**
+   * Gets the model transform applied on top of geo positioning and auto-scaling
+   */
+  public getModelTransform(): Required<SceneTransform> {
+    return {
+      position: this.modelOffset.toArray() as [number, number, number],
+      quaternion: this.modelQuaternion.toArray() as [number, number, number, number],
+      scale: this.modelScale
+    };
+  }
+
+  /**
+   * Detects the ground plane of the current model
+   * @returns null if no model is loaded, its source has no splat positions, or no plane was found
+   */
+  public detectGround(options?: GroundDetectionOptions): GroundPlane | null {
+    const positions = this.currentHandle?.model.getSplatPositions?.();
+    return positions ? detectGroundPlane(positions, options) : null;
+  }
+
+  /**
+   * Model transform that puts a ground plane of the current model on the platform surface
+   * Keeps the heading, horizontal offset and scale multiplier of the current model transform.
+   * @param plane - Plane in the model's local space, e.g. from detectGround()
+   */
+  public getGroundLevelingTransform(plane: GroundPlane): Required<SceneTransform> {
+    const up = new THREE.Vector3(0, 1, 0);
+    const model = this.currentHandle?.model;
+    const normal = plane.normal.clone();
+    const point = plane.point.clone();
+    if (model) {
+      model.updateMatrix();
+      normal.applyMatrix3(new THREE.Matrix3().getNormalMatrix(model.matrix)).normalize();
+      point.applyMatrix4(model.matrix);
+    }
+    normal.applyQuaternion(this.baseQuaternion);
+    point.applyQuaternion(this.baseQuaternion);
+
+    // Tilt the plane level, then turn back to the current heading
+    const heading = new THREE.Euler().setFromQuaternion(this.modelQuaternion, 'YXZ').y;
+    const quaternion = new THREE.Quaternion()
+      .setFromAxisAngle(up, heading)
+      .multiply(new THREE.Quaternion().setFromUnitVectors(normal, up));
+
+    const height = point.applyQuaternion(quaternion).y * this.baseScale * this.modelScale;
+    return {
+      position: [
+        this.modelOffset.x,
+        this.platformConstraints.surfaceY - this.basePosition.y - height,
+        this.modelOffset.z
+      ],
+      quaternion: quaternion.toArray() as [number, number, number, number],
+      scale: this.modelScale
+    };
+  }
+
+  /**
+   * Detects the current model's ground plane and levels the model onto the platform surface
+   * The result can be undone by setting its `previous` transform.
+   * @returns null if no ground plane was found
+   */
+  public levelToGround(options?: GroundDetectionOptions): GroundLeveling | null {
+    return this.applyGroundLeveling(false, options);
+  }
+
+  private applyGroundLeveling(automatic: boolean, options?: GroundDetectionOptions): GroundLeveling | null {
+    const url = this.currentHandle?.url;
+    const plane = url ? this.detectGround(options) : null;
+    if (!url || !plane) {
+      console.log('No ground plane found - model left as is');
+      return null;
+    }
+
+    const previous = this.getModelTransform();
+    const transform = this.getGroundLevelingTransform(plane);
+    this.setModelTransform(transform);
+    console.log(`Leveled model onto the platform (ground tilted ${plane.tilt.toFixed(1)}°)`);
+
+    const leveling: GroundLeveling = { url, plane, previous, transform };
+    this.events.emit('groundLeveled', { ...leveling, automatic });
+    return leveling;
+  }
+
+  /**
+   * Replaces the crop volume of the current and later models
+   * Loads reset it to their own `crop` option.
+   * @param crop - Crop in container space, or null for the platform walls
+   */
+  public setCrop(crop: SceneCrop | null): void {
+    this.crop = crop;
+    this.applyClippingPlanes();
+    this.events.emit('cropChanged', { crop });
+  }
+
+  /**
+   * Gets the crop volume, or null if models are clipped to the platform walls
+   */
+  public getCrop(): SceneCrop | null {
+    return this.crop;
+  }
+
+  /**
+   * Turns the current and later models to a geographic orientation
+   * Loads reset it to their location's orientation.
+   * @param orientation - Heading, pitch and roll or a quaternion, or null to face north
+   */
+  public setGeoOrientation(orientation: GeoOrientation | null): void {
+    this.geoOrientation = orientation ? getGeoOrientation(orientation) : null;
+    this.updateGeoRotation();
+    this.applyContainerTransform();
+    this.events.emit('geoOrientationChanged', { orientation: this.geoOrientation });
+  }
+
+  /**
+   * Gets the geographic orientation, or null if models face north unturned
+   */
+  public getGeoOrientation(): GeoOrientation | null {
+    return this.geoOrientation;
+  }
+
+  /**
+   * Sets the base rotation from the geo orientation; with the enu projection
+   * this also levels models far from the origin
+   */
+  private updateGeoRotation(): void {
+    this.baseQuaternion.copy(
+      this.geoManager.orientationToScene(this.geoOrientation ?? {}, this.geoLocation ?? undefined)
+    );
+  }
+
+  /**
+   * Moves the model after the geospatial origin or projection changed
+   */
+  private updateGeoPosition(): void {
+    const location = this.geoLocation;
+    if (!location || !this.geoManager.getOrigin()) return;
+
+    this.basePosition.copy(this.geoManager.geoToScene(location));
+    this.basePosition.y = this.platformConstraints.surfaceY;
+    this.updateGeoRotation();
+    this.applyContainerTransform();
+  }
+
+  /**
+   * Sets the container's base position from geographic coordinates
    * Ensures model sits on platform surface (Y=0)
    */
   private positionModelByGeo(location: GeoLocation): void {
@@ -185,7 +786,7 @@ export class NeRFLoader {
     if (!this.geoManager.getOrigin()) {
       this.geoManager.setOrigin(location);
       // Position at origin, sitting on platform surface
-      this.modelContainer.position.set(0, this.platformConstraints.surfaceY, 0);
+      this.basePosition.set(0, this.platformConstraints.surfaceY, 0);
       console.log('Set as geospatial origin:', location);
       console.log('Model positioned at platform surface (Y=0)');
     } else {
@@ -195,7 +796,7 @@ export class NeRFLoader {
       // Override Y position to sit on platform surface
       scenePos.y = this.platformConstraints.surfaceY;
 
-      this.modelContainer.position.copy(scenePos);
+      this.basePosition.copy(scenePos);
 
       const origin = this.geoManager.getOrigin();
       if (origin) {
@@ -205,25 +806,39 @@ export class NeRFLoader {
         );
       }
     }
-
-    // Apply clipping planes to the model
-    this.applyClippingPlanes();
   }
 
   /**
    * Applies clipping planes to the current model's materials
    */
   private applyClippingPlanes(): void {
-    if (!this.currentModel) return;
+    if (!this.currentHandle) return;
+
+    let intersection = false;
+    if (this.crop) {
+      // Crops are defined in container space and follow every transform
+      const clipping = createCropClipping(this.crop);
+      this.modelContainer.updateMatrixWorld();
+      this.clipPlanes = clipping.planes.map(plane => plane.applyMatrix4(this.modelContainer.matrixWorld));
+      intersection = clipping.intersection;
+    } else {
+      this.clipPlanes = this.createClippingPlanes();
+      // Follow the container horizontally
+      if (this.clipping === 'container') {
+        const { x, z } = this.modelContainer.position;
+        const offset = new THREE.Vector3(x, 0, z);
+        this.clipPlanes.forEach(plane => plane.translate(offset));
+      }
+    }
 
     // Apply clipping planes to model materials
-    this.currentModel.traverse((child: THREE.Object3D) => {
+    this.currentHandle.model.traverse((child: THREE.Object3D) => {
       if (child instanceof THREE.Mesh && child.material) {
         const materials = Array.isArray(child.material) ? child.material : [child.material];
         materials.forEach((mat: THREE.Material | THREE.Material[]) => {
           if (mat instanceof THREE.Material) {
             mat.clippingPlanes = this.clipPlanes;
-            mat.clipIntersection = false;
+            mat.clipIntersection = intersection;
             mat.needsUpdate = true;
           }
         });
@@ -231,59 +846,146 @@ export class NeRFLoader {
     });
   }
 
+  /**
+   * Moves the current model into the cache if it finished loading,
+   * otherwise disposes it
+   */
+  private releaseCurrentModel(): void {
+    const handle = this.currentHandle;
+    if (!handle) return;
+
+    if (!handle.isReady || this.cache.getStats().maxEntries === 0) {
+      this.disposeCurrentModel();
+      return;
+    }
+
+    this.modelContainer.remove(handle.model);
+    this.cacheGroup.add(handle.model);
+    this.currentHandle = null;
+    this.events.emit('modelUnloaded', { url: handle.url, cached: true });
+
+    this.cache.put(handle);
+    console.log('NeRF model moved to cache');
+  }
+
+  /**
+   * Takes the current model out of the container without disposing it
+   * The model keeps its current world transform, so it stays in place while
+   * the container is re-positioned for the next model.
+   * Models that have not finished loading are disposed instead.
+   * @returns The detached model, to be passed to releaseDetachedModel() later
+   */
+  public detachCurrentModel(): DetachedModel | null {
+    const handle = this.currentHandle;
+    if (!handle) return null;
+
+    if (!handle.isReady) {
+      this.disposeCurrentModel();
+      return null;
+    }
+
+    const group = new THREE.Group();
+    group.name = 'NeRFDetachedModel';
+    this.modelContainer.updateMatrix();
+    this.modelContainer.matrix.decompose(group.position, group.quaternion, group.scale);
+    this.scene.add(group);
+
+    this.modelContainer.remove(handle.model);
+    group.add(handle.model);
+    this.currentHandle = null;
+    this.events.emit('modelUnloaded', { url: handle.url, cached: false });
+
+    return { handle, group };
+  }
+
+  /**
+   * Moves a detached model into the cache (or disposes it) and removes its group
+   */
+  public releaseDetachedModel(detached: DetachedModel): void {
+    const { handle, group } = detached;
+    group.remove(handle.model);
+    this.scene.remove(group);
+
+    if (this.cache.getStats().maxEntries > 0) {
+      setSplatOpacity(handle.model, 1);
+      this.cacheGroup.add(handle.model);
+      this.cache.put(handle);
+    } else {
+      this.disposeModel(handle.model, handle.url);
+    }
+  }
+
   /**
    * Disposes of the currently loaded model
    * Ensures comprehensive cleanup of GPU resources to prevent memory leaks
    */
   public disposeCurrentModel(): void {
-    if (this.currentModel) {
-      console.log('Disposing current NeRF model...');
-
-      // Traverse and dispose of all materials, geometries, and textures
-      this.currentModel.traverse((child: THREE.Object3D) => {
-        if (child instanceof THREE.Mesh) {
-          // Dispose geometry
-          if (child.geometry) {
-            child.geometry.dispose();
-          }
+    // Reject the pending load promise of a model that never became ready
+    this.cancelPendingLoad?.('disposed', 'Model was disposed before it finished loading');
 
-          // Dispose materials
-          if (child.material) {
-            const materials = Array.isArray(child.material) ? child.material : [child.material];
-            materials.forEach((material: THREE.Material) => {
-              // Dispose textures
-              Object.keys(material).forEach((key) => {
-                const value = (material as any)[key];
-                if (value && value instanceof THREE.Texture) {
-                  value.dispose();
-                }
-              });
-
-              // Dispose material
-              material.dispose();
-            });
-          }
+    const handle = this.currentHandle;
+    if (handle) {
+      this.currentHandle = null;
+      this.events.emit('modelUnloaded', { url: handle.url, cached: false });
+      this.disposeModel(handle.model, handle.url);
+    }
+  }
+
+  /**
+   * Releases the GPU resources of a model and removes it from the scene graph
+   */
+  private disposeModel(model: SplatModel, url: string): void {
+    console.log('Disposing NeRF model...');
+
+    // Traverse and dispose of all materials, geometries, and textures
+    model.traverse((child: THREE.Object3D) => {
+      if (child instanceof THREE.Mesh) {
+        // Dispose geometry
+        if (child.geometry) {
+          child.geometry.dispose();
         }
-      });
 
-      // Remove from container
-      this.modelContainer.remove(this.currentModel);
+        // Dispose materials
+        if (child.material) {
+          const materials = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach((material: THREE.Material) => {
+            // Dispose textures
+            Object.keys(material).forEach((key) => {
+              const value = (material as any)[key];
+              if (value && value instanceof THREE.Texture) {
+                value.dispose();
+              }
+            });
 
-      // Dispose of the Luma splat using its own dispose method if available
-      if (typeof (this.currentModel as any).dispose === 'function') {
-        (this.currentModel as any).dispose();
+            // Dispose material
+            material.dispose();
+          });
+        }
       }
+    });
 
-      this.currentModel = null;
-      console.log('NeRF model disposed successfully');
-    }
+    // Remove from container or cache group
+    model.removeFromParent();
+
+    // Let the model release what it owns (e.g. Luma workers, pending downloads)
+    model.dispose?.();
+
+    console.log('NeRF model disposed successfully');
+    this.events.emit('modelDisposed', { url });
   }
 
   /**
    * Gets the current model instance
    */
-  public getCurrentModel(): LumaSplatsThree | null {
-    return this.currentModel;
+  public getCurrentModel(): SplatModel | null {
+    return this.currentHandle?.model ?? null;
+  }
+
+  /**
+   * Gets the source URL of the current model
+   */
+  public getCurrentUrl(): string | null {
+    return this.currentHandle?.url ?? null;
   }
 
   /**
@@ -328,17 +1030,26 @@ export class NeRFLoader {
   public dispose(): void {
     console.log('NeRFLoader: Starting full cleanup...');
 
-    // Dispose current model
+    this.geoUnsubscribers.forEach(unsubscribe => unsubscribe());
+    this.geoUnsubscribers = [];
+
+    // Dispose current and cached models
     this.disposeCurrentModel();
+    this.cache.clear();
 
-    // Remove container from scene
+    // Remove containers from scene
     this.scene.remove(this.modelContainer);
+    this.scene.remove(this.cacheGroup);
 
     // Clear clipping planes array
-    this.clipPlanes.length = 0;
+    this.clipPlanes = [];
 
     // Reset geospatial manager
-    this.geoManager.reset();
+    if (this.ownsGeoManager) {
+      this.geoManager.reset();
+    }
+
+    this.events.removeAllListeners();
 
     console.log('NeRFLoader: Cleanup complete');
   }
@@ -0,0 +1,202 @@
+/**
+ * OverlayPanel - Minimal DOM panel drawn over the 3D view
+ *
+ * UIL covers sliders and buttons; panels with free-form content (annotation
+ * details, browsers, forms) use this instead. Styles are inline so the panel
+ * does not depend on page CSS.
+ */
+
+export type OverlayPanelPlacement = 'right' | 'left' | 'center' | 'bottom';
+
+export interface OverlayPanelConfig {
+  title?: string;
+  placement?: OverlayPanelPlacement;
+  /** CSS width (default '360px') */
+  width?: string;
+  /** Element the panel is added to (default document.body) */
+  parent?: HTMLElement;
+  /** Called when the user closes the panel with its close button or Escape */
+  onClose?: () => void;
+}
+
+const PLACEMENT_CSS: Record<OverlayPanelPlacement, string> = {
+  right: 'top:20px; right:20px; max-height:calc(100vh - 40px);',
+  left: 'top:20px; left:20px; max-height:calc(100vh - 40px);',
+  center: 'top:50%; left:50%; transform:translate(-50%, -50%); max-height:80vh;',
+  bottom: 'bottom:20px; left:50%; transform:translateX(-50%); max-height:40vh;'
+};
+
+export class OverlayPanel {
+  private root: HTMLDivElement;
+  private titleElement: HTMLDivElement;
+  private body: HTMLDivElement;
+  private footer: HTMLDivElement;
+  private onClose?: () => void;
+
+  constructor(config: OverlayPanelConfig = {}) {
+    const { title = '', placement = 'right', width = '360px', parent = document.body } = config;
+    this.onClose = config.onClose;
+
+    this.root = document.createElement('div');
+    this.root.style.cssText =
+      `position:fixed; ${PLACEMENT_CSS[placement]} width:${width}; max-width:calc(100vw - 40px);` +
+      'display:none; flex-direction:column; z-index:1000; overflow:hidden;' +
+      'background:rgba(20, 20, 24, 0.92); color:#e8e8e8; border-radius:8px;' +
+      'box-shadow:0 8px 32px rgba(0, 0, 0, 0.5); font-size:14px; line-height:1.5;';
+
+    const header = document.createElement('div');
+    header.style.cssText =
+      'display:flex; align-items:center; padding:12px 16px; border-bottom:1px solid rgba(255, 255, 255, 0.1);';
+
+    this.titleElement = document.createElement('div');
+    this.titleElement.style.cssText = 'flex:1; font-weight:600; font-size:16px;';
+    this.titleElement.textContent = title;
+
+    const closeButton = document.createElement('button');
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', 'Close');
+    closeButton.style.cssText =
+      'background:none; border:none; color:inherit; font-size:22px; cursor:pointer; min-width:32px; min-height:32px;';
+    closeButton.addEventListener('click', () => this.close());
+
+    header.append(this.titleElement, closeButton);
+
+    this.body = document.createElement('div');
+    this.body.style.cssText = 'padding:12px 16px; overflow-y:auto; flex:1;';
+
+    this.footer = document.createElement('div');
+    this.footer.style.cssText = 'display:none; gap:8px; padding:12px 16px; flex-wrap:wrap;';
+
+    this.root.append(header, this.body, this.footer);
+    parent.appendChild(this.root);
+
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  /**
+   * Sets the panel title
+   */
+  public setTitle(title: string): void {
+    this.titleElement.textContent = title;
+  }
+
+  /**
+   * Replaces the panel content
+   */
+  public setContent(...nodes: Node[]): void {
+    this.body.replaceChildren(...nodes);
+    this.body.scrollTop = 0;
+  }
+
+  /**
+   * Replaces the footer buttons (hidden when empty)
+   */
+  public setActions(actions: Array<{ label: string; onClick: () => void; primary?: boolean }>): void {
+    const buttons = actions.map(({ label, onClick, primary }) => {
+      const button = document.createElement('button');
+      button.textContent = label;
+      button.style.cssText =
+        'padding:8px 14px; min-height:36px; border-radius:4px; cursor:pointer; font-size:13px;' +
+        (primary
+          ? 'background:#3a7bd5; color:#fff; border:none;'
+          : 'background:transparent; color:#e8e8e8; border:1px solid rgba(255, 255, 255, 0.3);');
+      button.addEventListener('click', onClick);
+      return button;
+    });
+
+    this.footer.replaceChildren(...buttons);
+    this.footer.style.display = buttons.length > 0 ? 'flex' : 'none';
+  }
+
+  public show(): void {
+    this.root.style.display = 'flex';
+  }
+
+  public hide(): void {
+    this.root.style.display = 'none';
+  }
+
+  public isVisible(): boolean {
+    return this.root.style.display !== 'none';
+  }
+
+  /**
+   * Gets the content element, e.g. to query form fields
+   */
+  public getBody(): HTMLElement {
+    return this.body;
+  }
+
+  /**
+   * Hides the panel and notifies the owner
+   */
+  public close(): void {
+    if (!this.isVisible()) return;
+    this.hide();
+    this.onClose?.();
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.close();
+    }
+  };
+
+  /**
+   * Removes the panel from the page
+   */
+  public dispose(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.root.remove();
+  }
+}
+
+/**
+ * Renders a small, safe subset of Markdown as DOM nodes:
+ * paragraphs (blank lines), line breaks, **bold**, *italic* and [links](https://...)
+ * Text is never parsed as HTML, so catalog content cannot inject markup.
+ */
+export function renderRichText(text: string): HTMLElement {
+  const container = document.createElement('div');
+  const inline = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    const p = document.createElement('p');
+    p.style.margin = '0 0 0.75em';
+
+    paragraph.split('\n').forEach((line, lineIndex) => {
+      if (lineIndex > 0) p.appendChild(document.createElement('br'));
+
+      let last = 0;
+      for (const match of line.matchAll(inline)) {
+        const index = match.index ?? 0;
+        p.appendChild(document.createTextNode(line.slice(last, index)));
+
+        let element: HTMLElement;
+        if (match[1] !== undefined) {
+          element = document.createElement('strong');
+          element.textContent = match[1];
+        } else if (match[2] !== undefined) {
+          element = document.createElement('em');
+          element.textContent = match[2];
+        } else {
+          const link = document.createElement('a');
+          link.textContent = match[3];
+          link.href = match[4];
+          link.target = '_blank';
+          link.rel = 'noopener noreferrer';
+          link.style.color = '#88ccff';
+          element = link;
+        }
+
+        p.appendChild(element);
+        last = index + match[0].length;
+      }
+      p.appendChild(document.createTextNode(line.slice(last)));
+    });
+
+    container.appendChild(p);
+  });
+
+  return container;
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { Sky } from 'three/examples/jsm/objects/Sky.js';
+import { tween } from './Tween.js';
 
 /**
  * PlatformEnvironment - Central platform and dynamic sky system
@@ -8,6 +9,7 @@ import { Sky } from 'three/examples/jsm/objects/Sky.js';
  * - A flat ground platform at the center (60x60 units)
  * - Dynamic sky dome with configurable sun position
  * - Synchronized directional lighting for day/night cycles
+ * - Environment settings (time, sun, sky, shadows) with smooth transitions
  */
 
 export interface PlatformConfig {
@@ -17,6 +19,22 @@ export interface PlatformConfig {
   roughness?: number;
 }
 
+/**
+ * Lighting and sky settings, e.g. a scene's environment preset
+ */
+export interface EnvironmentSettings {
+  /** Time of day in hours (0-24) */
+  timeOfDay?: number;
+  /** Sun light intensity at noon; lower sun elevations scale it down */
+  sunIntensity?: number;
+  /** Sky shader haziness */
+  turbidity?: number;
+  /** Sky shader Rayleigh scattering (bluer, redder at dusk) */
+  rayleigh?: number;
+  /** Whether the sun casts shadows */
+  shadows?: boolean;
+}
+
 export class PlatformEnvironment {
   private scene: THREE.Scene;
   private platform: THREE.Mesh;
@@ -27,6 +45,8 @@ export class PlatformEnvironment {
 
   // Time of day in hours (0-24)
   private _timeOfDay: number = 12;
+  private _sunIntensity: number = 1.5;
+  private transition: { controller: AbortController; stopped: boolean } | null = null;
 
   constructor(scene: THREE.Scene, config: PlatformConfig = {}) {
     this.scene = scene;
@@ -129,14 +149,15 @@ export class PlatformEnvironment {
     const sunElevation = Math.sin((normalizedHour / 24) * Math.PI * 2 - Math.PI / 2) * Math.PI / 2;
 
     // Azimuth: fixed to south for simplicity
-    const azimuth = Math.PI; // South
+    const azimuth = Math.PI; // South, clockwise from north
 
-    // Calculate sun position
+    // Calculate sun position in geo scene axes (X = East, -Z = North), so
+    // captures oriented to true north are lit from the right side
     const distance = 400000;
     this.sun.set(
       Math.cos(sunElevation) * Math.sin(azimuth) * distance,
       Math.sin(sunElevation) * distance,
-      Math.cos(sunElevation) * Math.cos(azimuth) * distance
+      -Math.cos(sunElevation) * Math.cos(azimuth) * distance
     );
 
     // Update sky shader
@@ -147,7 +168,7 @@ export class PlatformEnvironment {
     this.directionalLight.position.normalize().multiplyScalar(200);
 
     // Adjust light intensity based on sun elevation
-    const intensity = Math.max(0.1, Math.sin(sunElevation) * 1.5);
+    const intensity = Math.max(0.1, Math.sin(sunElevation) * this._sunIntensity);
     this.directionalLight.intensity = intensity;
 
     // Adjust ambient light for day/night
@@ -176,9 +197,117 @@ export class PlatformEnvironment {
    * Sets the time of day
    */
   public set timeOfDay(hour: number) {
+    this.stopTransition();
     this.updateSunPosition(hour);
   }
 
+  /**
+   * Gets the noon sun intensity
+   */
+  public get sunIntensity(): number {
+    return this._sunIntensity;
+  }
+
+  /**
+   * Sets the noon sun intensity
+   */
+  public set sunIntensity(intensity: number) {
+    this.stopTransition();
+    this.applySettings({ sunIntensity: intensity });
+  }
+
+  /**
+   * Gets the current environment settings
+   */
+  public getEnvironment(): Required<EnvironmentSettings> {
+    const skyUniforms = this.sky.material.uniforms;
+    return {
+      timeOfDay: this._timeOfDay,
+      sunIntensity: this._sunIntensity,
+      turbidity: skyUniforms['turbidity'].value,
+      rayleigh: skyUniforms['rayleigh'].value,
+      shadows: this.directionalLight.castShadow
+    };
+  }
+
+  /**
+   * Applies environment settings immediately; omitted settings are unchanged
+   */
+  public setEnvironment(settings: EnvironmentSettings): void {
+    this.stopTransition();
+    this.applySettings(settings);
+  }
+
+  /**
+   * Interpolates to environment settings over time
+   * Time of day takes the shorter way around the clock; shadows switch halfway.
+   * Setting any value directly (or starting another transition) stops the transition.
+   * @param duration - Milliseconds (0 applies immediately)
+   * @returns Promise resolving to whether the transition completed (false if it was stopped)
+   */
+  public transitionTo(settings: EnvironmentSettings, duration: number): Promise<boolean> {
+    this.stopTransition();
+    const transition = { controller: new AbortController(), stopped: false };
+    this.transition = transition;
+
+    const from = this.getEnvironment();
+    const to = { ...from, ...settings };
+    // Shortest signed difference in hours, e.g. 22h -> 2h goes forward 4h
+    const hourDelta = ((to.timeOfDay - from.timeOfDay + 36) % 24) - 12;
+    const lerp = THREE.MathUtils.lerp;
+
+    return tween(duration, (t) => {
+      if (transition.stopped) return;
+      this.applySettings({
+        timeOfDay: (from.timeOfDay + hourDelta * t + 24) % 24,
+        sunIntensity: lerp(from.sunIntensity, to.sunIntensity, t),
+        turbidity: lerp(from.turbidity, to.turbidity, t),
+        rayleigh: lerp(from.rayleigh, to.rayleigh, t),
+        shadows: t < 0.5 ? from.shadows : to.shadows
+      });
+    }, { signal: transition.controller.signal }).then(() => {
+      if (this.transition === transition) {
+        this.transition = null;
+      }
+      return !transition.stopped;
+    });
+  }
+
+  /**
+   * Stops the environment transition in progress, keeping the current values
+   */
+  public stopTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    this.transition = null;
+    transition.stopped = true;
+    transition.controller.abort();
+  }
+
+  /**
+   * Writes settings to the sky, lights and sun position
+   */
+  private applySettings(settings: EnvironmentSettings): void {
+    const skyUniforms = this.sky.material.uniforms;
+
+    if (settings.sunIntensity !== undefined) {
+      this._sunIntensity = settings.sunIntensity;
+    }
+    if (settings.turbidity !== undefined) {
+      skyUniforms['turbidity'].value = settings.turbidity;
+    }
+    if (settings.rayleigh !== undefined) {
+      skyUniforms['rayleigh'].value = settings.rayleigh;
+    }
+    if (settings.shadows !== undefined) {
+      this.directionalLight.castShadow = settings.shadows;
+    }
+
+    // Also re-derives the light intensity from the sun intensity
+    this.updateSunPosition(settings.timeOfDay ?? this._timeOfDay);
+  }
+
   /**
    * Gets the platform mesh
    */
@@ -197,6 +326,7 @@ export class PlatformEnvironment {
    * Dispose of resources
    */
   public dispose(): void {
+    this.stopTransition();
     this.platform.geometry.dispose();
     (this.platform.material as THREE.Material).dispose();
     this.sky.geometry.dispose();
@@ -0,0 +1,470 @@
+import { SceneManager } from './SceneManager.js';
+import { SceneMetadata, cloneScene } from './scenes.js';
+import { NeRFLoader, isLoadCancellation } from './NeRFLoader.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { getGeoOrientation } from './GeoSpatial.js';
+import { SceneManifestError, createSceneManifest, validateScene } from './SceneManifest.js';
+import scenesModuleSource from './scenes.ts?raw';
+
+/**
+ * SceneAuthoring - Undoable catalog editing with local drafts
+ *
+ * Scenes are added, edited and removed through the SceneManager, so the rest
+ * of the viewer sees edits immediately. Every edit is recorded as a
+ * before/after pair for undo and redo; edits made elsewhere (saved default
+ * transforms, viewpoints, annotations) are recorded too.
+ *
+ * The recorded edits are kept in localStorage as a draft until the catalog is
+ * exported, and replayed on the next visit with restoreDraft().
+ *
+ * With live preview, edits to the current scene show up right away: a new
+ * URL or location reloads it, a new orientation or transform is applied to
+ * the model.
+ */
+
+/**
+ * One recorded change to the catalog
+ * `before` is null for added scenes, `after` for removed ones.
+ */
+export interface SceneEdit {
+  label: string;
+  /** Catalog index of the scene */
+  index: number;
+  before: SceneMetadata | null;
+  after: SceneMetadata | null;
+}
+
+/**
+ * Events emitted by SceneAuthoring
+ */
+export interface SceneAuthoringEvents {
+  /** An edit was made, undone or redone (edit null when the draft was discarded) */
+  changed: { edit: SceneEdit | null; canUndo: boolean; canRedo: boolean; dirty: boolean };
+  /** Edits from a stored draft were replayed */
+  draftRestored: { edits: number; savedAt: string };
+  /** The catalog was exported and the draft cleared */
+  exported: { format: 'json' | 'module' };
+}
+
+export interface SceneAuthoringOptions {
+  /** Storage the draft is kept in (default localStorage; null disables drafts) */
+  storage?: Storage | null;
+  /** Storage key of the draft (default 'memoryblocks.sceneDraft') */
+  storageKey?: string;
+  /** Maximum number of undo steps (default 100) */
+  historyLimit?: number;
+  /** Reload or re-transform the current scene when it is edited (default true) */
+  livePreview?: boolean;
+}
+
+interface SceneDraft {
+  version: 1;
+  savedAt: string;
+  undo: SceneEdit[];
+  redo: SceneEdit[];
+}
+
+const NARRATIVE_SCENES_BLOCK = /(export const NARRATIVE_SCENES: SceneMetadata\[\] = \[\n)[\s\S]*?(\n\];)/;
+
+function sameScene(a: SceneMetadata | null, b: SceneMetadata | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Formats a value as a TypeScript literal in the style of scenes.ts:
+ * unquoted keys, double-quoted strings, everything on one line
+ */
+function formatLiteral(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatLiteral).join(', ')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => {
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return `${name}: ${formatLiteral(field)}`;
+      });
+    return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}';
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Regenerates scenes.ts with a different catalog
+ * Only the NARRATIVE_SCENES array is replaced; types and helpers are kept.
+ * @param source - scenes.ts source (default the one the app was built with)
+ */
+export function formatScenesModule(scenes: SceneMetadata[], source: string = scenesModuleSource): string {
+  if (!NARRATIVE_SCENES_BLOCK.test(source)) {
+    throw new Error('scenes.ts has no NARRATIVE_SCENES array to replace');
+  }
+
+  const entries = scenes.map(scene => `  ${formatLiteral(scene)}`).join(',\n');
+  return source.replace(NARRATIVE_SCENES_BLOCK, (_match, start: string, end: string) => `${start}${entries}${end}`);
+}
+
+export class SceneAuthoring {
+  public readonly events = new TypedEventEmitter<SceneAuthoringEvents>();
+
+  private sceneManager: SceneManager;
+  private nerfLoader: NeRFLoader;
+  private storage: Storage | null;
+  private storageKey: string;
+  private historyLimit: number;
+  private livePreview: boolean;
+  private undoStack: SceneEdit[] = [];
+  private redoStack: SceneEdit[] = [];
+  private dirty: boolean = false;
+  // Last known state of each scene, the "before" of edits made elsewhere
+  private snapshots = new Map<string, SceneMetadata>();
+  // Set while this class changes the catalog, so its own events are not recorded twice
+  private applying: boolean = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(sceneManager: SceneManager, nerfLoader: NeRFLoader, options: SceneAuthoringOptions = {}) {
+    this.sceneManager = sceneManager;
+    this.nerfLoader = nerfLoader;
+    this.storage = options.storage === undefined ? window.localStorage : options.storage;
+    this.storageKey = options.storageKey || 'memoryblocks.sceneDraft';
+    this.historyLimit = options.historyLimit ?? 100;
+    this.livePreview = options.livePreview ?? true;
+
+    this.takeSnapshots();
+
+    const events = sceneManager.events;
+    this.unsubscribers.push(
+      events.on('sceneUpdated', ({ scene, index }) => {
+        if (this.applying) return;
+        const before = this.snapshots.get(scene.id) || null;
+        this.snapshots.set(scene.id, cloneScene(scene));
+        if (before && !sameScene(before, scene)) {
+          this.record({ label: `Edit ${scene.id}`, index, before, after: cloneScene(scene) });
+        }
+      }),
+      events.on('sceneAdded', ({ scene }) => {
+        if (!this.applying) this.snapshots.set(scene.id, cloneScene(scene));
+      }),
+      events.on('sceneRemoved', ({ scene }) => {
+        if (!this.applying) this.snapshots.delete(scene.id);
+      })
+    );
+  }
+
+  /**
+   * Adds a scene, or replaces an existing one
+   * @param id - Id of the scene to replace, or null to add a new scene
+   * @param label - Undo step description
+   * @throws SceneManifestError if the scene is not valid SceneMetadata
+   */
+  public saveScene(id: string | null, scene: SceneMetadata, label?: string): void {
+    const issues = validateScene(scene);
+    if (issues.length > 0) {
+      throw new SceneManifestError(`Invalid scene "${scene.id}"`, issues);
+    }
+
+    const after = cloneScene(scene);
+    if (id === null) {
+      const index = this.sceneManager.getSceneCount();
+      this.commit({ label: label || `Add ${scene.id}`, index, before: null, after });
+      return;
+    }
+
+    const index = this.sceneManager.getAllScenes().findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+    const before = cloneScene(this.sceneManager.getAllScenes()[index]);
+    if (sameScene(before, after)) return;
+
+    this.commit({ label: label || `Edit ${id}`, index, before, after });
+  }
+
+  /**
+   * Removes a scene (undoable)
+   */
+  public removeScene(id: string): void {
+    const index = this.sceneManager.getAllScenes().findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+
+    const before = cloneScene(this.sceneManager.getAllScenes()[index]);
+    this.commit({ label: `Remove ${id}`, index, before, after: null });
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Gets the description of the edit undo() would revert
+   */
+  public getUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Gets the description of the edit redo() would repeat
+   */
+  public getRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Reverts the last edit
+   * @returns false if there was nothing to undo
+   */
+  public undo(): boolean {
+    const edit = this.undoStack.pop();
+    if (!edit) return false;
+
+    try {
+      this.apply(edit.after, edit.before, edit.index);
+    } catch (error) {
+      this.undoStack.push(edit);
+      throw error;
+    }
+    this.redoStack.push(edit);
+    this.changed(edit);
+    return true;
+  }
+
+  /**
+   * Repeats the last undone edit
+   * @returns false if there was nothing to redo
+   */
+  public redo(): boolean {
+    const edit = this.redoStack.pop();
+    if (!edit) return false;
+
+    try {
+      this.apply(edit.before, edit.after, edit.index);
+    } catch (error) {
+      this.redoStack.push(edit);
+      throw error;
+    }
+    this.undoStack.push(edit);
+    this.changed(edit);
+    return true;
+  }
+
+  /**
+   * Whether there are edits that have not been exported
+   */
+  public isDirty(): boolean {
+    return this.dirty;
+  }
+
+  /**
+   * Whether a draft from an earlier visit is stored
+   */
+  public hasDraft(): boolean {
+    return this.readDraft() !== null;
+  }
+
+  /**
+   * Replays the stored draft onto the catalog
+   * Call after SceneManager.initialize(). Replay stops at the first edit that
+   * no longer fits the catalog (e.g. its scene was removed from the manifest).
+   * @returns Number of edits replayed
+   */
+  public restoreDraft(): number {
+    const draft = this.readDraft();
+    if (!draft) return 0;
+
+    let restored = 0;
+    for (const edit of draft.undo) {
+      try {
+        this.apply(edit.before, edit.after, edit.index);
+      } catch (error) {
+        console.warn(`Scene draft: stopped at "${edit.label}":`, error instanceof Error ? error.message : error);
+        break;
+      }
+      this.undoStack.push(edit);
+      restored++;
+    }
+    if (restored === draft.undo.length) {
+      this.redoStack = draft.redo;
+    }
+
+    this.dirty = restored > 0;
+    console.log(`Scene draft from ${draft.savedAt}: ${restored} of ${draft.undo.length} edits restored`);
+    this.events.emit('draftRestored', { edits: restored, savedAt: draft.savedAt });
+    this.changed(null);
+    return restored;
+  }
+
+  /**
+   * Reverts all edits and deletes the stored draft
+   */
+  public discardDraft(): void {
+    while (this.undoStack.length > 0) {
+      const edit = this.undoStack[this.undoStack.length - 1];
+      this.apply(edit.after, edit.before, edit.index);
+      this.undoStack.pop();
+    }
+    this.redoStack = [];
+    this.dirty = false;
+    this.storage?.removeItem(this.storageKey);
+    this.changed(null);
+  }
+
+  /**
+   * Gets the edited catalog as a scene manifest (see SceneManifest)
+   */
+  public exportJSON(): string {
+    return JSON.stringify(createSceneManifest(this.sceneManager.getAllScenes()), null, 2);
+  }
+
+  /**
+   * Gets the edited catalog as a regenerated scenes.ts module
+   */
+  public exportModule(): string {
+    return formatScenesModule(this.sceneManager.getAllScenes());
+  }
+
+  /**
+   * Marks the edits as exported, which deletes the stored draft
+   * Undo history is kept for the rest of the session.
+   */
+  public markExported(format: 'json' | 'module'): void {
+    this.dirty = false;
+    this.storage?.removeItem(this.storageKey);
+    this.events.emit('exported', { format });
+    this.changed(null);
+  }
+
+  /**
+   * Applies an edit and records it
+   */
+  private commit(edit: SceneEdit): void {
+    this.apply(edit.before, edit.after, edit.index);
+    this.record(edit);
+  }
+
+  private record(edit: SceneEdit): void {
+    this.undoStack.push(edit);
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.dirty = true;
+    this.changed(edit);
+  }
+
+  /**
+   * Changes the catalog from one state of a scene to another
+   */
+  private apply(from: SceneMetadata | null, to: SceneMetadata | null, index: number): void {
+    const current = this.sceneManager.getCurrentScene();
+    const previewed = current !== null && from !== null && current.id === from.id;
+
+    this.applying = true;
+    try {
+      if (from && to) {
+        this.sceneManager.updateScene(from.id, cloneScene(to));
+      } else if (to) {
+        this.sceneManager.addScene(cloneScene(to), index);
+      } else if (from) {
+        this.sceneManager.removeScene(from.id);
+      }
+    } finally {
+      this.applying = false;
+    }
+
+    if (from) this.snapshots.delete(from.id);
+    if (to) this.snapshots.set(to.id, cloneScene(to));
+
+    if (this.livePreview && previewed && from && to) {
+      this.preview(from, to);
+    }
+  }
+
+  /**
+   * Shows an edit of the current scene: reloads it for a new URL, format or
+   * position, otherwise applies the new orientation, transform and crop to the
+   * loaded model
+   */
+  private preview(from: SceneMetadata, to: SceneMetadata): void {
+    const orientation = (scene: SceneMetadata) => getGeoOrientation(scene.location);
+    const position = ({ location }: SceneMetadata) => [location.latitude, location.longitude, location.altitude];
+    if (
+      from.url !== to.url ||
+      from.format !== to.format ||
+      JSON.stringify(position(from)) !== JSON.stringify(position(to))
+    ) {
+      this.sceneManager.loadSceneById(to.id).catch(error => {
+        if (!isLoadCancellation(error)) {
+          console.error(`Failed to preview ${to.id}:`, error);
+        }
+      });
+    } else {
+      if (JSON.stringify(orientation(from)) !== JSON.stringify(orientation(to))) {
+        this.nerfLoader.setGeoOrientation(orientation(to));
+      }
+      if (JSON.stringify(from.transform) !== JSON.stringify(to.transform)) {
+        this.nerfLoader.setModelTransform(to.transform || {});
+      }
+      if (JSON.stringify(from.crop) !== JSON.stringify(to.crop)) {
+        this.nerfLoader.setCrop(to.crop ?? null);
+      }
+    }
+  }
+
+  private changed(edit: SceneEdit | null): void {
+    this.saveDraft();
+    this.events.emit('changed', {
+      edit,
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      dirty: this.dirty
+    });
+  }
+
+  private takeSnapshots(): void {
+    this.snapshots.clear();
+    this.sceneManager.getAllScenes().forEach(scene => this.snapshots.set(scene.id, cloneScene(scene)));
+  }
+
+  private saveDraft(): void {
+    if (!this.storage || !this.dirty) return;
+
+    const draft: SceneDraft = {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      undo: this.undoStack,
+      redo: this.redoStack
+    };
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(draft));
+    } catch (error) {
+      console.warn('Scene draft could not be saved:', error);
+    }
+  }
+
+  private readDraft(): SceneDraft | null {
+    const stored = this.storage?.getItem(this.storageKey);
+    if (!stored) return null;
+
+    try {
+      const draft = JSON.parse(stored) as SceneDraft;
+      return draft.version === 1 && Array.isArray(draft.undo) && Array.isArray(draft.redo) ? draft : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stops recording edits made elsewhere
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.events.removeAllListeners();
+  }
+}
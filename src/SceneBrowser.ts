@@ -0,0 +1,276 @@
+import { SceneManager, SceneQuery } from './SceneManager.js';
+import { SceneMetadata } from './scenes.js';
+import { OverlayPanel } from './OverlayPanel.js';
+import { isLoadCancellation } from './NeRFLoader.js';
+
+/**
+ * SceneBrowser - Searchable scene list with tag facets
+ *
+ * Filters the catalog with SceneManager.queryScenes by text, tags, capture
+ * date range and distance from the scene that was current when the distance
+ * was chosen. Tag counts are computed over the results of the other filters,
+ * so they show how many scenes selecting a tag would leave. Next/previous can
+ * be limited to the results.
+ */
+
+export interface SceneBrowserConfig {
+  /** Distances offered for "near the current scene", in meters */
+  distances?: number[];
+}
+
+const INPUT_CSS =
+  'background:rgba(255, 255, 255, 0.08); color:inherit; border:1px solid rgba(255, 255, 255, 0.2);' +
+  'border-radius:4px; padding:6px 8px; min-height:32px; font-size:13px; box-sizing:border-box;';
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+}
+
+export class SceneBrowser {
+  private sceneManager: SceneManager;
+  private panel: OverlayPanel;
+  private distances: number[];
+
+  private searchInput: HTMLInputElement;
+  private fromInput: HTMLInputElement;
+  private toInput: HTMLInputElement;
+  private distanceSelect: HTMLSelectElement;
+  private scopeCheckbox: HTMLInputElement;
+  private facets: HTMLDivElement;
+  private summary: HTMLDivElement;
+  private results: HTMLDivElement;
+  private selectedTags = new Set<string>();
+  // Scene that distance filters are measured from
+  private nearScene: SceneMetadata | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(sceneManager: SceneManager, config: SceneBrowserConfig = {}) {
+    this.sceneManager = sceneManager;
+    this.distances = config.distances || [100, 1000, 10000, 100000];
+
+    this.panel = new OverlayPanel({ title: 'Browse Scenes', placement: 'center', width: '560px' });
+
+    this.searchInput = document.createElement('input');
+    this.searchInput.type = 'search';
+    this.searchInput.placeholder = 'Search title or description';
+    this.searchInput.style.cssText = `${INPUT_CSS} width:100%;`;
+
+    this.fromInput = this.createDateInput('From capture date');
+    this.toInput = this.createDateInput('To capture date');
+
+    this.distanceSelect = document.createElement('select');
+    this.distanceSelect.setAttribute('aria-label', 'Distance from the current scene');
+    this.distanceSelect.style.cssText = INPUT_CSS;
+    this.distanceSelect.append(
+      new Option('Any distance', ''),
+      ...this.distances.map(distance => new Option(`Within ${formatDistance(distance)}`, String(distance)))
+    );
+
+    const filters = document.createElement('div');
+    filters.style.cssText = 'display:flex; gap:8px; flex-wrap:wrap; align-items:center; margin:8px 0;';
+    filters.append(this.fromInput, document.createTextNode('–'), this.toInput, this.distanceSelect);
+
+    this.facets = document.createElement('div');
+    this.facets.style.cssText = 'display:flex; gap:6px; flex-wrap:wrap; margin-bottom:8px;';
+
+    const scopeLabel = document.createElement('label');
+    scopeLabel.style.cssText = 'display:flex; gap:6px; align-items:center; cursor:pointer; margin-bottom:8px;';
+    this.scopeCheckbox = document.createElement('input');
+    this.scopeCheckbox.type = 'checkbox';
+    scopeLabel.append(this.scopeCheckbox, document.createTextNode('Limit Next/Previous to these results'));
+
+    this.summary = document.createElement('div');
+    this.summary.style.cssText = 'opacity:0.7; margin-bottom:6px;';
+
+    this.results = document.createElement('div');
+    this.results.setAttribute('role', 'list');
+    this.results.style.cssText = 'display:flex; flex-direction:column; gap:4px;';
+
+    this.panel.setContent(this.searchInput, filters, this.facets, scopeLabel, this.summary, this.results);
+    this.panel.setActions([{ label: 'Clear Filters', onClick: () => this.clearFilters() }]);
+
+    [this.searchInput, this.fromInput, this.toInput].forEach(input =>
+      input.addEventListener('input', () => this.update())
+    );
+    this.distanceSelect.addEventListener('change', () => {
+      this.nearScene = this.sceneManager.getCurrentScene();
+      this.update();
+    });
+    this.scopeCheckbox.addEventListener('change', () => this.update());
+
+    const events = sceneManager.events;
+    const refresh = () => {
+      if (this.panel.isVisible()) this.update();
+    };
+    this.unsubscribers.push(
+      events.on('sceneLoaded', refresh),
+      events.on('sceneUpdated', refresh),
+      events.on('sceneAdded', refresh),
+      events.on('sceneRemoved', refresh)
+    );
+  }
+
+  /**
+   * Opens the browser with the search field focused
+   */
+  public open(): void {
+    this.update();
+    this.panel.show();
+    this.searchInput.focus();
+  }
+
+  public close(): void {
+    this.panel.close();
+  }
+
+  public toggle(): void {
+    if (this.panel.isVisible()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  public isOpen(): boolean {
+    return this.panel.isVisible();
+  }
+
+  /**
+   * Gets the query built from the current filters
+   */
+  public getQuery(): SceneQuery {
+    const query: SceneQuery = {};
+
+    if (this.searchInput.value.trim()) query.text = this.searchInput.value.trim();
+    if (this.selectedTags.size > 0) query.tags = [...this.selectedTags];
+    if (this.fromInput.value) query.from = new Date(this.fromInput.value);
+    // The end date includes that whole day
+    if (this.toInput.value) query.to = new Date(`${this.toInput.value}T23:59:59.999Z`);
+
+    const radius = Number(this.distanceSelect.value);
+    if (radius > 0 && this.nearScene) {
+      query.near = { location: this.nearScene.location, radius };
+    }
+
+    return query;
+  }
+
+  private createDateInput(label: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'date';
+    input.setAttribute('aria-label', label);
+    input.style.cssText = INPUT_CSS;
+    return input;
+  }
+
+  private clearFilters(): void {
+    this.searchInput.value = '';
+    this.fromInput.value = '';
+    this.toInput.value = '';
+    this.distanceSelect.value = '';
+    this.selectedTags.clear();
+    this.update();
+  }
+
+  /**
+   * Re-runs the query, redraws facets and results and updates the navigation scope
+   */
+  private update(): void {
+    const query = this.getQuery();
+    const scenes = this.sceneManager.queryScenes(query);
+    this.distanceSelect.title = this.nearScene ? `Measured from ${this.nearScene.title}` : '';
+
+    const { tags: _tags, ...withoutTags } = query;
+    this.renderFacets(this.sceneManager.queryScenes(withoutTags));
+    this.renderResults(scenes);
+
+    const scope = this.sceneManager.getNavigationScope();
+    if (this.scopeCheckbox.checked) {
+      if (JSON.stringify(scope) !== JSON.stringify(query)) {
+        this.sceneManager.setNavigationScope(query);
+      }
+    } else if (scope) {
+      this.sceneManager.setNavigationScope(null);
+    }
+  }
+
+  private renderFacets(scenes: SceneMetadata[]): void {
+    const counts = this.sceneManager.getTagCounts(scenes);
+    // Selected tags stay visible even when the other filters leave no scenes with them
+    this.selectedTags.forEach(tag => {
+      if (!counts.some(c => c.tag === tag)) counts.push({ tag, count: 0 });
+    });
+
+    const chips = counts.map(({ tag, count }) => {
+      const selected = this.selectedTags.has(tag);
+      const chip = document.createElement('button');
+      chip.textContent = `${tag} (${count})`;
+      chip.setAttribute('aria-pressed', String(selected));
+      chip.style.cssText =
+        'padding:4px 10px; min-height:28px; border-radius:14px; cursor:pointer; font-size:12px;' +
+        (selected
+          ? 'background:#3a7bd5; color:#fff; border:1px solid #3a7bd5;'
+          : 'background:transparent; color:#e8e8e8; border:1px solid rgba(255, 255, 255, 0.3);');
+      chip.addEventListener('click', () => {
+        if (selected) {
+          this.selectedTags.delete(tag);
+        } else {
+          this.selectedTags.add(tag);
+        }
+        this.update();
+      });
+      return chip;
+    });
+
+    this.facets.replaceChildren(...chips);
+  }
+
+  private renderResults(scenes: SceneMetadata[]): void {
+    const currentId = this.sceneManager.getCurrentScene()?.id;
+    const total = this.sceneManager.getSceneCount();
+    this.summary.textContent = `${scenes.length} of ${total} scenes`;
+
+    const items = scenes.map(scene => {
+      const item = document.createElement('button');
+      item.setAttribute('role', 'listitem');
+      item.style.cssText =
+        'display:block; width:100%; text-align:left; padding:8px 10px; min-height:44px; cursor:pointer;' +
+        'border-radius:4px; color:inherit; font-size:13px; border:1px solid rgba(255, 255, 255, 0.1);' +
+        (scene.id === currentId ? 'background:rgba(58, 123, 213, 0.35);' : 'background:rgba(255, 255, 255, 0.04);');
+
+      const title = document.createElement('div');
+      title.style.fontWeight = '600';
+      title.textContent = scene.title;
+
+      const details = document.createElement('div');
+      details.style.cssText = 'opacity:0.7; font-size:12px;';
+      details.textContent = [scene.captureDate, scene.tags?.join(', ')].filter(Boolean).join(' · ');
+
+      item.append(title, details);
+      item.addEventListener('click', () => this.selectScene(scene));
+      return item;
+    });
+
+    this.results.replaceChildren(...items);
+  }
+
+  private async selectScene(scene: SceneMetadata): Promise<void> {
+    this.close();
+    try {
+      await this.sceneManager.loadSceneById(scene.id);
+    } catch (error) {
+      if (!isLoadCancellation(error)) {
+        console.error(`Failed to load ${scene.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Removes the panel and all listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.panel.dispose();
+  }
+}
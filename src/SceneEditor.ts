@@ -0,0 +1,614 @@
+import { SceneManager } from './SceneManager.js';
+import { SceneMetadata, SceneTransform, normalizeSceneTransform } from './scenes.js';
+import { GeoLocation } from './GeoSpatial.js';
+import { NeRFLoader, isLoadCancellation } from './NeRFLoader.js';
+import { EnvironmentSettings } from './PlatformEnvironment.js';
+import { OverlayPanel } from './OverlayPanel.js';
+import { SceneAuthoring } from './SceneAuthoring.js';
+import { SceneManifestError, formatManifestIssue } from './SceneManifest.js';
+import { SPLAT_FORMATS, SplatFormat } from './SplatFormats.js';
+
+/**
+ * SceneEditor - Form for adding and editing catalog scenes
+ *
+ * Every SceneMetadata field has an input; viewpoints, annotations and the
+ * crop volume are edited as JSON. The location can be typed, pasted as "lat, lon" or as an
+ * OpenStreetMap / Google Maps link, or copied from the current scene.
+ *
+ * Each changed field is saved through SceneAuthoring as one undo step once
+ * the entry is valid, so the viewer previews it right away; problems are
+ * listed under the toolbar instead.
+ */
+
+export interface SceneEditorConfig {
+  /** Element the panel is added to (default document.body) */
+  parent?: HTMLElement;
+}
+
+type FieldName =
+  | 'id' | 'title' | 'url' | 'format'
+  | 'latitude' | 'longitude' | 'altitude'
+  | 'heading' | 'pitch' | 'roll' | 'orientation'
+  | 'description' | 'captureDate' | 'tags'
+  | 'position' | 'quaternion' | 'scale'
+  | 'timeOfDay' | 'sunIntensity' | 'turbidity' | 'rayleigh' | 'shadows'
+  | 'viewpoints' | 'annotations' | 'crop';
+
+type FieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+const INPUT_CSS =
+  'background:rgba(255, 255, 255, 0.08); color:inherit; border:1px solid rgba(255, 255, 255, 0.2);' +
+  'border-radius:4px; padding:6px 8px; min-height:32px; font-size:13px; box-sizing:border-box;';
+
+const BUTTON_CSS =
+  'background:transparent; color:#e8e8e8; border:1px solid rgba(255, 255, 255, 0.3); border-radius:4px;' +
+  'padding:6px 10px; min-height:32px; cursor:pointer; font-size:12px;';
+
+/**
+ * Reads a location from "lat, lon[, alt]" or a map link
+ * (OpenStreetMap "#map=zoom/lat/lon" or "mlat=..&mlon=..", Google Maps "@lat,lon")
+ * @returns null if no coordinates were found
+ */
+export function parseCoordinates(text: string): GeoLocation | null {
+  const patterns = [
+    /mlat=(-?\d+(?:\.\d+)?)&mlon=(-?\d+(?:\.\d+)?)/,
+    /#map=\d+(?:\.\d+)?\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)/,
+    /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/,
+    /^\s*(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)(?:\s*[,;\s]\s*(-?\d+(?:\.\d+)?))?\s*$/
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const latitude = Number(match[1]);
+    const longitude = Number(match[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+    const location: GeoLocation = { latitude, longitude };
+    if (match[3] !== undefined) location.altitude = Number(match[3]);
+    return location;
+  }
+
+  return null;
+}
+
+function download(content: string, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export class SceneEditor {
+  private authoring: SceneAuthoring;
+  private sceneManager: SceneManager;
+  private nerfLoader: NeRFLoader;
+  private panel: OverlayPanel;
+
+  private sceneSelect: HTMLSelectElement;
+  private undoButton: HTMLButtonElement;
+  private redoButton: HTMLButtonElement;
+  private status: HTMLDivElement;
+  private mapLink: HTMLAnchorElement;
+  private fields = {} as Record<FieldName, FieldElement>;
+  // Id of the catalog entry being edited, null for a new scene
+  private editingId: string | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(authoring: SceneAuthoring, sceneManager: SceneManager, nerfLoader: NeRFLoader, config: SceneEditorConfig = {}) {
+    this.authoring = authoring;
+    this.sceneManager = sceneManager;
+    this.nerfLoader = nerfLoader;
+
+    this.panel = new OverlayPanel({ title: 'Scene Editor', placement: 'left', width: '440px', parent: config.parent });
+
+    // Toolbar: scene selection, undo and redo
+    this.sceneSelect = document.createElement('select');
+    this.sceneSelect.setAttribute('aria-label', 'Scene to edit');
+    this.sceneSelect.style.cssText = `${INPUT_CSS} flex:1; min-width:0;`;
+    this.sceneSelect.addEventListener('change', () => {
+      this.editingId = this.sceneSelect.value || null;
+      this.fillForm();
+    });
+
+    this.undoButton = this.createButton('Undo', () => this.runHistory(() => authoring.undo()));
+    this.redoButton = this.createButton('Redo', () => this.runHistory(() => authoring.redo()));
+
+    const toolbar = document.createElement('div');
+    toolbar.style.cssText = 'display:flex; gap:6px; align-items:center;';
+    toolbar.append(this.sceneSelect, this.undoButton, this.redoButton);
+
+    this.status = document.createElement('div');
+    this.status.style.cssText = 'font-size:12px; margin:8px 0; white-space:pre-wrap;';
+
+    // Location helpers
+    const coordinates = document.createElement('input');
+    coordinates.placeholder = 'Paste "lat, lon" or a map link';
+    coordinates.style.cssText = `${INPUT_CSS} width:100%;`;
+    coordinates.addEventListener('change', () => {
+      const location = parseCoordinates(coordinates.value);
+      if (!location) {
+        this.setStatus(['No coordinates found in the pasted text']);
+        return;
+      }
+      coordinates.value = '';
+      this.setLocation(location);
+    });
+
+    const useCurrent = this.createButton('Use Current Scene Location', () => {
+      const current = this.sceneManager.getCurrentScene();
+      if (current) this.setLocation(current.location);
+    });
+
+    this.mapLink = document.createElement('a');
+    this.mapLink.textContent = 'Open in OpenStreetMap';
+    this.mapLink.target = '_blank';
+    this.mapLink.rel = 'noopener noreferrer';
+    this.mapLink.style.cssText = 'color:#88ccff; font-size:12px;';
+
+    const locationTools = document.createElement('div');
+    locationTools.style.cssText = 'display:flex; gap:8px; align-items:center; flex-wrap:wrap;';
+    locationTools.append(useCurrent, this.mapLink);
+
+    const useTransform = this.createButton('Use Current Model Transform', () => this.useModelTransform());
+
+    this.panel.setContent(
+      toolbar,
+      this.status,
+      this.createSection('Scene'),
+      this.createField('id', 'Id', this.createInput('text', 'unique-scene-id')),
+      this.createField('title', 'Title', this.createInput('text')),
+      this.createField('url', 'Capture URL', this.createInput('url', 'Luma capture or .ply/.splat/.ksplat URL')),
+      this.createField('format', 'File format', this.createSelect([
+        ['', 'From URL'],
+        ...SPLAT_FORMATS.map((format): [string, string] => [format, `.${format}`])
+      ])),
+      this.createSection('Location'),
+      this.createField('latitude', 'Latitude', this.createInput('number', '', 'any')),
+      this.createField('longitude', 'Longitude', this.createInput('number', '', 'any')),
+      this.createField('altitude', 'Altitude (m)', this.createInput('number', '', 'any')),
+      this.createField('heading', 'Heading (°)', this.createInput('number', 'clockwise from north', 'any')),
+      this.createField('pitch', 'Pitch (°)', this.createInput('number', '', 'any')),
+      this.createField('roll', 'Roll (°)', this.createInput('number', '', 'any')),
+      this.createField('orientation', 'Orientation', this.createInput('text', 'x, y, z, w (replaces heading)')),
+      coordinates,
+      locationTools,
+      this.createSection('Details'),
+      this.createField('description', 'Description', this.createTextArea(3)),
+      this.createField('captureDate', 'Capture date', this.createInput('text', 'YYYY-MM-DD or YYYY-MM-DDTHH:MM')),
+      this.createField('tags', 'Tags', this.createInput('text', 'comma separated')),
+      this.createSection('Default Transform'),
+      this.createField('position', 'Offset (m)', this.createInput('text', 'x, y, z')),
+      this.createField('quaternion', 'Rotation', this.createInput('text', 'x, y, z, w')),
+      this.createField('scale', 'Scale', this.createInput('number', '1', '0.01')),
+      useTransform,
+      this.createSection('Environment Preset'),
+      this.createField('timeOfDay', 'Time of day (h)', this.createInput('number', '', '0.25')),
+      this.createField('sunIntensity', 'Sun intensity', this.createInput('number', '', '0.1')),
+      this.createField('turbidity', 'Turbidity', this.createInput('number', '', '0.1')),
+      this.createField('rayleigh', 'Rayleigh', this.createInput('number', '', '0.1')),
+      this.createField('shadows', 'Shadows', this.createSelect([['', 'Default'], ['true', 'On'], ['false', 'Off']])),
+      this.createSection('Viewpoints, Annotations and Crop (JSON)'),
+      this.createField('viewpoints', 'Viewpoints', this.createTextArea(4)),
+      this.createField('annotations', 'Annotations', this.createTextArea(4)),
+      this.createField('crop', 'Crop volume', this.createTextArea(3))
+    );
+
+    this.panel.setActions([
+      { label: 'Preview', primary: true, onClick: () => this.preview() },
+      { label: 'Delete Scene', onClick: () => this.deleteScene() },
+      { label: 'Export JSON', onClick: () => this.export('json') },
+      { label: 'Export scenes.ts', onClick: () => this.export('module') },
+      { label: 'Discard Draft', onClick: () => this.discardDraft() }
+    ]);
+
+    const refresh = () => {
+      if (this.panel.isVisible()) this.refresh();
+    };
+    const events = sceneManager.events;
+    this.unsubscribers.push(
+      authoring.events.on('changed', ({ edit }) => {
+        // Follow the edited scene through renames, undo and redo
+        if (edit && this.editingId !== null && !sceneManager.getSceneInfo(this.editingId)) {
+          const ids = [edit.after?.id, edit.before?.id];
+          this.editingId = ids.find(id => id !== undefined && sceneManager.getSceneInfo(id)) ?? null;
+        }
+        refresh();
+      }),
+      events.on('sceneAdded', refresh),
+      events.on('sceneRemoved', refresh)
+    );
+
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  /**
+   * Opens the editor on a scene (default the current scene)
+   * @param id - Scene to edit, or null for a new scene
+   */
+  public open(id?: string | null): void {
+    this.editingId = id !== undefined ? id : this.sceneManager.getCurrentScene()?.id ?? null;
+    this.refresh();
+    this.panel.show();
+  }
+
+  public close(): void {
+    this.panel.close();
+  }
+
+  public toggle(): void {
+    if (this.panel.isVisible()) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  public isOpen(): boolean {
+    return this.panel.isVisible();
+  }
+
+  private createSection(title: string): HTMLDivElement {
+    const heading = document.createElement('div');
+    heading.style.cssText = 'font-weight:600; margin:12px 0 4px; opacity:0.85;';
+    heading.textContent = title;
+    return heading;
+  }
+
+  private createField(name: FieldName, label: string, element: FieldElement): HTMLLabelElement {
+    this.fields[name] = element;
+    element.addEventListener('change', () => this.save(label.toLowerCase()));
+
+    const row = document.createElement('label');
+    row.style.cssText = 'display:grid; grid-template-columns:120px 1fr; gap:8px; align-items:center; margin:4px 0;';
+    const text = document.createElement('span');
+    text.style.cssText = 'font-size:12px; opacity:0.8;';
+    text.textContent = label;
+    row.append(text, element);
+    return row;
+  }
+
+  private createInput(type: string, placeholder: string = '', step?: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = type;
+    input.placeholder = placeholder;
+    if (step) input.step = step;
+    input.style.cssText = `${INPUT_CSS} width:100%;`;
+    return input;
+  }
+
+  private createTextArea(rows: number): HTMLTextAreaElement {
+    const textarea = document.createElement('textarea');
+    textarea.rows = rows;
+    textarea.style.cssText = `${INPUT_CSS} width:100%; resize:vertical; font-family:inherit;`;
+    return textarea;
+  }
+
+  private createSelect(options: Array<[string, string]>): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.style.cssText = `${INPUT_CSS} width:100%;`;
+    select.append(...options.map(([value, label]) => new Option(label, value)));
+    return select;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = BUTTON_CSS;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Rebuilds the scene list, undo state and form
+   */
+  private refresh(): void {
+    const scenes = this.sceneManager.getAllScenes();
+    if (this.editingId !== null && !scenes.some(scene => scene.id === this.editingId)) {
+      this.editingId = null;
+    }
+
+    this.sceneSelect.replaceChildren(
+      new Option('New scene…', ''),
+      ...scenes.map(scene => new Option(`${scene.title} (${scene.id})`, scene.id))
+    );
+    this.sceneSelect.value = this.editingId ?? '';
+
+    this.fillForm();
+  }
+
+  /**
+   * Shows the edited scene's fields (empty for a new scene)
+   */
+  private fillForm(): void {
+    const scene = this.editingId !== null ? this.sceneManager.getSceneInfo(this.editingId) : undefined;
+    const { location, transform = {}, environment = {} } = scene || {};
+    const set = (name: FieldName, value: unknown) => {
+      this.fields[name].value = value === undefined ? '' : String(value);
+    };
+
+    set('id', scene?.id);
+    set('title', scene?.title);
+    set('url', scene?.url);
+    set('format', scene?.format);
+    set('latitude', location?.latitude);
+    set('longitude', location?.longitude);
+    set('altitude', location?.altitude);
+    set('heading', location?.heading);
+    set('pitch', location?.pitch);
+    set('roll', location?.roll);
+    set('orientation', location?.quaternion?.join(', '));
+    set('description', scene?.description);
+    set('captureDate', scene?.captureDate);
+    set('tags', scene?.tags?.join(', '));
+    set('position', transform.position?.join(', '));
+    set('quaternion', transform.quaternion?.join(', '));
+    set('scale', transform.scale);
+    set('timeOfDay', environment.timeOfDay);
+    set('sunIntensity', environment.sunIntensity);
+    set('turbidity', environment.turbidity);
+    set('rayleigh', environment.rayleigh);
+    set('shadows', environment.shadows);
+    set('viewpoints', scene?.viewpoints ? JSON.stringify(scene.viewpoints, null, 2) : undefined);
+    set('annotations', scene?.annotations ? JSON.stringify(scene.annotations, null, 2) : undefined);
+    set('crop', scene?.crop ? JSON.stringify(scene.crop) : undefined);
+
+    this.updateMapLink();
+    this.setStatus([]);
+  }
+
+  private updateMapLink(): void {
+    const latitude = Number(this.fields.latitude.value);
+    const longitude = Number(this.fields.longitude.value);
+    const valid = this.fields.latitude.value !== '' && this.fields.longitude.value !== '' &&
+      Number.isFinite(latitude) && Number.isFinite(longitude);
+
+    this.mapLink.style.display = valid ? '' : 'none';
+    this.mapLink.href = valid
+      ? `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`
+      : '';
+  }
+
+  /**
+   * Shows the draft state and any problems with the form
+   */
+  private setStatus(problems: string[]): void {
+    const undo = this.authoring.getUndoLabel();
+    const redo = this.authoring.getRedoLabel();
+    this.undoButton.disabled = !undo;
+    this.redoButton.disabled = !redo;
+    this.undoButton.title = undo ? `Undo ${undo}` : '';
+    this.redoButton.title = redo ? `Redo ${redo}` : '';
+
+    const draft = this.authoring.isDirty()
+      ? 'Unsaved draft (kept in this browser until exported)'
+      : 'No unexported edits';
+    this.status.style.color = problems.length > 0 ? '#ffaa88' : '';
+    this.status.textContent = problems.length > 0 ? problems.join('\n') : draft;
+  }
+
+  /**
+   * Builds a SceneMetadata entry from the form
+   * @throws Error if a field cannot be parsed
+   */
+  private readForm(): SceneMetadata {
+    const text = (name: FieldName) => this.fields[name].value.trim();
+    const number = (name: FieldName): number | undefined => {
+      const value = text(name);
+      if (value === '') return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) throw new Error(`${name} must be a number`);
+      return parsed;
+    };
+    const numbers = <T extends number[]>(name: FieldName, length: number): T | undefined => {
+      const value = text(name);
+      if (value === '') return undefined;
+      const parsed = value.split(/[\s,]+/).map(Number);
+      if (parsed.length !== length || !parsed.every(Number.isFinite)) {
+        throw new Error(`${name} must be ${length} comma-separated numbers`);
+      }
+      return parsed as T;
+    };
+    const json = <T>(name: FieldName): T | undefined => {
+      const value = text(name);
+      if (value === '') return undefined;
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        throw new Error(`${name} is not valid JSON`);
+      }
+    };
+
+    const location: GeoLocation = {
+      latitude: number('latitude') as number,
+      longitude: number('longitude') as number
+    };
+    const altitude = number('altitude');
+    if (altitude !== undefined) location.altitude = altitude;
+    (['heading', 'pitch', 'roll'] as const).forEach(name => {
+      const value = number(name);
+      if (value !== undefined) location[name] = value;
+    });
+    const orientation = numbers<[number, number, number, number]>('orientation', 4);
+    if (orientation) location.quaternion = orientation;
+
+    const scene: SceneMetadata = { id: text('id'), title: text('title'), url: text('url'), location };
+
+    if (text('format')) scene.format = text('format') as SplatFormat;
+
+    if (text('description')) scene.description = text('description');
+    if (text('captureDate')) scene.captureDate = text('captureDate');
+    const tags = text('tags').split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length > 0) scene.tags = [...new Set(tags)];
+
+    const transform: SceneTransform = {
+      position: numbers<[number, number, number]>('position', 3),
+      quaternion: numbers<[number, number, number, number]>('quaternion', 4),
+      scale: number('scale')
+    };
+    const normalized = normalizeSceneTransform(transform);
+    if (normalized) scene.transform = normalized;
+
+    const environment: EnvironmentSettings = {};
+    (['timeOfDay', 'sunIntensity', 'turbidity', 'rayleigh'] as const).forEach(name => {
+      const value = number(name);
+      if (value !== undefined) environment[name] = value;
+    });
+    if (text('shadows')) environment.shadows = text('shadows') === 'true';
+    if (Object.keys(environment).length > 0) scene.environment = environment;
+
+    const viewpoints = json<SceneMetadata['viewpoints']>('viewpoints');
+    if (viewpoints) scene.viewpoints = viewpoints;
+    const annotations = json<SceneMetadata['annotations']>('annotations');
+    if (annotations) scene.annotations = annotations;
+    const crop = json<SceneMetadata['crop']>('crop');
+    if (crop) scene.crop = crop;
+
+    return scene;
+  }
+
+  /**
+   * Saves the form as one undo step; problems are shown instead
+   * @param what - Edited part, for the undo label (e.g. "title")
+   * @returns Whether the scene was saved (or unchanged)
+   */
+  private save(what: string): boolean {
+    this.updateMapLink();
+
+    let scene: SceneMetadata;
+    try {
+      scene = this.readForm();
+    } catch (error) {
+      this.setStatus([error instanceof Error ? error.message : String(error)]);
+      return false;
+    }
+
+    const previousId = this.editingId;
+    // Saving refreshes the form, which must already follow a new or renamed id
+    this.editingId = scene.id;
+    try {
+      this.authoring.saveScene(previousId, scene, previousId === null ? undefined : `Edit ${what} of ${previousId}`);
+    } catch (error) {
+      this.editingId = previousId;
+      const problems = error instanceof SceneManifestError
+        ? error.issues.map(issue => formatManifestIssue(issue).replace(/^\s*scenes\[\d+\]\s*(\([^)]*\))?/, '').trim())
+        : [error instanceof Error ? error.message : String(error)];
+      this.setStatus(problems);
+      return false;
+    }
+
+    this.refresh();
+    return true;
+  }
+
+  private setLocation(location: GeoLocation): void {
+    this.fields.latitude.value = String(location.latitude);
+    this.fields.longitude.value = String(location.longitude);
+    if (location.altitude !== undefined) this.fields.altitude.value = String(location.altitude);
+    this.save('location');
+  }
+
+  /**
+   * Copies the loaded model's transform (e.g. after using Model Adjustments)
+   */
+  private useModelTransform(): void {
+    if (this.editingId === null || this.sceneManager.getCurrentScene()?.id !== this.editingId) {
+      this.setStatus(['Load this scene first to use its model transform']);
+      return;
+    }
+
+    const { position, quaternion, scale } = this.nerfLoader.getModelTransform();
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+    this.fields.position.value = position.map(round).join(', ');
+    this.fields.quaternion.value = quaternion.map(round).join(', ');
+    this.fields.scale.value = String(round(scale));
+    this.save('transform');
+  }
+
+  /**
+   * Saves the form and loads the scene through the NeRF loader
+   */
+  private preview(): void {
+    if (!this.save('scene') || this.editingId === null) return;
+
+    this.sceneManager.loadSceneById(this.editingId).catch(error => {
+      if (!isLoadCancellation(error)) {
+        this.setStatus([`Preview failed: ${error instanceof Error ? error.message : error}`]);
+      }
+    });
+  }
+
+  private deleteScene(): void {
+    const id = this.editingId;
+    if (id === null || !confirm(`Remove "${id}" from the catalog?`)) return;
+
+    try {
+      this.authoring.removeScene(id);
+    } catch (error) {
+      this.setStatus([error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  private export(format: 'json' | 'module'): void {
+    try {
+      if (format === 'json') {
+        download(this.authoring.exportJSON(), 'scenes.json', 'application/json');
+      } else {
+        download(this.authoring.exportModule(), 'scenes.ts', 'text/plain');
+      }
+      this.authoring.markExported(format);
+    } catch (error) {
+      this.setStatus([`Export failed: ${error instanceof Error ? error.message : error}`]);
+    }
+  }
+
+  private discardDraft(): void {
+    if (!confirm('Revert all edits and delete the draft?')) return;
+
+    try {
+      this.authoring.discardDraft();
+    } catch (error) {
+      this.setStatus([error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  /**
+   * Runs undo or redo, reporting edits that can no longer be applied
+   */
+  private runHistory(step: () => boolean): void {
+    try {
+      step();
+    } catch (error) {
+      this.setStatus([error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  /**
+   * Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside text fields
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (!this.panel.isVisible() || !(event.ctrlKey || event.metaKey)) return;
+    const target = event.target as HTMLElement | null;
+    if (target && /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      event.preventDefault();
+      const redo = key === 'y' || event.shiftKey;
+      this.runHistory(() => (redo ? this.authoring.redo() : this.authoring.undo()));
+    }
+  };
+
+  /**
+   * Removes the panel and all listeners
+   */
+  public dispose(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.panel.dispose();
+  }
+}
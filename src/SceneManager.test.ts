@@ -0,0 +1,304 @@
+import * as THREE from 'three';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NeRFLoader } from './NeRFLoader.js';
+import { SceneManager } from './SceneManager.js';
+import { SceneTransitionController } from './SceneTransition.js';
+import { ArraySceneSource } from './SceneSource.js';
+import { SplatLoad, SplatSourceAdapter, SplatSourceRequest } from './SplatSource.js';
+import { SceneMetadata } from './scenes.js';
+
+/**
+ * Creates empty models that are ready at once, or when release() is called
+ * while `hold` is set
+ */
+class TestSplatSource implements SplatSourceAdapter {
+  public readonly name = 'test';
+  public hold = false;
+  /** URLs in the order they were loaded */
+  public loads: string[] = [];
+  private pending = new Map<string, () => void>();
+
+  public canLoad(): boolean {
+    return true;
+  }
+
+  public load({ url }: SplatSourceRequest): SplatLoad {
+    this.loads.push(url);
+    let opacity = 1;
+    const model = Object.assign(new THREE.Object3D(), {
+      boundingBox: new THREE.Box3(new THREE.Vector3(-1, 0, -1), new THREE.Vector3(1, 2, 1)),
+      setOpacity: (value: number) => { opacity = value; },
+      getOpacity: () => opacity
+    });
+    const ready = this.hold ? new Promise<void>(resolve => this.pending.set(url, resolve)) : Promise.resolve();
+    return { model, ready, getSplatCount: () => 1 };
+  }
+
+  public release(url: string): void {
+    this.pending.get(url)?.();
+    this.pending.delete(url);
+  }
+}
+
+function createScene(id: string, tags: string[] = []): SceneMetadata {
+  return {
+    id,
+    title: id.toUpperCase(),
+    url: `/captures/${id}.splat`,
+    location: { latitude: 52.52, longitude: 13.405 },
+    tags
+  };
+}
+
+let source: TestSplatSource;
+let sceneManager: SceneManager;
+
+beforeEach(async () => {
+  source = new TestSplatSource();
+  const nerfLoader = new NeRFLoader(new THREE.Scene(), { size: 60, height: 1.5, surfaceY: 0 }, undefined, {
+    sources: [source]
+  });
+  sceneManager = new SceneManager(nerfLoader, new ArraySceneSource([
+    createScene('a', ['urban']),
+    createScene('b', ['nature']),
+    createScene('c', ['urban'])
+  ]), { preloadAdjacent: false });
+  await sceneManager.initialize();
+});
+
+function currentId(): string | undefined {
+  return sceneManager.getCurrentScene()?.id;
+}
+
+describe('SceneManager navigation', () => {
+  it('starts at the first scene', async () => {
+    await sceneManager.loadNextScene();
+    expect(currentId()).toBe('a');
+  });
+
+  it('wraps around at the end of the catalog', async () => {
+    await sceneManager.loadSceneById('b');
+    await sceneManager.loadNextScene();
+    expect(currentId()).toBe('c');
+    await sceneManager.loadNextScene();
+    expect(currentId()).toBe('a');
+  });
+
+  it('wraps around backwards at the start of the catalog', async () => {
+    await sceneManager.loadSceneById('a');
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('c');
+    // Without history to go back through
+    sceneManager.clearHistory();
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('b');
+  });
+
+  it('goes back through the history before the catalog order', async () => {
+    await sceneManager.loadSceneById('a');
+    await sceneManager.loadSceneById('c');
+    await sceneManager.loadSceneById('b');
+
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('c');
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('a');
+    expect(sceneManager.getHistory().map(scene => scene.id)).toEqual(['a']);
+
+    // At the start of the history, previous follows the catalog again
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('c');
+    expect(sceneManager.getVisitedSceneIds()).toEqual(['a', 'c', 'b']);
+  });
+
+  it('keeps advancing from the scene being loaded', async () => {
+    await sceneManager.loadSceneById('a');
+    source.hold = true;
+
+    const next = sceneManager.loadNextScene();
+    const nextAgain = sceneManager.loadNextScene();
+    await expect(next).rejects.toThrow();
+    source.release('/captures/c.splat');
+    await nextAgain;
+    expect(currentId()).toBe('c');
+  });
+
+  describe('with a navigation scope', () => {
+    it('skips scenes outside the scope', async () => {
+      sceneManager.setNavigationScope({ tags: ['urban'] });
+      await sceneManager.loadSceneById('a');
+      await sceneManager.loadNextScene();
+      expect(currentId()).toBe('c');
+      await sceneManager.loadNextScene();
+      expect(currentId()).toBe('a');
+    });
+
+    it('continues from the catalog position of a scene outside the scope', async () => {
+      await sceneManager.loadSceneById('b');
+      sceneManager.setNavigationScope({ tags: ['urban'] });
+      await sceneManager.loadNextScene();
+      expect(currentId()).toBe('c');
+
+      await sceneManager.loadSceneById('b');
+      sceneManager.clearHistory();
+      await sceneManager.loadPreviousScene();
+      expect(currentId()).toBe('a');
+    });
+
+    it('reports the scoped scenes and navigates the whole catalog when cleared', async () => {
+      const scoped: string[][] = [];
+      sceneManager.events.on('navigationScopeChanged', ({ scenes }) => scoped.push(scenes.map(scene => scene.id)));
+
+      sceneManager.setNavigationScope({ tags: ['urban'] });
+      expect(sceneManager.getNavigationScope()).toEqual({ tags: ['urban'] });
+      sceneManager.setNavigationScope(null);
+      expect(sceneManager.getNavigationScope()).toBeNull();
+      expect(scoped).toEqual([['a', 'c'], ['a', 'b', 'c']]);
+
+      await sceneManager.loadSceneById('a');
+      await sceneManager.loadNextScene();
+      expect(currentId()).toBe('b');
+    });
+
+    it('refuses to navigate when no scene matches', async () => {
+      await sceneManager.loadSceneById('a');
+      sceneManager.setNavigationScope({ tags: ['night'] });
+      await expect(sceneManager.loadNextScene()).rejects.toThrow('No scenes match the navigation scope');
+      expect(currentId()).toBe('a');
+    });
+  });
+});
+
+describe('SceneManager catalog edits', () => {
+  it('replaces the entry of the current scene', async () => {
+    await sceneManager.loadSceneById('b');
+    const previous = sceneManager.getCurrentScene()!;
+
+    sceneManager.updateScene('b', { ...createScene('bee', ['nature']), title: 'Bee' });
+    expect(previous.id).toBe('b');
+    expect(sceneManager.getCurrentScene()).toMatchObject({ id: 'bee', title: 'Bee' });
+    expect(sceneManager.getCurrentScene()).toBe(sceneManager.getAllScenes()[1]);
+    expect(sceneManager.getHistory().map(scene => scene.id)).toEqual(['bee']);
+
+    await sceneManager.loadNextScene();
+    expect(currentId()).toBe('c');
+  });
+
+  it('drops fields missing from the new entry', async () => {
+    sceneManager.updateScene('a', { ...createScene('a'), description: 'Gate' });
+    sceneManager.updateScene('a', createScene('a'));
+    expect(sceneManager.getAllScenes()[0].description).toBeUndefined();
+    expect(sceneManager.getAllScenes()[0].tags).toEqual([]);
+  });
+
+  it('keeps the loading scene when one is inserted before it', async () => {
+    source.hold = true;
+    const load = sceneManager.loadSceneById('b');
+    sceneManager.addScene(createScene('first'), 0);
+    source.release('/captures/b.splat');
+    await load;
+
+    expect(currentId()).toBe('b');
+    expect(sceneManager.getCurrentSceneIndex()).toBe(2);
+    source.hold = false;
+    await sceneManager.loadNextScene();
+    expect(currentId()).toBe('c');
+  });
+
+  it('keeps the loading scene when one before it is removed', async () => {
+    source.hold = true;
+    const load = sceneManager.loadSceneById('c');
+    sceneManager.removeScene('a');
+    source.release('/captures/c.splat');
+    await load;
+
+    expect(currentId()).toBe('c');
+    expect(sceneManager.getCurrentSceneIndex()).toBe(1);
+    source.hold = false;
+    await sceneManager.loadPreviousScene();
+    expect(currentId()).toBe('b');
+  });
+
+  it('loads the edited entry of a scene changed while loading', async () => {
+    source.hold = true;
+    const load = sceneManager.loadSceneById('b');
+    sceneManager.updateScene('b', { ...createScene('b'), title: 'Bee' });
+    source.release('/captures/b.splat');
+    await load;
+
+    expect(sceneManager.getCurrentScene()).toBe(sceneManager.getAllScenes()[1]);
+    expect(sceneManager.getCurrentScene()!.title).toBe('Bee');
+  });
+
+  it('replaces the entry of the current scene in setters', async () => {
+    await sceneManager.loadSceneById('a');
+    const previous = sceneManager.getCurrentScene()!;
+
+    sceneManager.addSceneViewpoint('a', { name: 'Gate', position: [0, 1, 2], target: [0, 1, 0] });
+    expect(previous.viewpoints).toBeUndefined();
+    expect(sceneManager.getCurrentScene()).toBe(sceneManager.getAllScenes()[0]);
+    expect(sceneManager.getCurrentScene()!.viewpoints!.map(viewpoint => viewpoint.name)).toEqual(['Gate']);
+  });
+
+  it('keeps edits out of the source array and other managers', async () => {
+    const scenes: SceneMetadata[] = [
+      { ...createScene('a'), viewpoints: [{ name: 'Gate', position: [0, 1, 2], target: [0, 1, 0] }] }
+    ];
+    const managers = [0, 1].map(() => new SceneManager(
+      new NeRFLoader(new THREE.Scene(), { size: 60, height: 1.5, surfaceY: 0 }, undefined, { sources: [source] }),
+      new ArraySceneSource(scenes),
+      { preloadAdjacent: false }
+    ));
+    await Promise.all(managers.map(manager => manager.initialize()));
+
+    managers[0].addSceneViewpoint('a', { name: 'Tower', position: [0, 9, 0], target: [0, 0, 0] });
+    managers[0].setSceneTransform('a', { position: [1, 0, 0], scale: 2 });
+    managers[0].setSceneOrientation('a', { heading: 90 });
+
+    expect(managers[0].getAllScenes()[0].viewpoints).toHaveLength(2);
+    [scenes[0], managers[1].getAllScenes()[0]].forEach(scene => {
+      expect(scene.viewpoints).toHaveLength(1);
+      expect(scene).not.toHaveProperty('transform');
+      expect(scene.location).toEqual({ latitude: 52.52, longitude: 13.405 });
+    });
+  });
+
+  it('refuses to remove the loading scene', async () => {
+    source.hold = true;
+    const load = sceneManager.loadSceneById('b');
+    expect(() => sceneManager.removeScene('b')).toThrow('is in use');
+    source.release('/captures/b.splat');
+    await load;
+  });
+});
+
+describe('SceneManager with transitions', () => {
+  beforeEach(async () => {
+    // Tweens step on animation frames
+    vi.stubGlobal('requestAnimationFrame', (step: FrameRequestCallback) => setTimeout(() => step(performance.now())));
+    vi.stubGlobal('cancelAnimationFrame', (frame: number) => clearTimeout(frame));
+
+    const nerfLoader = new NeRFLoader(new THREE.Scene(), { size: 60, height: 1.5, surfaceY: 0 }, undefined, {
+      sources: [source]
+    });
+    sceneManager = new SceneManager(nerfLoader, new ArraySceneSource([createScene('a'), createScene('b')]), {
+      preloadAdjacent: false,
+      transitions: new SceneTransitionController(nerfLoader, { style: 'crossfade', duration: 1 })
+    });
+    await sceneManager.initialize();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reloads the current scene without downloading it again', async () => {
+    await sceneManager.loadSceneById('a');
+    await sceneManager.loadSceneById('a');
+    expect(source.loads).toEqual(['/captures/a.splat']);
+    expect(currentId()).toBe('a');
+
+    await sceneManager.loadSceneById('b');
+    expect(source.loads).toEqual(['/captures/a.splat', '/captures/b.splat']);
+  });
+});
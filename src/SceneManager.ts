@@ -1,88 +1,845 @@
-import { NeRFLoader } from './NeRFLoader.js';
-import { SceneMetadata, NARRATIVE_SCENES, getSceneById, getSceneByIndex } from './scenes.js';
+import * as THREE from 'three';
+import { NeRFLoader, NeRFLoadError, isLoadCancellation } from './NeRFLoader.js';
+import {
+  SceneMetadata,
+  SceneTransform,
+  SceneViewpoint,
+  SceneAnnotation,
+  SceneCrop,
+  NARRATIVE_SCENES,
+  normalizeSceneTransform,
+  parseCaptureDate
+} from './scenes.js';
+import { GeoLocation, GeoOrientation, getGeoOrientation } from './GeoSpatial.js';
+import { SceneSource, ArraySceneSource } from './SceneSource.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { SceneTransitionController } from './SceneTransition.js';
+import { PlatformEnvironment, EnvironmentSettings } from './PlatformEnvironment.js';
+import { normalizeSceneCrop } from './CropVolume.js';
 
 /**
  * SceneManager - Handles narrative scene navigation and loading
  *
  * Provides high-level API for switching between scenes in the narrative,
  * managing the current scene state, and controlling scene transitions.
+ * Scene lifecycle and loading progress are published through `events`.
+ *
+ * Only the most recent load request may change the current scene: starting a
+ * new load aborts the previous one, whose promise rejects with a NeRFLoadError
+ * (see isLoadCancellation).
+ *
+ * The path taken through the catalog is recorded: "previous" goes back along
+ * that history rather than the catalog order, and visited scenes can be
+ * queried (e.g. for story conditions, see StoryGraph).
+ *
+ * The catalog can be searched with queryScenes(), and next/previous can be
+ * scoped to the results of a query (setNavigationScope).
+ *
+ * When a PlatformEnvironment is given, each scene's environment preset is
+ * blended in as the scene loads, unless the user overrides the environment
+ * for the session. An environment provider (setEnvironmentProvider) can add
+ * settings below the presets, so one blend covers both.
+ */
+
+/**
+ * Events emitted by SceneManager
+ * Timings are milliseconds measured with performance.now()
+ */
+export interface SceneManagerEvents {
+  sceneWillLoad: { scene: SceneMetadata; index: number; previousScene: SceneMetadata | null };
+  sceneLoaded: { scene: SceneMetadata; index: number; durationMs: number };
+  sceneLoadFailed: { scene: SceneMetadata; index: number; error: unknown; durationMs: number };
+  sceneLoadAborted: { scene: SceneMetadata; index: number };
+  sceneUnloaded: { scene: SceneMetadata; visibleMs: number };
+  loadProgress: { scene: SceneMetadata; progress: number };
+  modelReady: { scene: SceneMetadata; boundingBox: THREE.Box3; durationMs: number };
+  autoScaled: { scene: SceneMetadata; scaleFactor: number; size: THREE.Vector3 };
+  /** A catalog entry was edited (e.g. its default transform was saved) */
+  sceneUpdated: { scene: SceneMetadata; index: number };
+  /** A scene was added to the catalog (e.g. in authoring mode) */
+  sceneAdded: { scene: SceneMetadata; index: number };
+  /** A scene was removed from the catalog */
+  sceneRemoved: { scene: SceneMetadata; index: number };
+  /** An environment preset (or the default environment) finished blending in; not emitted if interrupted */
+  environmentApplied: { scene: SceneMetadata; environment: EnvironmentSettings };
+  /** Next/previous were scoped to a query's results, or unscoped (query null) */
+  navigationScopeChanged: { query: SceneQuery | null; scenes: SceneMetadata[] };
+}
+
+/**
+ * Catalog search criteria; all given criteria must match
+ */
+export interface SceneQuery {
+  /** Words that must all appear in the title or description (case-insensitive) */
+  text?: string;
+  tags?: string[];
+  /** Whether scenes need all of `tags` or any of them (default 'all') */
+  tagMode?: 'all' | 'any';
+  /** Capture date range (inclusive); scenes without a capture date do not match */
+  from?: Date;
+  to?: Date;
+  /** Within `radius` meters of a location */
+  near?: { location: GeoLocation; radius: number };
+}
+
+/**
+ * Environment settings for a scene, applied below its preset
  */
+export type SceneEnvironmentProvider = (scene: SceneMetadata) => EnvironmentSettings;
+
+export interface SceneManagerOptions {
+  /** Preload the next and previous scenes in the background (default true) */
+  preloadAdjacent?: boolean;
+  /** Animated transitions between scenes (hard cut if omitted) */
+  transitions?: SceneTransitionController;
+  /** Environment that scene presets are applied to (presets are ignored if omitted) */
+  environment?: PlatformEnvironment;
+  /** Duration of the blend to a scene's environment preset in milliseconds (default 2000) */
+  environmentDuration?: number;
+}
 
 export class SceneManager {
+  public readonly events = new TypedEventEmitter<SceneManagerEvents>();
+
   private nerfLoader: NeRFLoader;
   private currentSceneIndex: number = -1;
   private currentScene: SceneMetadata | null = null;
+  private source: SceneSource;
+  private scenes: SceneMetadata[] = [];
+  private loadingScene: SceneMetadata | null = null;
+  private loadingIndex: number = -1;
+  private loadController: AbortController | null = null;
+  private preloadAdjacent: boolean;
+  private transitions: SceneTransitionController | null;
+  private currentSceneLoadedAt: number = 0;
+  private environment: PlatformEnvironment | null;
+  private environmentDuration: number;
+  private defaultEnvironment: EnvironmentSettings;
+  private environmentOverride: boolean = false;
+  private environmentProvider: SceneEnvironmentProvider | null = null;
+  // Whether the environment currently comes from a scene preset
+  private presetApplied: boolean = false;
+  // Ids of the scenes on the path taken; the last entry is the current scene
+  private history: string[] = [];
+  private visited = new Set<string>();
+  // History position of the scene being loaded by going back, null for forward loads
+  private loadingHistoryPosition: number | null = null;
+  private navigationScope: SceneQuery | null = null;
+  // Catalog indices that next/previous move between (null for the whole catalog)
+  private scopeIndices: number[] | null = null;
 
-  constructor(nerfLoader: NeRFLoader) {
+  /**
+   * @param nerfLoader - Loader used to display the scenes
+   * @param source - Scene catalog provider (defaults to the built-in NARRATIVE_SCENES)
+   * @param options - Navigation options
+   */
+  constructor(nerfLoader: NeRFLoader, source?: SceneSource, options: SceneManagerOptions = {}) {
     this.nerfLoader = nerfLoader;
+    this.source = source || new ArraySceneSource(NARRATIVE_SCENES, 'built-in catalog');
+    this.preloadAdjacent = options.preloadAdjacent ?? true;
+    this.transitions = options.transitions || null;
+    this.environment = options.environment || null;
+    this.environmentDuration = options.environmentDuration ?? 2000;
+    // Scenes without a preset return to the environment set up at startup
+    this.defaultEnvironment = this.environment ? this.environment.getEnvironment() : {};
+    this.forwardLoaderEvents();
+  }
+
+  /**
+   * Re-publishes NeRFLoader events for scenes loaded through this manager
+   */
+  private forwardLoaderEvents(): void {
+    const loaderEvents = this.nerfLoader.events;
+    const sceneForUrl = (url: string): SceneMetadata | null => {
+      if (this.loadingScene?.url === url) return this.loadingScene;
+      if (this.currentScene?.url === url) return this.currentScene;
+      return null;
+    };
+
+    loaderEvents.on('loadProgress', ({ url, progress }) => {
+      const scene = sceneForUrl(url);
+      if (scene) this.events.emit('loadProgress', { scene, progress });
+    });
+
+    loaderEvents.on('modelReady', ({ url, boundingBox, durationMs }) => {
+      const scene = sceneForUrl(url);
+      if (scene) this.events.emit('modelReady', { scene, boundingBox, durationMs });
+    });
+
+    loaderEvents.on('autoScaled', ({ url, scaleFactor, size }) => {
+      const scene = sceneForUrl(url);
+      if (scene) this.events.emit('autoScaled', { scene, scaleFactor, size });
+    });
+
+    loaderEvents.on('modelUnloaded', ({ url }) => {
+      if (this.currentScene?.url === url) {
+        this.events.emit('sceneUnloaded', {
+          scene: this.currentScene,
+          visibleMs: performance.now() - this.currentSceneLoadedAt
+        });
+      }
+    });
+  }
+
+  /**
+   * Loads the scene catalog from the scene source
+   * Must be awaited before navigating or querying scenes
+   */
+  public async initialize(): Promise<void> {
+    this.scenes = await this.source.load();
+    this.currentScene = null;
+    this.currentSceneIndex = -1;
+    this.history = [];
+    this.visited.clear();
+    this.updateScopeIndices();
+
+    console.log(`Loaded ${this.scenes.length} scenes from ${this.source.name}`);
+  }
+
+  /**
+   * Gets the source the scene catalog is loaded from
+   */
+  public getSource(): SceneSource {
+    return this.source;
   }
 
   /**
    * Loads a scene by its ID
    */
-  public async loadSceneById(id: string): Promise<void> {
-    const scene = getSceneById(id);
-    if (!scene) {
+  public async loadSceneById(id: string, signal?: AbortSignal): Promise<void> {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
       throw new Error(`Scene with id "${id}" not found`);
     }
 
-    const index = NARRATIVE_SCENES.findIndex(s => s.id === id);
-    await this.loadScene(scene, index);
+    await this.loadScene(this.scenes[index], index, signal);
   }
 
   /**
    * Loads a scene by its index
    */
-  public async loadSceneByIndex(index: number): Promise<void> {
-    const scene = getSceneByIndex(index);
+  public async loadSceneByIndex(index: number, signal?: AbortSignal): Promise<void> {
+    const scene = this.scenes[index];
     if (!scene) {
       throw new Error(`Scene at index ${index} not found`);
     }
 
-    await this.loadScene(scene, index);
+    await this.loadScene(scene, index, signal);
+  }
+
+  /**
+   * Loads the next scene in the narrative sequence (within the navigation scope, if set)
+   */
+  public async loadNextScene(signal?: AbortSignal): Promise<void> {
+    this.assertHasScenes();
+    await this.loadSceneByIndex(this.getAdjacentIndex(this.getNavigationIndex(), 1), signal);
+  }
+
+  /**
+   * Goes back to the previously visited scene
+   * At the start of the history this falls back to the previous scene in the
+   * catalog order.
+   */
+  public async loadPreviousScene(signal?: AbortSignal): Promise<void> {
+    this.assertHasScenes();
+
+    const position = this.getHistoryPosition();
+    if (position > 0) {
+      const id = this.history[position - 1];
+      const index = this.scenes.findIndex(s => s.id === id);
+      if (index >= 0) {
+        await this.loadScene(this.scenes[index], index, signal, position - 1);
+        return;
+      }
+    }
+
+    await this.loadSceneByIndex(this.getAdjacentIndex(this.getNavigationIndex(), -1), signal);
+  }
+
+  /**
+   * Catalog index of the scene before or after another in the navigation
+   * order, wrapping around; scenes outside the scope continue from their
+   * catalog position
+   * @param direction - 1 for next, -1 for previous
+   */
+  private getAdjacentIndex(fromIndex: number, direction: 1 | -1): number {
+    const indices = this.scopeIndices ?? this.scenes.map((_, index) => index);
+    if (indices.length === 0) {
+      throw new Error('No scenes match the navigation scope');
+    }
+
+    const position = indices.indexOf(fromIndex);
+    if (position >= 0) {
+      return indices[(position + direction + indices.length) % indices.length];
+    }
+
+    if (direction > 0) {
+      return indices.find(index => index > fromIndex) ?? indices[0];
+    }
+    const before = indices.filter(index => index < fromIndex);
+    return before.length > 0 ? before[before.length - 1] : indices[indices.length - 1];
   }
 
   /**
-   * Loads the next scene in the narrative sequence
+   * Index that next/previous navigate from: the scene being loaded if any,
+   * so repeated clicks keep advancing instead of reloading the same scene
    */
-  public async loadNextScene(): Promise<void> {
-    const nextIndex = (this.currentSceneIndex + 1) % NARRATIVE_SCENES.length;
-    await this.loadSceneByIndex(nextIndex);
+  private getNavigationIndex(): number {
+    return this.loadController ? this.loadingIndex : this.currentSceneIndex;
   }
 
   /**
-   * Loads the previous scene in the narrative sequence
+   * History position that "previous" goes back from: the scene being loaded
+   * if any, so repeated clicks keep going back
    */
-  public async loadPreviousScene(): Promise<void> {
-    const prevIndex =
-      this.currentSceneIndex <= 0
-        ? NARRATIVE_SCENES.length - 1
-        : this.currentSceneIndex - 1;
-    await this.loadSceneByIndex(prevIndex);
+  private getHistoryPosition(): number {
+    if (this.loadController) {
+      if (this.loadingHistoryPosition !== null) return this.loadingHistoryPosition;
+      if (this.loadingScene && this.loadingScene.id !== this.history[this.history.length - 1]) {
+        return this.history.length;
+      }
+    }
+    return this.history.length - 1;
+  }
+
+  /**
+   * Starts background downloads of the scenes before and after the current one
+   */
+  public preloadAdjacentScenes(): void {
+    const count = this.scopeIndices?.length ?? this.scenes.length;
+    if (this.currentSceneIndex < 0 || count < 2) return;
+
+    const nextIndex = this.getAdjacentIndex(this.currentSceneIndex, 1);
+    const prevIndex = this.getAdjacentIndex(this.currentSceneIndex, -1);
+
+    if (nextIndex !== this.currentSceneIndex) {
+      this.nerfLoader.preload(this.scenes[nextIndex].url, { format: this.scenes[nextIndex].format });
+    }
+    if (prevIndex !== nextIndex && prevIndex !== this.currentSceneIndex) {
+      this.nerfLoader.preload(this.scenes[prevIndex].url, { format: this.scenes[prevIndex].format });
+    }
+  }
+
+  /**
+   * Finds the catalog scenes matching a query, in catalog order
+   */
+  public queryScenes(query: SceneQuery): SceneMetadata[] {
+    return this.scenes.filter(scene => this.matchesQuery(scene, query));
+  }
+
+  private matchesQuery(scene: SceneMetadata, query: SceneQuery): boolean {
+    const { text, tags, tagMode = 'all', from, to, near } = query;
+
+    const words = text?.toLowerCase().split(/\s+/).filter(Boolean) || [];
+    if (words.length > 0) {
+      const haystack = `${scene.title} ${scene.description || ''}`.toLowerCase();
+      if (!words.every(word => haystack.includes(word))) return false;
+    }
+
+    if (tags && tags.length > 0) {
+      const sceneTags = scene.tags || [];
+      const matches = tagMode === 'any'
+        ? tags.some(tag => sceneTags.includes(tag))
+        : tags.every(tag => sceneTags.includes(tag));
+      if (!matches) return false;
+    }
+
+    if (from || to) {
+      const date = parseCaptureDate(scene.captureDate);
+      if (!date || (from && date < from) || (to && date > to)) return false;
+    }
+
+    if (near) {
+      const distance = this.nerfLoader.getGeoManager().calculateDistance(near.location, scene.location);
+      if (distance > near.radius) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Counts the scenes per tag, most used first
+   * @param scenes - Scenes to count (default the whole catalog), e.g. query results for facets
+   */
+  public getTagCounts(scenes: SceneMetadata[] = this.scenes): Array<{ tag: string; count: number }> {
+    const counts = new Map<string, number>();
+    scenes.forEach(scene => {
+      scene.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Limits next/previous (and preloading) to the scenes matching a query
+   * @param query - null navigates the whole catalog again
+   */
+  public setNavigationScope(query: SceneQuery | null): void {
+    this.navigationScope = query ? { ...query } : null;
+    this.updateScopeIndices();
+
+    const scenes = this.scopeIndices ? this.scopeIndices.map(index => this.scenes[index]) : this.getAllScenes();
+    console.log(query ? `Navigation scoped to ${scenes.length} scenes` : 'Navigation scope cleared');
+    this.events.emit('navigationScopeChanged', { query: this.getNavigationScope(), scenes });
+  }
+
+  /**
+   * Gets the query that navigation is scoped to (null for the whole catalog)
+   */
+  public getNavigationScope(): SceneQuery | null {
+    return this.navigationScope ? { ...this.navigationScope } : null;
+  }
+
+  private updateScopeIndices(): void {
+    const scope = this.navigationScope;
+    this.scopeIndices = scope
+      ? this.scenes.flatMap((scene, index) => (this.matchesQuery(scene, scope) ? [index] : []))
+      : null;
+  }
+
+  /**
+   * Enables or disables background preloading of adjacent scenes
+   */
+  public setPreloadAdjacent(enabled: boolean): void {
+    this.preloadAdjacent = enabled;
+  }
+
+  /**
+   * Aborts the scene load in progress, if any
+   */
+  public cancelLoad(): void {
+    this.loadController?.abort();
+  }
+
+  /**
+   * Whether a scene load is in progress
+   */
+  public isLoading(): boolean {
+    return this.loadController !== null;
+  }
+
+  /**
+   * Throws if the catalog is empty (e.g. initialize() has not been awaited)
+   */
+  private assertHasScenes(): void {
+    if (this.scenes.length === 0) {
+      throw new Error(`No scenes available from ${this.source.name}`);
+    }
   }
 
   /**
    * Internal method to load a scene
+   * @param historyPosition - Position in the history when going back (forward loads append)
    */
-  private async loadScene(scene: SceneMetadata, index: number): Promise<void> {
+  private async loadScene(
+    scene: SceneMetadata,
+    index: number,
+    signal?: AbortSignal,
+    historyPosition?: number
+  ): Promise<void> {
     console.log(`\n=== Loading Scene: ${scene.title} ===`);
     console.log(`Description: ${scene.description || 'N/A'}`);
     console.log(`Location: ${scene.location.latitude.toFixed(4)}, ${scene.location.longitude.toFixed(4)}`);
 
+    // Supersede any load still in progress
+    this.loadController?.abort();
+    const controller = new AbortController();
+    this.loadController = controller;
+    this.loadingScene = scene;
+    this.loadingIndex = index;
+    this.loadingHistoryPosition = historyPosition ?? null;
+
+    const onExternalAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    const startTime = performance.now();
+    this.events.emit('sceneWillLoad', { scene, index, previousScene: this.currentScene });
+
     try {
-      // Load the NeRF model with geolocation
-      await this.nerfLoader.loadNeRFModel(scene.url, {
-        location: scene.location
+      // Load the NeRF model with geolocation and wait until it is ready,
+      // playing the transition from the previous scene if configured
+      const load = (opacity: number) => this.nerfLoader.loadNeRFModel(scene.url, {
+        format: scene.format,
+        location: scene.location,
+        transform: scene.transform,
+        crop: scene.crop,
+        signal: controller.signal,
+        opacity
       });
 
-      this.currentScene = scene;
-      this.currentSceneIndex = index;
+      // The current capture is reloaded in place; a transition would detach it and download it again
+      if (this.transitions && scene.url !== this.nerfLoader.getCurrentUrl()) {
+        await this.transitions.run(load, controller.signal);
+      } else {
+        await load(1);
+      }
 
-      console.log(`Scene loaded successfully [${index + 1}/${NARRATIVE_SCENES.length}]`);
+      if (controller.signal.aborted) {
+        throw new NeRFLoadError('aborted', scene.url, 'Scene load was superseded');
+      }
+
+      // Catalog edits during the load may have replaced or moved the entry
+      const loadedScene = this.loadingScene || scene;
+      const loadedIndex = this.loadingIndex;
+      this.currentScene = loadedScene;
+      this.currentSceneIndex = loadedIndex;
+      this.currentSceneLoadedAt = performance.now();
+      this.recordHistory(loadedScene, historyPosition);
+      this.applySceneEnvironment(loadedScene);
+
+      console.log(`Scene loaded successfully [${loadedIndex + 1}/${this.scenes.length}]`);
+      this.events.emit('sceneLoaded', {
+        scene: loadedScene,
+        index: loadedIndex,
+        durationMs: this.currentSceneLoadedAt - startTime
+      });
+
+      if (this.preloadAdjacent) {
+        this.preloadAdjacentScenes();
+      }
     } catch (error) {
+      if (isLoadCancellation(error)) {
+        console.log(`Scene load cancelled: ${scene.title}`);
+        this.events.emit('sceneLoadAborted', { scene, index });
+        throw error;
+      }
+
       console.error(`Failed to load scene "${scene.title}":`, error);
+      this.events.emit('sceneLoadFailed', {
+        scene,
+        index,
+        error,
+        durationMs: performance.now() - startTime
+      });
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', onExternalAbort);
+      if (this.loadController === controller) {
+        this.loadController = null;
+        this.loadingScene = null;
+        this.loadingIndex = -1;
+        this.loadingHistoryPosition = null;
+      }
+    }
+  }
+
+  /**
+   * Adds a loaded scene to the history, or truncates it when going back
+   */
+  private recordHistory(scene: SceneMetadata, historyPosition?: number): void {
+    this.visited.add(scene.id);
+
+    if (historyPosition !== undefined && this.history[historyPosition] === scene.id) {
+      this.history.length = historyPosition + 1;
+    } else if (this.history[this.history.length - 1] !== scene.id) {
+      this.history.push(scene.id);
+    }
+  }
+
+  /**
+   * Gets the path taken through the catalog, oldest first (the last entry is the current scene)
+   */
+  public getHistory(): SceneMetadata[] {
+    return this.history
+      .map(id => this.scenes.find(scene => scene.id === id))
+      .filter((scene): scene is SceneMetadata => scene !== undefined);
+  }
+
+  /**
+   * Whether a scene has been loaded this session, even if the history went back past it
+   */
+  public hasVisited(id: string): boolean {
+    return this.visited.has(id);
+  }
+
+  /**
+   * Gets the ids of all scenes loaded this session
+   */
+  public getVisitedSceneIds(): string[] {
+    return [...this.visited];
+  }
+
+  /**
+   * Forgets the path taken and visited scenes, except the current scene
+   */
+  public clearHistory(): void {
+    this.history = this.currentScene ? [this.currentScene.id] : [];
+    this.visited = new Set(this.history);
+  }
+
+  /**
+   * Blends the environment to a scene's preset, over the provider's settings
+   * Scenes without a preset restore the default environment, but only if a
+   * preset was applied before, so manual changes are otherwise kept.
+   */
+  private applySceneEnvironment(scene: SceneMetadata): void {
+    const environment = this.environment;
+    if (!environment || this.environmentOverride) return;
+
+    let settings: EnvironmentSettings;
+    const preset = { ...this.environmentProvider?.(scene), ...scene.environment };
+    if (Object.keys(preset).length > 0) {
+      settings = preset;
+      this.presetApplied = true;
+    } else if (this.presetApplied) {
+      settings = this.defaultEnvironment;
+      this.presetApplied = false;
+    } else {
+      return;
+    }
+
+    console.log(`Applying environment for ${scene.title}:`, settings);
+    environment.transitionTo(settings, this.environmentDuration).then(completed => {
+      if (completed) {
+        this.events.emit('environmentApplied', { scene, environment: environment.getEnvironment() });
+      }
+    });
+  }
+
+  /**
+   * Sets the source of environment settings applied with every scene, below
+   * its own preset (e.g. lighting from the capture date, see TimelineController)
+   * The current scene's environment is applied again; null removes the provider.
+   */
+  public setEnvironmentProvider(provider: SceneEnvironmentProvider | null): void {
+    this.environmentProvider = provider;
+    if (this.currentScene) {
+      this.applySceneEnvironment(this.currentScene);
+    }
+  }
+
+  /**
+   * Keeps the user's environment for the rest of the session instead of
+   * applying scene presets; disabling it applies the current scene's preset again
+   */
+  public setEnvironmentOverride(enabled: boolean): void {
+    if (this.environmentOverride === enabled) return;
+    this.environmentOverride = enabled;
+
+    if (enabled) {
+      this.environment?.stopTransition();
+      this.presetApplied = false;
+    } else if (this.currentScene) {
+      this.applySceneEnvironment(this.currentScene);
+    }
+  }
+
+  /**
+   * Whether the user overrides scene environment presets
+   */
+  public isEnvironmentOverridden(): boolean {
+    return this.environmentOverride;
+  }
+
+  /**
+   * Gets the transition controller, if transitions are enabled
+   */
+  public getTransitions(): SceneTransitionController | null {
+    return this.transitions;
+  }
+
+  /**
+   * Stores a default model transform in the catalog entry of a scene
+   * The change is kept in memory; export the catalog to persist it.
+   * @param transform - Identity values are dropped; an identity transform removes the preset
+   */
+  public setSceneTransform(id: string, transform: SceneTransform): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+
+    const scene = { ...this.scenes[index] };
+    const normalized = normalizeSceneTransform(transform);
+    if (normalized) {
+      scene.transform = normalized;
+    } else {
+      delete scene.transform;
+    }
+    this.replaceScene(index, scene);
+
+    console.log(`Default transform of ${scene.id} ${normalized ? 'saved' : 'cleared'}`);
+    this.events.emit('sceneUpdated', { scene, index });
+  }
+
+  /**
+   * Stores a crop volume in the catalog entry of a scene
+   * The change is kept in memory; export the catalog to persist it.
+   * @param crop - Crop in container space, or null to use the platform walls again
+   */
+  public setSceneCrop(id: string, crop: SceneCrop | null): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
     }
+
+    const scene = { ...this.scenes[index] };
+    if (crop) {
+      scene.crop = normalizeSceneCrop(crop);
+    } else {
+      delete scene.crop;
+    }
+    this.replaceScene(index, scene);
+
+    console.log(`Crop volume of ${scene.id} ${crop ? 'saved' : 'cleared'}`);
+    this.events.emit('sceneUpdated', { scene, index });
+  }
+
+  /**
+   * Stores a capture orientation in the location of a scene's catalog entry
+   * The change is kept in memory; export the catalog to persist it.
+   * @param orientation - Heading, pitch and roll or a quaternion, or null to remove it
+   */
+  public setSceneOrientation(id: string, orientation: GeoOrientation | null): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+
+    const { heading, pitch, roll, quaternion, ...position } = this.scenes[index].location;
+    const scene = {
+      ...this.scenes[index],
+      location: { ...position, ...(orientation ? getGeoOrientation(orientation) : null) }
+    };
+    this.replaceScene(index, scene);
+
+    console.log(`Orientation of ${scene.id} ${orientation ? 'saved' : 'cleared'}`);
+    this.events.emit('sceneUpdated', { scene, index });
+  }
+
+  /**
+   * Adds a camera viewpoint to the catalog entry of a scene
+   * A viewpoint with the same name is replaced. Kept in memory; export the catalog to persist it.
+   */
+  public addSceneViewpoint(id: string, viewpoint: SceneViewpoint): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+
+    const scene = { ...this.scenes[index] };
+    const viewpoints = [...(scene.viewpoints || [])];
+    const existing = viewpoints.findIndex(v => v.name === viewpoint.name);
+    if (existing >= 0) {
+      viewpoints[existing] = viewpoint;
+    } else {
+      viewpoints.push(viewpoint);
+    }
+    scene.viewpoints = viewpoints;
+    this.replaceScene(index, scene);
+
+    console.log(`Viewpoint "${viewpoint.name}" saved for ${scene.id}`);
+    this.events.emit('sceneUpdated', { scene, index });
+  }
+
+  /**
+   * Replaces the annotations of a scene's catalog entry
+   * Kept in memory; export the catalog to persist them.
+   */
+  public setSceneAnnotations(id: string, annotations: SceneAnnotation[]): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+
+    const scene = { ...this.scenes[index] };
+    if (annotations.length > 0) {
+      scene.annotations = [...annotations];
+    } else {
+      delete scene.annotations;
+    }
+    this.replaceScene(index, scene);
+
+    this.events.emit('sceneUpdated', { scene, index });
+  }
+
+  /**
+   * Replaces the catalog entry of a scene, keeping its position
+   * The current or loading scene is switched to the new entry.
+   * Kept in memory; export the catalog to persist it.
+   * @param id - Id of the entry to replace; `scene.id` may differ to rename it
+   */
+  public updateScene(id: string, scene: SceneMetadata): void {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+    if (scene.id !== id && this.scenes.some(s => s.id === scene.id)) {
+      throw new Error(`Scene with id "${scene.id}" already exists`);
+    }
+
+    const entry = { ...scene };
+    this.replaceScene(index, entry);
+
+    if (scene.id !== id) {
+      this.history = this.history.map(historyId => (historyId === id ? scene.id : historyId));
+      if (this.visited.delete(id)) this.visited.add(scene.id);
+    }
+    this.updateScopeIndices();
+
+    this.events.emit('sceneUpdated', { scene: entry, index });
+  }
+
+  /**
+   * Puts a new entry in place of a catalog entry
+   * Entries are never changed in place, so edits do not reach objects held
+   * elsewhere; the current or loading scene is switched to the new entry.
+   */
+  private replaceScene(index: number, entry: SceneMetadata): void {
+    const previous = this.scenes[index];
+    this.scenes[index] = entry;
+    if (this.currentScene === previous) this.currentScene = entry;
+    if (this.loadingScene === previous) this.loadingScene = entry;
+  }
+
+  /**
+   * Adds a scene to the catalog
+   * Kept in memory; export the catalog to persist it.
+   * @param index - Catalog position (default the end)
+   */
+  public addScene(scene: SceneMetadata, index: number = this.scenes.length): void {
+    if (this.scenes.some(s => s.id === scene.id)) {
+      throw new Error(`Scene with id "${scene.id}" already exists`);
+    }
+
+    const position = Math.max(0, Math.min(index, this.scenes.length));
+    this.scenes.splice(position, 0, scene);
+    if (this.currentSceneIndex >= position) this.currentSceneIndex++;
+    if (this.loadingIndex >= position) this.loadingIndex++;
+    this.updateScopeIndices();
+
+    console.log(`Scene ${scene.id} added to the catalog`);
+    this.events.emit('sceneAdded', { scene, index: position });
+  }
+
+  /**
+   * Removes a scene from the catalog
+   * The scene that is loaded or loading cannot be removed.
+   * @returns The removed entry
+   */
+  public removeScene(id: string): SceneMetadata {
+    const index = this.scenes.findIndex(s => s.id === id);
+    if (index < 0) {
+      throw new Error(`Scene with id "${id}" not found`);
+    }
+    if (this.currentScene?.id === id || this.loadingScene?.id === id) {
+      throw new Error(`Scene "${id}" is in use and cannot be removed`);
+    }
+
+    const [scene] = this.scenes.splice(index, 1);
+    if (this.currentSceneIndex > index) this.currentSceneIndex--;
+    if (this.loadingIndex > index) this.loadingIndex--;
+    this.updateScopeIndices();
+
+    console.log(`Scene ${scene.id} removed from the catalog`);
+    this.events.emit('sceneRemoved', { scene, index });
+    return scene;
   }
 
   /**
@@ -103,14 +860,14 @@ export class SceneManager {
    * Gets all available scenes
    */
   public getAllScenes(): SceneMetadata[] {
-    return [...NARRATIVE_SCENES];
+    return [...this.scenes];
   }
 
   /**
    * Gets the total number of scenes
    */
   public getSceneCount(): number {
-    return NARRATIVE_SCENES.length;
+    return this.scenes.length;
   }
 
   /**
@@ -118,9 +875,9 @@ export class SceneManager {
    */
   public getSceneInfo(idOrIndex: string | number): SceneMetadata | undefined {
     if (typeof idOrIndex === 'string') {
-      return getSceneById(idOrIndex);
+      return this.scenes.find(scene => scene.id === idOrIndex);
     } else {
-      return getSceneByIndex(idOrIndex);
+      return this.scenes[idOrIndex];
     }
   }
 }
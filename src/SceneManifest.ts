@@ -0,0 +1,432 @@
+import { SceneMetadata } from './scenes.js';
+import { SPLAT_FORMATS } from './SplatFormats.js';
+import { CROP_SHAPES } from './CropVolume.js';
+
+/**
+ * SceneManifest - External scene catalog loading and validation
+ *
+ * Loads a versioned JSON manifest describing the narrative scenes so that
+ * captures can be added without rebuilding the app. Every entry is checked
+ * against the SceneMetadata shape before it reaches the SceneManager.
+ *
+ * Manifest format:
+ * {
+ *   "version": 1,
+ *   "scenes": [{ "id": "...", "title": "...", "url": "...", "location": { ... } }]
+ * }
+ */
+
+export const SCENE_MANIFEST_VERSION = 1;
+
+export interface SceneManifest {
+  version: number;
+  title?: string;
+  scenes: SceneMetadata[];
+}
+
+export interface ManifestIssue {
+  /** Index of the offending entry in `scenes`, or -1 for manifest-level issues */
+  index: number;
+  id?: string;
+  field?: string;
+  message: string;
+}
+
+export class SceneManifestError extends Error {
+  public readonly issues: ManifestIssue[];
+
+  constructor(message: string, issues: ManifestIssue[] = []) {
+    const details = issues.map(formatManifestIssue).join('\n');
+    super(details ? `${message}\n${details}` : message);
+    this.name = 'SceneManifestError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Formats an issue as a single human readable line
+ */
+export function formatManifestIssue(issue: ManifestIssue): string {
+  const where = issue.index < 0 ? 'manifest' : `scenes[${issue.index}]`;
+  const id = issue.id ? ` (${issue.id})` : '';
+  const field = issue.field ? ` ${issue.field}:` : '';
+  return `  ${where}${id}${field} ${issue.message}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNumberTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+}
+
+/**
+ * Validates a single scene entry, pushing any problems onto `issues`
+ */
+function validateSceneEntry(entry: unknown, index: number, issues: ManifestIssue[]): void {
+  if (!isRecord(entry)) {
+    issues.push({ index, message: 'entry must be an object' });
+    return;
+  }
+
+  const id = typeof entry.id === 'string' ? entry.id : undefined;
+  const report = (field: string, message: string) => issues.push({ index, id, field, message });
+
+  if (typeof entry.id !== 'string' || entry.id.trim() === '') {
+    report('id', 'is required and must be a non-empty string');
+  }
+  if (typeof entry.title !== 'string' || entry.title.trim() === '') {
+    report('title', 'is required and must be a non-empty string');
+  }
+  if (typeof entry.url !== 'string' || entry.url.trim() === '') {
+    report('url', 'is required and must be a non-empty string');
+  }
+  if (entry.format !== undefined && !(SPLAT_FORMATS as unknown[]).includes(entry.format)) {
+    report('format', `must be one of ${SPLAT_FORMATS.join(', ')}`);
+  }
+
+  const location = entry.location;
+  if (location === undefined) {
+    report('location', 'is required');
+  } else if (!isRecord(location)) {
+    report('location', 'must be an object with latitude and longitude');
+  } else {
+    if (!isFiniteNumber(location.latitude)) {
+      report('location.latitude', 'is required and must be a number');
+    } else if (location.latitude < -90 || location.latitude > 90) {
+      report('location.latitude', `${location.latitude} is out of range [-90, 90]`);
+    }
+
+    if (!isFiniteNumber(location.longitude)) {
+      report('location.longitude', 'is required and must be a number');
+    } else if (location.longitude < -180 || location.longitude > 180) {
+      report('location.longitude', `${location.longitude} is out of range [-180, 180]`);
+    }
+
+    if (location.altitude !== undefined && !isFiniteNumber(location.altitude)) {
+      report('location.altitude', 'must be a number');
+    }
+
+    (['heading', 'roll'] as const).forEach(name => {
+      if (location[name] !== undefined && !isFiniteNumber(location[name])) {
+        report(`location.${name}`, 'must be a number of degrees');
+      }
+    });
+    if (location.pitch !== undefined) {
+      if (!isFiniteNumber(location.pitch)) {
+        report('location.pitch', 'must be a number of degrees');
+      } else if (location.pitch < -90 || location.pitch > 90) {
+        report('location.pitch', `${location.pitch} is out of range [-90, 90]`);
+      }
+    }
+    if (location.quaternion !== undefined) {
+      if (!isNumberTuple(location.quaternion, 4)) {
+        report('location.quaternion', 'must be an array of 4 numbers [x, y, z, w]');
+      } else if ((location.quaternion as number[]).every(v => v === 0)) {
+        report('location.quaternion', 'must not be all zeros');
+      }
+    }
+  }
+
+  if (entry.description !== undefined && typeof entry.description !== 'string') {
+    report('description', 'must be a string');
+  }
+  if (entry.captureDate !== undefined && typeof entry.captureDate !== 'string') {
+    report('captureDate', 'must be a string');
+  }
+  if (
+    entry.tags !== undefined &&
+    (!Array.isArray(entry.tags) || entry.tags.some(tag => typeof tag !== 'string'))
+  ) {
+    report('tags', 'must be an array of strings');
+  }
+
+  const transform = entry.transform;
+  if (transform !== undefined) {
+    if (!isRecord(transform)) {
+      report('transform', 'must be an object');
+    } else {
+      if (transform.position !== undefined && !isNumberTuple(transform.position, 3)) {
+        report('transform.position', 'must be an array of 3 numbers [x, y, z]');
+      }
+      if (transform.quaternion !== undefined) {
+        if (!isNumberTuple(transform.quaternion, 4)) {
+          report('transform.quaternion', 'must be an array of 4 numbers [x, y, z, w]');
+        } else if ((transform.quaternion as number[]).every(v => v === 0)) {
+          report('transform.quaternion', 'must not be all zeros');
+        }
+      }
+      if (
+        transform.scale !== undefined &&
+        (!isFiniteNumber(transform.scale) || transform.scale <= 0)
+      ) {
+        report('transform.scale', 'must be a positive number');
+      }
+    }
+  }
+
+  const environment = entry.environment;
+  if (environment !== undefined) {
+    if (!isRecord(environment)) {
+      report('environment', 'must be an object');
+    } else {
+      const { timeOfDay, sunIntensity, turbidity, rayleigh, shadows } = environment;
+      if (timeOfDay !== undefined && (!isFiniteNumber(timeOfDay) || timeOfDay < 0 || timeOfDay > 24)) {
+        report('environment.timeOfDay', 'must be a number in [0, 24]');
+      }
+      if (sunIntensity !== undefined && (!isFiniteNumber(sunIntensity) || sunIntensity < 0)) {
+        report('environment.sunIntensity', 'must be a non-negative number');
+      }
+      if (turbidity !== undefined && (!isFiniteNumber(turbidity) || turbidity < 0)) {
+        report('environment.turbidity', 'must be a non-negative number');
+      }
+      if (rayleigh !== undefined && (!isFiniteNumber(rayleigh) || rayleigh < 0)) {
+        report('environment.rayleigh', 'must be a non-negative number');
+      }
+      if (shadows !== undefined && typeof shadows !== 'boolean') {
+        report('environment.shadows', 'must be a boolean');
+      }
+    }
+  }
+
+  const annotations = entry.annotations;
+  if (annotations !== undefined) {
+    if (!Array.isArray(annotations)) {
+      report('annotations', 'must be an array');
+    } else {
+      const annotationIds = new Set<string>();
+      annotations.forEach((annotation, i) => {
+        const field = `annotations[${i}]`;
+        if (!isRecord(annotation)) {
+          report(field, 'must be an object');
+          return;
+        }
+        if (typeof annotation.id !== 'string' || annotation.id.trim() === '') {
+          report(`${field}.id`, 'is required and must be a non-empty string');
+        } else if (annotationIds.has(annotation.id)) {
+          report(`${field}.id`, `duplicate annotation id "${annotation.id}"`);
+        } else {
+          annotationIds.add(annotation.id);
+        }
+        if (typeof annotation.title !== 'string' || annotation.title.trim() === '') {
+          report(`${field}.title`, 'is required and must be a non-empty string');
+        }
+        if (typeof annotation.text !== 'string') {
+          report(`${field}.text`, 'is required and must be a string');
+        }
+        if (!isNumberTuple(annotation.position, 3)) {
+          report(`${field}.position`, 'is required and must be an array of 3 numbers');
+        }
+        if (annotation.image !== undefined && typeof annotation.image !== 'string') {
+          report(`${field}.image`, 'must be a string');
+        }
+        if (annotation.linkedSceneId !== undefined && typeof annotation.linkedSceneId !== 'string') {
+          report(`${field}.linkedSceneId`, 'must be a string');
+        }
+      });
+    }
+  }
+
+  const viewpoints = entry.viewpoints;
+  if (viewpoints !== undefined) {
+    if (!Array.isArray(viewpoints)) {
+      report('viewpoints', 'must be an array');
+    } else {
+      viewpoints.forEach((viewpoint, i) => {
+        const field = `viewpoints[${i}]`;
+        if (!isRecord(viewpoint)) {
+          report(field, 'must be an object');
+          return;
+        }
+        if (typeof viewpoint.name !== 'string' || viewpoint.name.trim() === '') {
+          report(`${field}.name`, 'is required and must be a non-empty string');
+        }
+        if (!isNumberTuple(viewpoint.position, 3)) {
+          report(`${field}.position`, 'is required and must be an array of 3 numbers');
+        }
+        if (!isNumberTuple(viewpoint.target, 3)) {
+          report(`${field}.target`, 'is required and must be an array of 3 numbers');
+        }
+        if (
+          viewpoint.fov !== undefined &&
+          (!isFiniteNumber(viewpoint.fov) || viewpoint.fov <= 0 || viewpoint.fov >= 180)
+        ) {
+          report(`${field}.fov`, 'must be a number between 0 and 180');
+        }
+      });
+    }
+  }
+
+  const crop = entry.crop;
+  if (crop !== undefined) {
+    if (!isRecord(crop)) {
+      report('crop', 'must be an object');
+    } else if (!(CROP_SHAPES as unknown[]).includes(crop.shape)) {
+      report('crop.shape', `must be one of ${CROP_SHAPES.join(', ')}`);
+    } else {
+      if (crop.keep !== undefined && crop.keep !== 'inside' && crop.keep !== 'outside') {
+        report('crop.keep', 'must be "inside" or "outside"');
+      }
+      if (crop.shape === 'box' || crop.shape === 'cylinder') {
+        if (!isNumberTuple(crop.center, 3)) {
+          report('crop.center', 'is required and must be an array of 3 numbers [x, y, z]');
+        }
+      }
+      if (crop.shape === 'box') {
+        if (!isNumberTuple(crop.size, 3) || (crop.size as number[]).some(v => v <= 0)) {
+          report('crop.size', 'is required and must be an array of 3 positive numbers');
+        }
+        if (crop.quaternion !== undefined) {
+          if (!isNumberTuple(crop.quaternion, 4)) {
+            report('crop.quaternion', 'must be an array of 4 numbers [x, y, z, w]');
+          } else if ((crop.quaternion as number[]).every(v => v === 0)) {
+            report('crop.quaternion', 'must not be all zeros');
+          }
+        }
+      }
+      if (crop.shape === 'cylinder') {
+        if (!isFiniteNumber(crop.radius) || crop.radius <= 0) {
+          report('crop.radius', 'is required and must be a positive number');
+        }
+        if (!isFiniteNumber(crop.height) || crop.height <= 0) {
+          report('crop.height', 'is required and must be a positive number');
+        }
+      }
+      if (crop.shape === 'polygon') {
+        if (
+          !Array.isArray(crop.points) ||
+          crop.points.length < 3 ||
+          !crop.points.every(point => isNumberTuple(point, 2))
+        ) {
+          report('crop.points', 'is required and must be an array of at least 3 [x, z] points');
+        }
+      }
+      if (crop.shape === 'polygon' || crop.shape === 'band') {
+        if (crop.minY !== undefined && !isFiniteNumber(crop.minY)) {
+          report('crop.minY', 'must be a number');
+        }
+        if (crop.maxY !== undefined && !isFiniteNumber(crop.maxY)) {
+          report('crop.maxY', 'must be a number');
+        }
+        if (isFiniteNumber(crop.minY) && isFiniteNumber(crop.maxY) && crop.minY >= crop.maxY) {
+          report('crop.maxY', 'must be greater than minY');
+        }
+        if (crop.shape === 'band' && crop.minY === undefined && crop.maxY === undefined) {
+          report('crop', 'a band needs minY, maxY or both');
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Validates a single entry against the SceneMetadata shape, e.g. a scene edited in the browser
+ * @param index - Reported as the entry's index in the issues
+ * @returns The problems found (empty if the entry is valid)
+ */
+export function validateScene(entry: unknown, index: number = 0): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+  validateSceneEntry(entry, index, issues);
+  return issues;
+}
+
+/**
+ * Validates parsed manifest JSON against the SceneMetadata shape
+ * @throws SceneManifestError listing every problem found
+ */
+export function validateSceneManifest(data: unknown): SceneManifest {
+  if (!isRecord(data)) {
+    throw new SceneManifestError('Scene manifest must be a JSON object');
+  }
+
+  const issues: ManifestIssue[] = [];
+
+  if (data.version !== SCENE_MANIFEST_VERSION) {
+    issues.push({
+      index: -1,
+      field: 'version',
+      message: `unsupported version ${JSON.stringify(data.version)} (expected ${SCENE_MANIFEST_VERSION})`
+    });
+  }
+
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    issues.push({ index: -1, field: 'title', message: 'must be a string' });
+  }
+
+  if (!Array.isArray(data.scenes)) {
+    issues.push({ index: -1, field: 'scenes', message: 'is required and must be an array' });
+    throw new SceneManifestError('Invalid scene manifest', issues);
+  }
+
+  const seenIds = new Map<string, number>();
+  data.scenes.forEach((entry, index) => {
+    validateSceneEntry(entry, index, issues);
+
+    if (isRecord(entry) && typeof entry.id === 'string') {
+      const firstIndex = seenIds.get(entry.id);
+      if (firstIndex !== undefined) {
+        issues.push({
+          index,
+          id: entry.id,
+          field: 'id',
+          message: `duplicate id (first used by scenes[${firstIndex}])`
+        });
+      } else {
+        seenIds.set(entry.id, index);
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new SceneManifestError('Invalid scene manifest', issues);
+  }
+
+  return {
+    version: data.version as number,
+    title: data.title as string | undefined,
+    scenes: data.scenes as SceneMetadata[]
+  };
+}
+
+/**
+ * Builds a manifest from a scene catalog, e.g. to export edited scenes
+ */
+export function createSceneManifest(scenes: SceneMetadata[], title?: string): SceneManifest {
+  return {
+    version: SCENE_MANIFEST_VERSION,
+    ...(title ? { title } : {}),
+    scenes: scenes.map(scene => ({ ...scene }))
+  };
+}
+
+/**
+ * Fetches and validates a scene manifest
+ * @param source - Local path or same-origin URL of the manifest JSON
+ */
+export async function loadSceneManifest(source: string): Promise<SceneManifest> {
+  const url = new URL(source, window.location.href);
+  if (url.origin !== window.location.origin) {
+    throw new SceneManifestError(`Scene manifest must be same-origin: ${url.href}`);
+  }
+
+  const response = await fetch(url.href);
+  if (!response.ok) {
+    throw new SceneManifestError(
+      `Failed to fetch scene manifest ${url.pathname}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new SceneManifestError(`Scene manifest ${url.pathname} is not valid JSON`);
+  }
+
+  return validateSceneManifest(data);
+}
@@ -0,0 +1,176 @@
+import { SceneMetadata, cloneScene } from './scenes.js';
+import {
+  loadSceneManifest,
+  validateSceneManifest,
+  SCENE_MANIFEST_VERSION
+} from './SceneManifest.js';
+
+/**
+ * SceneSource - Pluggable providers for the scene catalog
+ *
+ * A SceneManager reads its scenes from a SceneSource instead of the global
+ * NARRATIVE_SCENES array, so several independent narratives can run on one
+ * page and navigation can be exercised against small in-memory catalogs.
+ */
+
+export interface SceneSource {
+  /** Human readable name used in log output */
+  readonly name: string;
+
+  /**
+   * Loads the ordered list of scenes provided by this source
+   */
+  load(): Promise<SceneMetadata[]>;
+}
+
+/**
+ * In-memory scene catalog
+ */
+export class ArraySceneSource implements SceneSource {
+  public readonly name: string;
+  private scenes: SceneMetadata[];
+
+  constructor(scenes: SceneMetadata[], name: string = 'in-memory') {
+    this.scenes = scenes;
+    this.name = name;
+  }
+
+  /**
+   * Copies of the entries, so catalog edits in one manager leave the array
+   * (e.g. NARRATIVE_SCENES) and other managers alone
+   */
+  public async load(): Promise<SceneMetadata[]> {
+    return this.scenes.map(cloneScene);
+  }
+}
+
+/**
+ * Scene catalog loaded from a versioned JSON manifest
+ */
+export class ManifestSceneSource implements SceneSource {
+  public readonly name: string;
+  private url: string;
+
+  /**
+   * @param url - Local path or same-origin URL of the manifest JSON
+   */
+  constructor(url: string) {
+    this.url = url;
+    this.name = `manifest ${url}`;
+  }
+
+  public async load(): Promise<SceneMetadata[]> {
+    const manifest = await loadSceneManifest(this.url);
+    return manifest.scenes;
+  }
+}
+
+/**
+ * Scene catalog persisted in an IndexedDB object store
+ * Scenes are stored in narrative order, one record per scene
+ */
+export class IndexedDBSceneSource implements SceneSource {
+  public readonly name: string;
+  private dbName: string;
+  private storeName: string;
+
+  constructor(dbName: string = 'memoryblocks', storeName: string = 'scenes') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+    this.name = `indexeddb ${dbName}/${storeName}`;
+  }
+
+  /**
+   * Opens the database, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'index' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async load(): Promise<SceneMetadata[]> {
+    const db = await this.open();
+    try {
+      const records = await new Promise<{ index: number; scene: SceneMetadata }[]>(
+        (resolve, reject) => {
+          const request = db
+            .transaction(this.storeName, 'readonly')
+            .objectStore(this.storeName)
+            .getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        }
+      );
+
+      const scenes = records.map(record => record.scene);
+      return validateSceneManifest({ version: SCENE_MANIFEST_VERSION, scenes }).scenes;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Replaces the stored catalog with the given scenes
+   */
+  public async save(scenes: SceneMetadata[]): Promise<void> {
+    const db = await this.open();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(this.storeName, 'readwrite');
+        const store = transaction.objectStore(this.storeName);
+        store.clear();
+        scenes.forEach((scene, index) => store.put({ index, scene }));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * Tries each source in turn and uses the first one that yields scenes
+ * Useful for an optional manifest backed by the built-in catalog
+ */
+export class FallbackSceneSource implements SceneSource {
+  public readonly name: string;
+  private sources: SceneSource[];
+
+  constructor(sources: SceneSource[]) {
+    this.sources = sources;
+    this.name = sources.map(source => source.name).join(' -> ');
+  }
+
+  public async load(): Promise<SceneMetadata[]> {
+    let lastError: unknown = null;
+
+    for (const source of this.sources) {
+      try {
+        const scenes = await source.load();
+        if (scenes.length > 0) {
+          return scenes;
+        }
+        console.warn(`Scene source ${source.name} contains no scenes - trying next source`);
+      } catch (error) {
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Scene source ${source.name} failed - trying next source:\n${message}`);
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+    return [];
+  }
+}
@@ -0,0 +1,245 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { NeRFLoader, LoadedNeRFModel, DetachedModel } from './NeRFLoader.js';
+import { setSplatOpacity } from './SplatEffects.js';
+import { tween, Easing } from './Tween.js';
+
+/**
+ * SceneTransition - Animated transitions between scenes
+ *
+ * Keeps the outgoing model visible while the incoming one loads, then plays
+ * the selected transition and only releases the outgoing model (to the cache
+ * or disposal) once the transition has finished.
+ *
+ * Styles:
+ * - cut:       hard cut, the outgoing model is released immediately
+ * - crossfade: outgoing fades out while the incoming model fades in
+ * - dissolve:  outgoing sinks through the platform, incoming rises out of it
+ * - fly:       camera flies out while loading and back in on the new model
+ */
+
+export type TransitionStyle = 'cut' | 'crossfade' | 'dissolve' | 'fly';
+
+export const TRANSITION_STYLES: TransitionStyle[] = ['cut', 'crossfade', 'dissolve', 'fly'];
+
+export interface TransitionOptions {
+  style: TransitionStyle;
+  /** Duration of the visible part of the transition in milliseconds */
+  duration: number;
+}
+
+export interface SceneTransitionConfig extends Partial<TransitionOptions> {
+  camera?: THREE.Camera;
+  controls?: OrbitControls;
+}
+
+interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+export class SceneTransitionController {
+  private nerfLoader: NeRFLoader;
+  private camera?: THREE.Camera;
+  private controls?: OrbitControls;
+  private options: TransitionOptions;
+
+  constructor(nerfLoader: NeRFLoader, config: SceneTransitionConfig = {}) {
+    this.nerfLoader = nerfLoader;
+    this.camera = config.camera;
+    this.controls = config.controls;
+    this.options = {
+      style: config.style ?? 'crossfade',
+      duration: config.duration ?? 1200
+    };
+  }
+
+  /**
+   * Updates the transition style and/or duration used for the next scene switch
+   */
+  public setOptions(options: Partial<TransitionOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Gets the current transition options
+   */
+  public getOptions(): TransitionOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Switches scenes with the configured transition
+   * @param load - Loads the incoming model with the given initial opacity
+   * @param signal - Aborting skips the remaining animation
+   * @returns The loaded incoming model
+   */
+  public async run(
+    load: (initialOpacity: number) => Promise<LoadedNeRFModel>,
+    signal?: AbortSignal
+  ): Promise<LoadedNeRFModel> {
+    const { style, duration } = this.options;
+    if (style === 'cut' || duration <= 0) {
+      return load(1);
+    }
+
+    const outgoing = this.nerfLoader.detachCurrentModel();
+    const cameraPose = style === 'fly' ? this.captureCameraPose() : null;
+
+    // Local controller so a failed load can stop the out phase early
+    const phase = new AbortController();
+    const onAbort = () => phase.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    const outPhase = this.playOutPhase(style, outgoing, cameraPose, duration / 2, phase.signal);
+
+    try {
+      const loaded = await load(0);
+      await outPhase;
+      await this.playInPhase(style, outgoing, loaded, cameraPose, duration, phase.signal);
+      return loaded;
+    } catch (error) {
+      phase.abort();
+      await outPhase;
+      if (cameraPose) {
+        this.applyCameraPose(cameraPose);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (outgoing) {
+        this.nerfLoader.releaseDetachedModel(outgoing);
+      }
+    }
+  }
+
+  /**
+   * Animation played while the incoming model is loading
+   */
+  private playOutPhase(
+    style: TransitionStyle,
+    outgoing: DetachedModel | null,
+    cameraPose: CameraPose | null,
+    duration: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (style === 'dissolve' && outgoing) {
+      const startY = outgoing.group.position.y;
+      const depth = this.getModelHeight(outgoing.handle.model);
+      return tween(duration, (t) => {
+        outgoing.group.position.y = startY - depth * t;
+      }, { easing: Easing.easeInCubic, signal });
+    }
+
+    if (style === 'fly' && cameraPose) {
+      const outPose = this.getFlyOutPose(cameraPose);
+      return tween(duration, (t) => {
+        this.lerpCameraPose(cameraPose, outPose, t);
+      }, { signal });
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Animation played once the incoming model is ready
+   */
+  private async playInPhase(
+    style: TransitionStyle,
+    outgoing: DetachedModel | null,
+    loaded: LoadedNeRFModel,
+    cameraPose: CameraPose | null,
+    duration: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    const incoming = loaded.model;
+    const crossfade = (t: number) => {
+      setSplatOpacity(incoming, t);
+      if (outgoing) {
+        setSplatOpacity(outgoing.handle.model, 1 - t);
+      }
+    };
+
+    switch (style) {
+      case 'crossfade':
+        await tween(duration, crossfade, { signal });
+        break;
+
+      case 'dissolve': {
+        // Rise the incoming model up through the platform floor clip plane
+        const depth = loaded.boundingBox.isEmpty()
+          ? 0
+          : loaded.boundingBox.max.y - loaded.boundingBox.min.y;
+
+        this.nerfLoader.setTransitionOffset(-depth);
+        setSplatOpacity(incoming, 1);
+        try {
+          await tween(duration / 2, (t) => {
+            this.nerfLoader.setTransitionOffset(-depth * (1 - t));
+          }, { easing: Easing.easeOutCubic, signal });
+        } finally {
+          this.nerfLoader.setTransitionOffset(0);
+        }
+        break;
+      }
+
+      case 'fly': {
+        const outPose = cameraPose ? this.captureCameraPose() : null;
+        await Promise.all([
+          tween(duration / 2, crossfade, { signal }),
+          cameraPose && outPose
+            ? tween(duration / 2, (t) => this.lerpCameraPose(outPose, cameraPose, t), { signal })
+            : Promise.resolve()
+        ]);
+        break;
+      }
+
+      default:
+        crossfade(1);
+    }
+  }
+
+  /**
+   * World-space height of a model, used to sink it fully below the platform
+   */
+  private getModelHeight(model: THREE.Object3D & { boundingBox?: THREE.Box3 }): number {
+    if (!model.boundingBox || model.boundingBox.isEmpty()) return 0;
+    model.updateWorldMatrix(true, false);
+    const box = model.boundingBox.clone().applyMatrix4(model.matrixWorld);
+    return box.max.y - box.min.y;
+  }
+
+  private captureCameraPose(): CameraPose | null {
+    if (!this.camera) return null;
+    return {
+      position: this.camera.position.clone(),
+      target: this.controls ? this.controls.target.clone() : new THREE.Vector3()
+    };
+  }
+
+  /**
+   * Pulls the camera back and up from its target
+   */
+  private getFlyOutPose(pose: CameraPose): CameraPose {
+    const offset = pose.position.clone().sub(pose.target);
+    const distance = offset.length();
+    const position = pose.target.clone()
+      .add(offset.multiplyScalar(2.5))
+      .add(new THREE.Vector3(0, distance, 0));
+    return { position, target: pose.target.clone() };
+  }
+
+  private lerpCameraPose(from: CameraPose, to: CameraPose, t: number): void {
+    if (!this.camera) return;
+    this.camera.position.lerpVectors(from.position, to.position, t);
+    const target = new THREE.Vector3().lerpVectors(from.target, to.target, t);
+    if (this.controls) {
+      this.controls.target.copy(target);
+    }
+    this.camera.lookAt(target);
+  }
+
+  private applyCameraPose(pose: CameraPose): void {
+    this.lerpCameraPose(pose, pose, 1);
+  }
+}
@@ -0,0 +1,154 @@
+import { SplatModel } from './SplatSource.js';
+
+/**
+ * SplatCache - Bounded LRU cache of hidden splat instances
+ *
+ * Keeps recently shown and preloaded splat models alive so that
+ * returning to (or advancing into) a scene does not download it again.
+ * The cache is bounded by entry count and by estimated GPU memory; the least
+ * recently used entries are handed to the eviction callback for disposal.
+ */
+
+export interface SplatCacheOptions {
+  /** Maximum number of cached splats (default 3) */
+  maxEntries?: number;
+  /** Maximum estimated GPU memory of all cached splats in bytes (default 512 MB) */
+  maxBytes?: number;
+}
+
+/**
+ * A splat model together with the adapter that loaded it and its readiness state
+ */
+export interface SplatHandle {
+  url: string;
+  model: SplatModel;
+  /** Name of the source adapter that created the model */
+  source: string;
+  /** Settles when the splat data is loaded (rejects if the download fails) */
+  ready: Promise<void>;
+  isReady: boolean;
+  /** Number of splats loaded so far */
+  getSplatCount(): number;
+}
+
+export interface SplatCacheStats {
+  entries: number;
+  estimatedBytes: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * Rough GPU footprint of one splat: gaussian textures, SH coefficients,
+ * sort indices and CPU-side points. Only used for cache budgeting.
+ */
+const ESTIMATED_BYTES_PER_SPLAT = 64;
+
+/**
+ * Estimates the GPU memory used by a splat from the number of loaded splats
+ */
+export function estimateSplatBytes(handle: SplatHandle): number {
+  return handle.getSplatCount() * ESTIMATED_BYTES_PER_SPLAT;
+}
+
+export class SplatCache {
+  // Map iteration order doubles as recency order: first entry is least recently used
+  private entries = new Map<string, SplatHandle>();
+  private maxEntries: number;
+  private maxBytes: number;
+  private onEvict: (handle: SplatHandle) => void;
+
+  constructor(options: SplatCacheOptions, onEvict: (handle: SplatHandle) => void) {
+    this.maxEntries = options.maxEntries ?? 3;
+    this.maxBytes = options.maxBytes ?? 512 * 1024 * 1024;
+    this.onEvict = onEvict;
+  }
+
+  /**
+   * Whether a splat for the URL is cached
+   */
+  public has(url: string): boolean {
+    return this.entries.has(url);
+  }
+
+  /**
+   * Removes and returns the cached splat for the URL without evicting it
+   * Used when a cached splat becomes the displayed model
+   */
+  public take(url: string): SplatHandle | undefined {
+    const handle = this.entries.get(url);
+    this.entries.delete(url);
+    return handle;
+  }
+
+  /**
+   * Adds a splat as the most recently used entry and evicts over-budget entries
+   */
+  public put(handle: SplatHandle): void {
+    const existing = this.entries.get(handle.url);
+    if (existing && existing !== handle) {
+      this.entries.delete(handle.url);
+      this.onEvict(existing);
+    }
+
+    this.entries.delete(handle.url);
+    this.entries.set(handle.url, handle);
+    this.enforceLimits();
+  }
+
+  /**
+   * Removes a splat from the cache and passes it to the eviction callback
+   */
+  public evict(url: string): void {
+    const handle = this.entries.get(url);
+    if (handle) {
+      this.entries.delete(url);
+      this.onEvict(handle);
+    }
+  }
+
+  /**
+   * Evicts least recently used entries until the cache is within its limits
+   * Call again when cached splats finish loading, as their size grows
+   */
+  public enforceLimits(): void {
+    while (
+      this.entries.size > 0 &&
+      (this.entries.size > this.maxEntries || this.getEstimatedBytes() > this.maxBytes)
+    ) {
+      const oldest = this.entries.keys().next().value as string;
+      console.log(`Splat cache over budget - evicting ${oldest}`);
+      this.evict(oldest);
+    }
+  }
+
+  /**
+   * Total estimated GPU memory of the cached splats
+   */
+  public getEstimatedBytes(): number {
+    let total = 0;
+    this.entries.forEach(handle => {
+      total += estimateSplatBytes(handle);
+    });
+    return total;
+  }
+
+  /**
+   * Gets the cache usage and limits
+   */
+  public getStats(): SplatCacheStats {
+    return {
+      entries: this.entries.size,
+      estimatedBytes: this.getEstimatedBytes(),
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes
+    };
+  }
+
+  /**
+   * Evicts every cached splat
+   */
+  public clear(): void {
+    [...this.entries.keys()].forEach(url => this.evict(url));
+  }
+}
@@ -0,0 +1,58 @@
+import { LumaSplatsThree } from '@lumaai/luma-web';
+import { SplatModel } from './SplatSource.js';
+
+/**
+ * SplatEffects - Per-model effects for splats of any source
+ *
+ * Luma splats are not affected by material.opacity, so per-model effects are
+ * injected through LumaSplatsThree.setShaderHooks with uniforms that can be
+ * animated without recompiling the shader. Models with their own opacity
+ * control (e.g. GaussianSplatMesh) use that instead.
+ */
+
+interface OpacityUniform {
+  value: number;
+}
+
+/**
+ * Sets the opacity of every splat in a model
+ * The shader hook is only installed the first time opacity differs from 1
+ */
+export function setSplatOpacity(model: SplatModel, opacity: number): void {
+  if (model.setOpacity) {
+    model.setOpacity(opacity);
+    return;
+  }
+  if (!(model instanceof LumaSplatsThree)) return;
+
+  let uniform = model.userData.opacityUniform as OpacityUniform | undefined;
+
+  if (!uniform) {
+    if (opacity === 1) return;
+
+    uniform = { value: opacity };
+    model.userData.opacityUniform = uniform;
+    model.setShaderHooks({
+      vertexShaderHooks: {
+        additionalUniforms: {
+          uSplatOpacity: ['float', uniform]
+        },
+        getSplatColor: /* glsl */ `(vec4 splatColor, vec3 splatPosition, uint layersBitmask) {
+          return vec4(splatColor.rgb, splatColor.a * uSplatOpacity);
+        }`
+      }
+    });
+  }
+
+  uniform.value = opacity;
+}
+
+/**
+ * Gets the current opacity of a model (1 if never changed)
+ */
+export function getSplatOpacity(model: SplatModel): number {
+  if (model.getOpacity) return model.getOpacity();
+
+  const uniform = model.userData.opacityUniform as OpacityUniform | undefined;
+  return uniform ? uniform.value : 1;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { detectSplatFormat, parseSplatData, sniffSplatFormat } from './SplatFormats.js';
+
+interface TestSplat {
+  position: [number, number, number];
+  scale: [number, number, number];
+  /** [w, x, y, z] */
+  rotation: [number, number, number, number];
+  color: [number, number, number, number];
+}
+
+const SPLATS: TestSplat[] = [
+  { position: [1.0000305, 2, 3], scale: [0.5, 0.25, 0.125], rotation: [1, 0, 0, 0], color: [255, 128, 0, 200] },
+  { position: [-4, 5.5, -6], scale: [1, 2, 4], rotation: [0, 0, 1, 0], color: [10, 20, 30, 40] }
+];
+
+function createSplatFile(splats: TestSplat[]): ArrayBuffer {
+  const buffer = new ArrayBuffer(splats.length * 32);
+  const view = new DataView(buffer);
+  splats.forEach(({ position, scale, rotation, color }, i) => {
+    const base = i * 32;
+    [...position, ...scale].forEach((value, k) => view.setFloat32(base + k * 4, value, true));
+    color.forEach((value, k) => view.setUint8(base + 24 + k, value));
+    rotation.forEach((value, k) => view.setUint8(base + 28 + k, Math.min(255, Math.round(value * 128 + 128))));
+  });
+  return buffer;
+}
+
+/**
+ * Binary little endian PLY with 3DGS properties in activation space
+ */
+function createPlyFile(splats: TestSplat[], lineBreak: string = '\n'): ArrayBuffer {
+  const properties = [
+    'x', 'y', 'z', 'f_dc_0', 'f_dc_1', 'f_dc_2', 'opacity',
+    'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3'
+  ];
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment written by a test',
+    `element vertex ${splats.length}`,
+    ...properties.map(name => `property float ${name}`),
+    'end_header'
+  ].join(lineBreak) + lineBreak;
+
+  const headerBytes = new TextEncoder().encode(header);
+  const buffer = new ArrayBuffer(headerBytes.length + splats.length * properties.length * 4);
+  new Uint8Array(buffer).set(headerBytes);
+  const view = new DataView(buffer);
+  splats.forEach(({ position, scale, rotation }, i) => {
+    const values = [...position, 0, 0, 0, 0, ...scale.map(Math.log), ...rotation];
+    values.forEach((value, k) => view.setFloat32(headerBytes.length + (i * properties.length + k) * 4, value, true));
+  });
+  return buffer;
+}
+
+/**
+ * Uncompressed (level 0) GaussianSplats3D buffer with one section
+ * @param splatCount - Splat count in the file header (default all of them)
+ */
+function createKSplatFile(splats: TestSplat[], splatCount: number = splats.length): ArrayBuffer {
+  const bytesPerSplat = 44;
+  const dataBase = 4096 + 1024;
+  const buffer = new ArrayBuffer(dataBase + splats.length * bytesPerSplat);
+  const view = new DataView(buffer);
+
+  view.setUint8(0, 0);
+  view.setUint8(1, 1);
+  view.setUint32(4, 1, true);
+  view.setUint32(8, 1, true);
+  view.setUint32(12, splats.length, true);
+  view.setUint32(16, splatCount, true);
+  view.setUint16(20, 0, true);
+
+  view.setUint32(4096, splats.length, true);
+  view.setUint32(4096 + 4, splats.length, true);
+
+  splats.forEach(({ position, scale, rotation, color }, i) => {
+    const base = dataBase + i * bytesPerSplat;
+    [...position, ...scale, ...rotation].forEach((value, k) => view.setFloat32(base + k * 4, value, true));
+    color.forEach((value, k) => view.setUint8(base + 40 + k, value));
+  });
+  return buffer;
+}
+
+describe('detectSplatFormat', () => {
+  it('reads the MIME type before the extension', () => {
+    expect(detectSplatFormat('https://example.com/scene.PLY?token=1#view')).toBe('ply');
+    expect(detectSplatFormat('blob:https://example.com/1234', 'application/x-ksplat')).toBe('ksplat');
+    expect(detectSplatFormat('https://example.com/scene.zip')).toBeNull();
+  });
+});
+
+describe('sniffSplatFormat', () => {
+  it('recognizes PLY headers with LF and CRLF line breaks', () => {
+    expect(sniffSplatFormat(createPlyFile(SPLATS))).toBe('ply');
+    expect(sniffSplatFormat(createPlyFile(SPLATS, '\r\n'))).toBe('ply');
+  });
+
+  it('recognizes ksplat headers', () => {
+    expect(sniffSplatFormat(createKSplatFile(SPLATS))).toBe('ksplat');
+  });
+
+  it('does not take .splat data starting like a ksplat version for ksplat', () => {
+    // 1.0000305 is stored as 00 01 80 3f, which reads as version 0.1
+    const splats = Array.from({ length: 160 }, () => SPLATS[0]);
+    const buffer = createSplatFile(splats);
+    expect(new Uint8Array(buffer, 0, 2)).toEqual(new Uint8Array([0, 1]));
+    expect(sniffSplatFormat(buffer)).toBe('splat');
+  });
+
+  it('gives up on unknown data', () => {
+    expect(sniffSplatFormat(new ArrayBuffer(0))).toBeNull();
+    expect(sniffSplatFormat(new ArrayBuffer(33))).toBeNull();
+  });
+});
+
+function expectSplats(buffer: ArrayBuffer, format: 'ply' | 'splat' | 'ksplat', splats: TestSplat[]): void {
+  const data = parseSplatData(buffer, format);
+  expect(data.count).toBe(splats.length);
+  splats.forEach(({ position, scale, rotation }, i) => {
+    position.forEach((value, k) => expect(data.positions[i * 3 + k]).toBeCloseTo(value, 5));
+    scale.forEach((value, k) => expect(data.scales[i * 3 + k]).toBeCloseTo(value, 5));
+    // Stored as [x, y, z, w]
+    const [w, x, y, z] = rotation;
+    [x, y, z, w].forEach((value, k) => expect(data.rotations[i * 4 + k]).toBeCloseTo(value, 2));
+  });
+}
+
+describe('parseSplatData', () => {
+  it('parses .splat rows', () => {
+    const buffer = createSplatFile(SPLATS);
+    expectSplats(buffer, 'splat', SPLATS);
+    expect([...parseSplatData(buffer, 'splat').colors]).toEqual(SPLATS.flatMap(splat => splat.color));
+  });
+
+  it('rejects .splat data of the wrong size', () => {
+    expect(() => parseSplatData(new ArrayBuffer(40), 'splat')).toThrow('not a multiple of 32 bytes');
+  });
+
+  it('parses 3DGS PLY files with LF and CRLF headers', () => {
+    [createPlyFile(SPLATS), createPlyFile(SPLATS, '\r\n')].forEach(buffer => {
+      expectSplats(buffer, 'ply', SPLATS);
+      // Zero spherical harmonics and logit opacity are mid gray at half opacity
+      expect([...parseSplatData(buffer, 'ply').colors.subarray(0, 4)]).toEqual([128, 128, 128, 128]);
+    });
+  });
+
+  it('rejects ASCII and truncated PLY files', () => {
+    const ascii = new TextEncoder().encode('ply\nformat ascii 1.0\nelement vertex 1\nproperty float x\nend_header\n1\n');
+    expect(() => parseSplatData(ascii.buffer, 'ply')).toThrow('binary_little_endian only');
+
+    const truncated = createPlyFile(SPLATS).slice(0, -4);
+    expect(() => parseSplatData(truncated, 'ply')).toThrow('truncated');
+  });
+
+  it('parses uncompressed ksplat buffers', () => {
+    const buffer = createKSplatFile(SPLATS);
+    expectSplats(buffer, 'ksplat', SPLATS);
+    expect([...parseSplatData(buffer, 'ksplat').colors]).toEqual(SPLATS.flatMap(splat => splat.color));
+  });
+
+  it('stops at the splat count of the ksplat header', () => {
+    expectSplats(createKSplatFile(SPLATS, 1), 'ksplat', SPLATS.slice(0, 1));
+  });
+
+  it('rejects ksplat headers announcing more splats than the data holds', () => {
+    const buffer = createKSplatFile(SPLATS, 0xffffffff);
+    expect(() => parseSplatData(buffer, 'ksplat')).toThrow('announces 4294967295 splats, but its data holds at most 2');
+  });
+
+  it('rejects unsupported ksplat versions', () => {
+    const buffer = createKSplatFile(SPLATS);
+    new DataView(buffer).setUint8(0, 1);
+    expect(() => parseSplatData(buffer, 'ksplat')).toThrow('.ksplat version 1.1 is not supported');
+  });
+});
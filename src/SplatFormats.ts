@@ -0,0 +1,468 @@
+/**
+ * SplatFormats - Parsers for Gaussian splat files
+ *
+ * Decodes the common splat file formats into one flat layout that
+ * GaussianSplatMesh can upload:
+ * - ply:    3D Gaussian Splatting training output (binary little endian PLY)
+ *           or plain colored point clouds
+ * - splat:  32 bytes per splat (position, scale, RGBA, quantized rotation)
+ * - ksplat: GaussianSplats3D buffers, compression levels 0 to 2
+ *
+ * Spherical harmonics beyond the base color are skipped.
+ */
+
+export type SplatFormat = 'ply' | 'splat' | 'ksplat';
+
+export const SPLAT_FORMATS: SplatFormat[] = ['ply', 'splat', 'ksplat'];
+
+export interface SplatData {
+  count: number;
+  /** Center [x, y, z] per splat */
+  positions: Float32Array;
+  /** Standard deviation along the local axes [x, y, z] per splat */
+  scales: Float32Array;
+  /** Unit quaternion [x, y, z, w] per splat */
+  rotations: Float32Array;
+  /** [r, g, b, a] per splat, alpha is the splat opacity */
+  colors: Uint8Array;
+}
+
+const MIME_TYPES: Record<string, SplatFormat> = {
+  'application/ply': 'ply',
+  'model/ply': 'ply',
+  'text/plain+ply': 'ply',
+  'application/x-ply': 'ply',
+  'application/x-splat': 'splat',
+  'application/x-ksplat': 'ksplat'
+};
+
+/**
+ * Detects the splat format from a MIME type or the URL's file extension
+ * @returns null if neither names a known format
+ */
+export function detectSplatFormat(url: string, mimeType?: string): SplatFormat | null {
+  const mime = mimeType?.split(';')[0].trim().toLowerCase();
+  if (mime && MIME_TYPES[mime]) return MIME_TYPES[mime];
+
+  // Ignore query and fragment, e.g. signed URLs
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  const extension = path.slice(path.lastIndexOf('.') + 1);
+  return (SPLAT_FORMATS as string[]).includes(extension) ? extension as SplatFormat : null;
+}
+
+/**
+ * Guesses the splat format from the first bytes of a file
+ */
+export function sniffSplatFormat(buffer: ArrayBuffer): SplatFormat | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 5));
+  if (/^ply\r?\n/.test(String.fromCharCode(...bytes))) return 'ply';
+  if (isKSplatHeader(buffer)) return 'ksplat';
+  if (buffer.byteLength > 0 && buffer.byteLength % SPLAT_ROW_BYTES === 0) return 'splat';
+  return null;
+}
+
+/**
+ * Parses a splat file of the given format
+ * @throws Error if the data is not valid for the format
+ */
+export function parseSplatData(buffer: ArrayBuffer, format: SplatFormat): SplatData {
+  switch (format) {
+    case 'ply':
+      return parsePly(buffer);
+    case 'splat':
+      return parseSplat(buffer);
+    case 'ksplat':
+      return parseKSplat(buffer);
+  }
+}
+
+function allocate(count: number): SplatData {
+  return {
+    count,
+    positions: new Float32Array(count * 3),
+    scales: new Float32Array(count * 3),
+    rotations: new Float32Array(count * 4),
+    colors: new Uint8Array(count * 4)
+  };
+}
+
+/**
+ * Stores a quaternion given in [w, x, y, z] order, normalized
+ */
+function setRotation(data: SplatData, i: number, w: number, x: number, y: number, z: number): void {
+  const length = Math.hypot(w, x, y, z) || 1;
+  data.rotations.set([x / length, y / length, z / length, w / length], i * 4);
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+// ---------------------------------------------------------------------------
+// .splat
+// ---------------------------------------------------------------------------
+
+const SPLAT_ROW_BYTES = 32;
+
+/**
+ * Parses the .splat layout: position (3 x f32), scale (3 x f32),
+ * color (4 x u8) and rotation (4 x u8 as [w, x, y, z] mapped from 0..255 to -1..1)
+ */
+function parseSplat(buffer: ArrayBuffer): SplatData {
+  if (buffer.byteLength % SPLAT_ROW_BYTES !== 0) {
+    throw new Error(`.splat data size ${buffer.byteLength} is not a multiple of ${SPLAT_ROW_BYTES} bytes`);
+  }
+
+  const count = buffer.byteLength / SPLAT_ROW_BYTES;
+  const floats = new Float32Array(buffer);
+  const bytes = new Uint8Array(buffer);
+  const data = allocate(count);
+
+  for (let i = 0; i < count; i++) {
+    const f = i * 8;
+    const b = i * SPLAT_ROW_BYTES;
+    data.positions.set(floats.subarray(f, f + 3), i * 3);
+    data.scales.set(floats.subarray(f + 3, f + 6), i * 3);
+    data.colors.set(bytes.subarray(b + 24, b + 28), i * 4);
+    const q = (k: number) => (bytes[b + 28 + k] - 128) / 128;
+    setRotation(data, i, q(0), q(1), q(2), q(3));
+  }
+
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// .ply
+// ---------------------------------------------------------------------------
+
+const PLY_TYPES: Record<string, { size: number; read: (view: DataView, offset: number) => number }> = {
+  char: { size: 1, read: (v, o) => v.getInt8(o) },
+  int8: { size: 1, read: (v, o) => v.getInt8(o) },
+  uchar: { size: 1, read: (v, o) => v.getUint8(o) },
+  uint8: { size: 1, read: (v, o) => v.getUint8(o) },
+  short: { size: 2, read: (v, o) => v.getInt16(o, true) },
+  int16: { size: 2, read: (v, o) => v.getInt16(o, true) },
+  ushort: { size: 2, read: (v, o) => v.getUint16(o, true) },
+  uint16: { size: 2, read: (v, o) => v.getUint16(o, true) },
+  int: { size: 4, read: (v, o) => v.getInt32(o, true) },
+  int32: { size: 4, read: (v, o) => v.getInt32(o, true) },
+  uint: { size: 4, read: (v, o) => v.getUint32(o, true) },
+  uint32: { size: 4, read: (v, o) => v.getUint32(o, true) },
+  float: { size: 4, read: (v, o) => v.getFloat32(o, true) },
+  float32: { size: 4, read: (v, o) => v.getFloat32(o, true) },
+  double: { size: 8, read: (v, o) => v.getFloat64(o, true) },
+  float64: { size: 8, read: (v, o) => v.getFloat64(o, true) }
+};
+
+// Zeroth order spherical harmonics basis, converts f_dc_* to a color
+const SH_C0 = 0.28209479177387814;
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: Array<{ name: string; type: string }>;
+}
+
+/**
+ * Parses a binary little endian PLY file
+ * 3DGS properties (f_dc_*, opacity, scale_*, rot_*) are decoded from their
+ * activation space; files with only red/green/blue get small round splats.
+ */
+function parsePly(buffer: ArrayBuffer): SplatData {
+  // The header is ASCII and ends with "end_header" and a LF or CRLF line
+  // break; a single byte decoding keeps string indices equal to byte offsets
+  const head = new TextDecoder('latin1').decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64 * 1024)));
+  const headerEnd = /end_header\r?\n/.exec(head);
+  if (!/^ply\r?\n/.test(head) || !headerEnd) {
+    throw new Error('Not a PLY file');
+  }
+
+  const elements: PlyElement[] = [];
+  let format = '';
+  head.slice(0, headerEnd.index).split(/\r?\n/).forEach(line => {
+    const [keyword, ...args] = line.trim().split(/\s+/);
+    if (keyword === 'format') {
+      format = args[0];
+    } else if (keyword === 'element') {
+      elements.push({ name: args[0], count: Number(args[1]), properties: [] });
+    } else if (keyword === 'property') {
+      // List properties (e.g. faces) have no fixed size and are only allowed after the vertices
+      const property = args[0] === 'list' ? { type: 'list', name: args[3] } : { type: args[0], name: args[1] };
+      elements[elements.length - 1]?.properties.push(property);
+    }
+  });
+
+  if (format !== 'binary_little_endian') {
+    throw new Error(`PLY format "${format}" is not supported (binary_little_endian only)`);
+  }
+
+  // Elements are stored one after another; splats are the vertex element
+  let offset = headerEnd.index + headerEnd[0].length;
+  let vertex: PlyElement | null = null;
+  let vertexOffset = 0;
+  for (const element of elements) {
+    const stride = element.properties.reduce((sum, p) => sum + (PLY_TYPES[p.type]?.size ?? NaN), 0);
+    if (Number.isNaN(stride)) {
+      throw new Error(`PLY element "${element.name}" has a list or unknown property type`);
+    }
+    if (element.name === 'vertex') {
+      vertex = element;
+      vertexOffset = offset;
+      break;
+    }
+    offset += stride * element.count;
+  }
+  if (!vertex) {
+    throw new Error('PLY file has no vertex element');
+  }
+  if (vertex.properties.some(p => p.name === 'packed_position')) {
+    throw new Error('Compressed PLY files are not supported');
+  }
+
+  const view = new DataView(buffer);
+  const stride = vertex.properties.reduce((sum, p) => sum + PLY_TYPES[p.type].size, 0);
+  if (vertexOffset + stride * vertex.count > buffer.byteLength) {
+    throw new Error(`PLY file is truncated (expected ${vertex.count} vertices)`);
+  }
+
+  // Property readers by name, relative to the start of a vertex
+  const readers = new Map<string, (base: number) => number>();
+  let propertyOffset = 0;
+  vertex.properties.forEach(({ name, type }) => {
+    const at = propertyOffset;
+    const { read } = PLY_TYPES[type];
+    readers.set(name, base => read(view, base + at));
+    propertyOffset += PLY_TYPES[type].size;
+  });
+  const reader = (name: string) => readers.get(name) ?? null;
+  const required = (name: string) => {
+    const read = reader(name);
+    if (!read) throw new Error(`PLY vertex element has no "${name}" property`);
+    return read;
+  };
+
+  const [x, y, z] = ['x', 'y', 'z'].map(required);
+  const dc = ['f_dc_0', 'f_dc_1', 'f_dc_2'].map(reader);
+  const rgb = ['red', 'green', 'blue'].map(reader);
+  const scale = ['scale_0', 'scale_1', 'scale_2'].map(reader);
+  const rot = ['rot_0', 'rot_1', 'rot_2', 'rot_3'].map(reader);
+  const opacity = reader('opacity');
+  const alpha = reader('alpha');
+  const isGaussian = scale.every(Boolean) && rot.every(Boolean);
+
+  const data = allocate(vertex.count);
+  for (let i = 0; i < vertex.count; i++) {
+    const base = vertexOffset + i * stride;
+    data.positions.set([x(base), y(base), z(base)], i * 3);
+
+    if (dc.every(Boolean)) {
+      dc.forEach((read, k) => { data.colors[i * 4 + k] = clampByte((0.5 + SH_C0 * read!(base)) * 255); });
+    } else if (rgb.every(Boolean)) {
+      rgb.forEach((read, k) => { data.colors[i * 4 + k] = clampByte(read!(base)); });
+    } else {
+      data.colors.fill(255, i * 4, i * 4 + 3);
+    }
+
+    if (opacity) {
+      data.colors[i * 4 + 3] = clampByte(255 / (1 + Math.exp(-opacity(base))));
+    } else {
+      data.colors[i * 4 + 3] = alpha ? clampByte(alpha(base)) : 255;
+    }
+
+    if (isGaussian) {
+      data.scales.set(scale.map(read => Math.exp(read!(base))), i * 3);
+      setRotation(data, i, rot[0]!(base), rot[1]!(base), rot[2]!(base), rot[3]!(base));
+    } else {
+      data.rotations[i * 4 + 3] = 1;
+    }
+  }
+
+  if (!isGaussian) {
+    fillPointScales(data);
+  }
+
+  return data;
+}
+
+/**
+ * Gives point cloud splats a round size based on the average point spacing
+ */
+function fillPointScales(data: SplatData): void {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < data.count * 3; i++) {
+    min[i % 3] = Math.min(min[i % 3], data.positions[i]);
+    max[i % 3] = Math.max(max[i % 3], data.positions[i]);
+  }
+  const diagonal = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+  data.scales.fill(diagonal / Math.cbrt(Math.max(data.count, 1)) / 4);
+}
+
+// ---------------------------------------------------------------------------
+// .ksplat
+// ---------------------------------------------------------------------------
+
+const KSPLAT_HEADER_BYTES = 4096;
+const KSPLAT_SECTION_HEADER_BYTES = 1024;
+
+// Bytes per component and default quantization range by compression level
+const KSPLAT_LEVELS = [
+  { center: 4, scale: 4, rotation: 4, sh: 4, scaleRange: 1 },
+  { center: 2, scale: 2, rotation: 2, sh: 2, scaleRange: 32767 },
+  { center: 2, scale: 2, rotation: 2, sh: 1, scaleRange: 32767 }
+];
+
+const KSPLAT_SH_COMPONENTS = [0, 9, 24];
+
+/**
+ * Whether a buffer starts with a plausible ksplat header: version 0.1,
+ * padding, consistent section and splat counts and a known compression level
+ * Checked field by field, as the first bytes of .splat data can look like a
+ * version number.
+ */
+function isKSplatHeader(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < KSPLAT_HEADER_BYTES) return false;
+
+  const view = new DataView(buffer);
+  const maxSectionCount = view.getUint32(4, true);
+  const sectionCount = view.getUint32(8, true);
+  const maxSplatCount = view.getUint32(12, true);
+  const splatCount = view.getUint32(16, true);
+  return view.getUint8(0) === 0 && view.getUint8(1) === 1 && view.getUint16(2, true) === 0 &&
+    sectionCount > 0 && sectionCount <= maxSectionCount &&
+    splatCount <= maxSplatCount &&
+    view.getUint16(20, true) < KSPLAT_LEVELS.length &&
+    KSPLAT_HEADER_BYTES + maxSectionCount * KSPLAT_SECTION_HEADER_BYTES <= buffer.byteLength;
+}
+
+/**
+ * Decodes an IEEE 754 half precision float
+ */
+function fromHalf(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Parses a GaussianSplats3D .ksplat buffer
+ * Level 0 stores full floats; levels 1 and 2 store centers as 16 bit offsets
+ * from their bucket center and scales and rotations as half floats.
+ */
+function parseKSplat(buffer: ArrayBuffer): SplatData {
+  if (buffer.byteLength < KSPLAT_HEADER_BYTES) {
+    throw new Error('.ksplat data is too short for its header');
+  }
+
+  const view = new DataView(buffer);
+  const versionMajor = view.getUint8(0);
+  const versionMinor = view.getUint8(1);
+  if (versionMajor !== 0 || versionMinor < 1) {
+    throw new Error(`.ksplat version ${versionMajor}.${versionMinor} is not supported`);
+  }
+
+  const maxSectionCount = view.getUint32(4, true);
+  const splatCount = view.getUint32(16, true);
+  const compressionLevel = view.getUint16(20, true);
+  const level = KSPLAT_LEVELS[compressionLevel];
+  if (!level) {
+    throw new Error(`.ksplat compression level ${compressionLevel} is not supported`);
+  }
+
+  if (KSPLAT_HEADER_BYTES + maxSectionCount * KSPLAT_SECTION_HEADER_BYTES > buffer.byteLength) {
+    throw new Error('.ksplat data is too short for its section headers');
+  }
+
+  // Lay out the sections first, so the header count is checked before allocating
+  const sections = [];
+  let sectionBase = KSPLAT_HEADER_BYTES + maxSectionCount * KSPLAT_SECTION_HEADER_BYTES;
+  let capacity = 0;
+  for (let s = 0; s < maxSectionCount; s++) {
+    const header = KSPLAT_HEADER_BYTES + s * KSPLAT_SECTION_HEADER_BYTES;
+    const bucketCount = view.getUint32(header + 12, true);
+    const bucketStorageBytes = view.getUint16(header + 20, true);
+    const partialBucketCount = view.getUint32(header + 36, true);
+    const shDegree = view.getUint16(header + 40, true);
+    const bytesPerSplat = 3 * level.center + 3 * level.scale + 4 * level.rotation + 4 +
+      (KSPLAT_SH_COMPONENTS[shDegree] ?? 0) * level.sh;
+    const bucketsBase = sectionBase + partialBucketCount * 4;
+    const dataBase = bucketsBase + bucketStorageBytes * bucketCount;
+    sections.push({ header, bytesPerSplat, partialLengthsBase: sectionBase, bucketsBase, dataBase });
+
+    const maxSplats = view.getUint32(header + 4, true);
+    capacity += Math.min(maxSplats, Math.floor(Math.max(0, buffer.byteLength - dataBase) / bytesPerSplat));
+    sectionBase = dataBase + bytesPerSplat * maxSplats;
+  }
+  if (splatCount > capacity) {
+    throw new Error(`.ksplat header announces ${splatCount} splats, but its data holds at most ${capacity}`);
+  }
+
+  const data = allocate(splatCount);
+  let index = 0;
+
+  for (let s = 0; s < sections.length; s++) {
+    const { header, bytesPerSplat, partialLengthsBase, bucketsBase, dataBase } = sections[s];
+    const sectionSplats = view.getUint32(header, true);
+    const bucketSize = view.getUint32(header + 8, true);
+    const bucketCount = view.getUint32(header + 12, true);
+    const bucketBlockSize = view.getFloat32(header + 16, true);
+    const bucketStorageBytes = view.getUint16(header + 20, true);
+    const scaleRange = view.getUint32(header + 24, true) || level.scaleRange;
+    const fullBucketCount = view.getUint32(header + 32, true);
+
+    // Sections never add up to more splats than the header announced
+    const readCount = Math.min(sectionSplats, splatCount - index);
+    if (dataBase + bytesPerSplat * readCount > buffer.byteLength) {
+      throw new Error(`.ksplat section ${s} is truncated`);
+    }
+
+    const scaleFactor = bucketBlockSize / 2 / scaleRange;
+    // Splats fill full buckets first, then partially filled buckets of varying length
+    const bucketLength = (b: number) => b < fullBucketCount
+      ? bucketSize
+      : view.getUint32(partialLengthsBase + 4 * (b - fullBucketCount), true);
+    let bucket = 0;
+    let bucketEnd = bucketCount > 0 ? bucketLength(0) : 0;
+
+    for (let i = 0; i < readCount; i++, index++) {
+      const base = dataBase + i * bytesPerSplat;
+
+      if (compressionLevel === 0) {
+        for (let k = 0; k < 3; k++) {
+          data.positions[index * 3 + k] = view.getFloat32(base + k * 4, true);
+          data.scales[index * 3 + k] = view.getFloat32(base + 12 + k * 4, true);
+        }
+        const r = (k: number) => view.getFloat32(base + 24 + k * 4, true);
+        setRotation(data, index, r(0), r(1), r(2), r(3));
+      } else {
+        while (i >= bucketEnd && bucket < bucketCount - 1) {
+          bucket++;
+          bucketEnd += bucketLength(bucket);
+        }
+        for (let k = 0; k < 3; k++) {
+          const center = view.getFloat32(bucketsBase + bucket * bucketStorageBytes + k * 4, true);
+          data.positions[index * 3 + k] = (view.getUint16(base + k * 2, true) - scaleRange) * scaleFactor + center;
+          data.scales[index * 3 + k] = fromHalf(view.getUint16(base + 6 + k * 2, true));
+        }
+        const r = (k: number) => fromHalf(view.getUint16(base + 12 + k * 2, true));
+        setRotation(data, index, r(0), r(1), r(2), r(3));
+      }
+
+      const colorBase = base + 3 * level.center + 3 * level.scale + 4 * level.rotation;
+      data.colors.set(new Uint8Array(buffer, colorBase, 4), index * 4);
+    }
+  }
+
+  if (index === splatCount) return data;
+  // Sections with fewer splats than the header announced
+  return {
+    count: index,
+    positions: data.positions.subarray(0, index * 3),
+    scales: data.scales.subarray(0, index * 3),
+    rotations: data.rotations.subarray(0, index * 4),
+    colors: data.colors.subarray(0, index * 4)
+  };
+}
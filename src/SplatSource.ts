@@ -0,0 +1,271 @@
+import * as THREE from 'three';
+import { LumaSplatsLoader, LumaSplatsThree } from '@lumaai/luma-web';
+import { GaussianSplatMesh } from './GaussianSplatMesh.js';
+import { SplatData, SplatFormat, detectSplatFormat, sniffSplatFormat, parseSplatData } from './SplatFormats.js';
+
+/**
+ * SplatSource - Pluggable loaders for splat models
+ *
+ * NeRFLoader asks its source adapters in order which one can load a URL and
+ * lets that adapter create the model. Every adapter produces a SplatModel, an
+ * Object3D with a local bounding box, so the container, clipping, geo
+ * positioning, auto-scaling and caching work the same for every source.
+ *
+ * Built-in adapters:
+ * - LumaSplatSource: Luma capture URLs, rendered by LumaSplatsThree
+ * - FileSplatSource: local or same-origin .ply, .splat and .ksplat files,
+ *                    rendered by GaussianSplatMesh
+ */
+
+/**
+ * A displayable splat model
+ * Models with their own opacity control implement setOpacity/getOpacity;
+ * Luma models are faded through shader hooks instead (see SplatEffects).
+ */
+export type SplatModel = THREE.Object3D & {
+  /** Bounds in the model's local space, filled once the data is loaded */
+  boundingBox: THREE.Box3;
+  setOpacity?(opacity: number): void;
+  getOpacity?(): number;
+  /** Splat centers [x, y, z, ...] in local space, e.g. for ground detection */
+  getSplatPositions?(): Float32Array | null;
+  dispose?(): void;
+};
+
+/**
+ * Rendering settings of a load; adapters ignore the ones they do not support
+ */
+export interface SplatModelSettings {
+  enableThreeShaderIntegration: boolean;
+  loadingAnimationEnabled: boolean;
+  particleRevealEnabled: boolean;
+}
+
+/**
+ * What is known about a source before it is loaded
+ */
+export interface SplatSourceRequest {
+  url: string;
+  /** Explicit file format, for URLs without an extension (e.g. blob: URLs) */
+  format?: SplatFormat;
+  /** MIME type, e.g. of a dropped file */
+  mimeType?: string;
+}
+
+/**
+ * A model created by an adapter, together with its loading state
+ */
+export interface SplatLoad {
+  model: SplatModel;
+  /** Settles when the splat data is loaded (rejects if loading fails) */
+  ready: Promise<void>;
+  /** Number of splats loaded so far, used for memory budgeting */
+  getSplatCount(): number;
+}
+
+export interface SplatSourceAdapter {
+  /** Human readable name used in log output */
+  readonly name: string;
+
+  /**
+   * Whether this adapter can load the source
+   */
+  canLoad(request: SplatSourceRequest): boolean;
+
+  /**
+   * Creates the model and starts loading its data
+   * @param onProgress - Called with the loading progress from 0 to 1
+   */
+  load(
+    request: SplatSourceRequest,
+    settings: SplatModelSettings,
+    onProgress: (progress: number) => void
+  ): SplatLoad;
+
+  /**
+   * Applies per-load settings to a model created by this adapter, e.g. when it is reused from the cache
+   */
+  applySettings?(model: SplatModel, settings: SplatModelSettings): void;
+}
+
+/**
+ * Luma capture URLs (https://lumalabs.ai/capture/<uuid>)
+ */
+export class LumaSplatSource implements SplatSourceAdapter {
+  public readonly name = 'luma';
+
+  public canLoad({ url, format }: SplatSourceRequest): boolean {
+    if (format) return false;
+    try {
+      return /(^|\.)lumalabs\.ai$/i.test(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  public load(
+    { url }: SplatSourceRequest,
+    settings: SplatModelSettings,
+    onProgress: (progress: number) => void
+  ): SplatLoad {
+    // Create the loader explicitly so download failures can be observed
+    const loader = new LumaSplatsLoader(url);
+    const model = new LumaSplatsThree({ loader, ...settings });
+
+    model.onProgress = ({ progress }) => onProgress(progress);
+    (model as SplatModel).getSplatPositions = () => decodeLumaPoints(loader);
+
+    const ready = new Promise<void>((resolve, reject) => {
+      model.onLoad = () => resolve();
+      loader.allReady.catch(reject);
+    });
+
+    return {
+      model,
+      ready,
+      getSplatCount: () => loader.numSplats || loader.totalSplats || 0
+    };
+  }
+
+  public applySettings(model: SplatModel, settings: SplatModelSettings): void {
+    if (!(model instanceof LumaSplatsThree)) return;
+    model.enableThreeShaderIntegration = settings.enableThreeShaderIntegration;
+    model.loadingAnimationEnabled = settings.loadingAnimationEnabled;
+    model.particleRevealEnabled = settings.particleRevealEnabled;
+  }
+}
+
+/**
+ * Decodes the loaded splat centers of a Luma capture
+ * Luma keeps them as half floats and flips X and Y in the model's local space.
+ */
+function decodeLumaPoints(loader: LumaSplatsLoader): Float32Array | null {
+  const count = loader.cpuPtsCount;
+  if (!count) return null;
+
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count * 3; i++) {
+    const sign = i % 3 === 2 ? 1 : -1;
+    positions[i] = sign * THREE.DataUtils.fromHalfFloat(loader.cpuPoints[i]);
+  }
+  return positions;
+}
+
+/**
+ * Whether a URL can be fetched without cross-origin access: relative,
+ * same-origin, blob: or data: URLs
+ */
+export function isLocalUrl(url: string): boolean {
+  try {
+    const resolved = new URL(url, window.location.href);
+    return resolved.protocol === 'blob:' ||
+      resolved.protocol === 'data:' ||
+      resolved.origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local or same-origin .ply, .splat and .ksplat files
+ * The format comes from the request, the MIME type or the extension, and
+ * otherwise from the response's Content-Type or the file's first bytes.
+ */
+export class FileSplatSource implements SplatSourceAdapter {
+  public readonly name = 'file';
+
+  public canLoad({ url, format, mimeType }: SplatSourceRequest): boolean {
+    if (format || detectSplatFormat(url, mimeType)) return true;
+    // Other local URLs are identified after download
+    return isLocalUrl(url);
+  }
+
+  public load(
+    request: SplatSourceRequest,
+    _settings: SplatModelSettings,
+    onProgress: (progress: number) => void
+  ): SplatLoad {
+    const model = new GaussianSplatMesh();
+    const controller = new AbortController();
+
+    // Stop the download when the model is disposed before it finished
+    const dispose = model.dispose.bind(model);
+    model.dispose = () => {
+      controller.abort();
+      dispose();
+    };
+
+    const ready = this.fetchSplats(request, controller.signal, onProgress).then(data => {
+      model.setData(data);
+    });
+
+    return { model, ready, getSplatCount: () => model.getSplatCount() };
+  }
+
+  private async fetchSplats(
+    { url, format, mimeType }: SplatSourceRequest,
+    signal: AbortSignal,
+    onProgress: (progress: number) => void
+  ): Promise<SplatData> {
+    if (!isLocalUrl(url)) {
+      throw new Error(`Splat files must be local or same-origin: ${url}`);
+    }
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const buffer = await readWithProgress(response, onProgress);
+    const resolved = format ||
+      detectSplatFormat(url, mimeType || response.headers.get('Content-Type') || undefined) ||
+      sniffSplatFormat(buffer);
+    if (!resolved) {
+      throw new Error('Unrecognized splat file format');
+    }
+
+    return parseSplatData(buffer, resolved);
+  }
+}
+
+/**
+ * Reads a response body, reporting progress when its length is known
+ */
+async function readWithProgress(
+  response: Response,
+  onProgress: (progress: number) => void
+): Promise<ArrayBuffer> {
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress(1);
+    return buffer;
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (total > 0) onProgress(Math.min(received / total, 1));
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  });
+  onProgress(1);
+  return buffer.buffer;
+}
+
+/**
+ * Default adapters, in the order they are asked
+ */
+export function createDefaultSplatSources(): SplatSourceAdapter[] {
+  return [new LumaSplatSource(), new FileSplatSource()];
+}
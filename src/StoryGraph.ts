@@ -0,0 +1,380 @@
+import { SceneManager } from './SceneManager.js';
+import { SceneMetadata } from './scenes.js';
+import {
+  StoryDefinition,
+  StoryChapter,
+  StoryBeat,
+  StoryChoice,
+  StoryCondition
+} from './story.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * StoryGraph - Chapters, beats and branching choices over the scene catalog
+ *
+ * Tracks where the viewer is in the story from the scenes SceneManager loads,
+ * so the position stays correct whichever way a scene was reached (story
+ * navigation, the scene selector, deep links or going back). Going back uses
+ * SceneManager's history, so "Previous" retraces the branches actually taken.
+ *
+ * Conditions on beats and choices are evaluated against the scenes visited
+ * this session (SceneManager.hasVisited).
+ */
+
+/**
+ * Location of a beat in the story
+ */
+export interface StoryPosition {
+  chapterIndex: number;
+  beatIndex: number;
+}
+
+/**
+ * Events emitted by StoryGraph
+ */
+export interface StoryGraphEvents {
+  /** The loaded scene changed the story position (null fields when the scene is not part of the story) */
+  positionChanged: {
+    chapter: StoryChapter | null;
+    beat: StoryBeat | null;
+    choices: StoryChoice[];
+    hasNext: boolean;
+  };
+}
+
+export class StoryGraphError extends Error {
+  public readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  ${issue}`).join('\n')}` : message);
+    this.name = 'StoryGraphError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks that a story only refers to existing chapters and catalog scenes
+ * @throws StoryGraphError listing every problem found
+ */
+export function validateStory(story: StoryDefinition, scenes: SceneMetadata[]): void {
+  const issues: string[] = [];
+  const sceneIds = new Set(scenes.map(scene => scene.id));
+  const chapterIds = new Set<string>();
+
+  if (story.chapters.length === 0) {
+    throw new StoryGraphError('Invalid story', ['story has no chapters']);
+  }
+
+  story.chapters.forEach((chapter, index) => {
+    if (!chapter.id) {
+      issues.push(`chapters[${index}] has no id`);
+    } else if (chapterIds.has(chapter.id)) {
+      issues.push(`chapters[${index}] duplicate chapter id "${chapter.id}"`);
+    }
+    chapterIds.add(chapter.id);
+  });
+
+  const checkCondition = (where: string, condition?: StoryCondition) => {
+    [...(condition?.visited || []), ...(condition?.notVisited || [])].forEach(id => {
+      if (!sceneIds.has(id)) issues.push(`${where} condition refers to unknown scene "${id}"`);
+    });
+  };
+
+  story.chapters.forEach(chapter => {
+    const where = `chapter "${chapter.id}"`;
+    if (chapter.beats.length === 0) {
+      issues.push(`${where} has no beats`);
+    }
+    if (chapter.next !== undefined && !chapterIds.has(chapter.next)) {
+      issues.push(`${where} next refers to unknown chapter "${chapter.next}"`);
+    }
+
+    chapter.beats.forEach((beat, beatIndex) => {
+      const beatWhere = `${where} beats[${beatIndex}]`;
+      if (!sceneIds.has(beat.sceneId)) {
+        issues.push(`${beatWhere} refers to unknown scene "${beat.sceneId}"`);
+      }
+      checkCondition(beatWhere, beat.condition);
+
+      beat.choices?.forEach((choice, choiceIndex) => {
+        const choiceWhere = `${beatWhere} choices[${choiceIndex}]`;
+        if (!choice.label) {
+          issues.push(`${choiceWhere} has no label`);
+        }
+        if (!choice.sceneId && !choice.chapterId) {
+          issues.push(`${choiceWhere} needs a sceneId or chapterId`);
+        }
+        if (choice.sceneId && !sceneIds.has(choice.sceneId)) {
+          issues.push(`${choiceWhere} refers to unknown scene "${choice.sceneId}"`);
+        }
+        if (choice.chapterId && !chapterIds.has(choice.chapterId)) {
+          issues.push(`${choiceWhere} refers to unknown chapter "${choice.chapterId}"`);
+        }
+        if (choice.sceneId && choice.chapterId) {
+          const target = story.chapters.find(c => c.id === choice.chapterId);
+          if (target && !target.beats.some(b => b.sceneId === choice.sceneId)) {
+            issues.push(`${choiceWhere} scene "${choice.sceneId}" is not a beat of chapter "${choice.chapterId}"`);
+          }
+        }
+        checkCondition(choiceWhere, choice.condition);
+      });
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new StoryGraphError('Invalid story', issues);
+  }
+}
+
+export class StoryGraph {
+  public readonly events = new TypedEventEmitter<StoryGraphEvents>();
+
+  private story: StoryDefinition;
+  private sceneManager: SceneManager;
+  private position: StoryPosition | null = null;
+  // Story position of each SceneManager history entry, so going back restores the beat
+  private positions: Array<StoryPosition | null> = [];
+  // Position requested by story navigation, used when its scene finishes loading
+  private pendingPosition: StoryPosition | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * @param story - Chapters and beats (validated against the catalog)
+   * @param sceneManager - Loads the scenes and records the visited ones
+   * @throws StoryGraphError if the story refers to unknown chapters or scenes
+   */
+  constructor(story: StoryDefinition, sceneManager: SceneManager) {
+    validateStory(story, sceneManager.getAllScenes());
+    this.story = story;
+    this.sceneManager = sceneManager;
+
+    this.unsubscribers.push(
+      sceneManager.events.on('sceneLoaded', ({ scene }) => this.onSceneLoaded(scene))
+    );
+
+    const current = sceneManager.getCurrentScene();
+    if (current) {
+      this.onSceneLoaded(current);
+    }
+  }
+
+  public getTitle(): string | undefined {
+    return this.story.title;
+  }
+
+  public getChapters(): StoryChapter[] {
+    return [...this.story.chapters];
+  }
+
+  /**
+   * Gets the current story position (null when the current scene is not part of the story)
+   */
+  public getPosition(): StoryPosition | null {
+    return this.position ? { ...this.position } : null;
+  }
+
+  public getCurrentChapter(): StoryChapter | null {
+    return this.position ? this.story.chapters[this.position.chapterIndex] : null;
+  }
+
+  public getCurrentBeat(): StoryBeat | null {
+    return this.position ? this.beatAt(this.position) : null;
+  }
+
+  /**
+   * Whether a condition holds for the scenes visited so far
+   */
+  public isConditionMet(condition?: StoryCondition): boolean {
+    if (!condition) return true;
+    const { visited = [], notVisited = [] } = condition;
+    return visited.every(id => this.sceneManager.hasVisited(id))
+      && notVisited.every(id => !this.sceneManager.hasVisited(id));
+  }
+
+  /**
+   * Gets the choices of the current beat whose conditions hold
+   */
+  public getChoices(): StoryChoice[] {
+    const beat = this.getCurrentBeat();
+    return (beat?.choices || []).filter(choice => this.isConditionMet(choice.condition));
+  }
+
+  /**
+   * Whether the story continues after the current beat
+   */
+  public hasNext(): boolean {
+    return this.position !== null && this.findNext(this.position) !== null;
+  }
+
+  /**
+   * Loads the next beat whose condition holds, continuing into the next chapter
+   * @throws Error if the current scene is not part of the story or the story has ended
+   */
+  public async next(signal?: AbortSignal): Promise<void> {
+    const next = this.position ? this.findNext(this.position) : null;
+    if (!next) {
+      throw new Error(this.position ? 'The story has ended' : 'The current scene is not part of the story');
+    }
+    await this.goTo(next, signal);
+  }
+
+  /**
+   * Follows a choice of the current beat
+   * @param choice - The choice or its index in getChoices()
+   */
+  public async choose(choice: StoryChoice | number, signal?: AbortSignal): Promise<void> {
+    const selected = typeof choice === 'number' ? this.getChoices()[choice] : choice;
+    if (!selected) {
+      throw new Error(`Choice ${choice} is not available`);
+    }
+
+    const target = this.resolveChoice(selected);
+    if (target) {
+      await this.goTo(target, signal);
+    } else if (selected.sceneId) {
+      // A scene outside the story
+      await this.sceneManager.loadSceneById(selected.sceneId, signal);
+    } else {
+      throw new Error(`Chapter "${selected.chapterId}" has no available beats`);
+    }
+  }
+
+  /**
+   * Loads the first available beat of a chapter
+   */
+  public async startChapter(id: string, signal?: AbortSignal): Promise<void> {
+    const chapterIndex = this.story.chapters.findIndex(chapter => chapter.id === id);
+    if (chapterIndex < 0) {
+      throw new Error(`Chapter "${id}" not found`);
+    }
+
+    const first = this.findNext({ chapterIndex, beatIndex: -1 });
+    if (!first) {
+      throw new Error(`Chapter "${id}" has no available beats`);
+    }
+    await this.goTo(first, signal);
+  }
+
+  private beatAt(position: StoryPosition): StoryBeat | null {
+    return this.story.chapters[position.chapterIndex]?.beats[position.beatIndex] ?? null;
+  }
+
+  /**
+   * Finds the next beat after a position whose condition holds
+   * Chapters continue with their `next` chapter, or the following one in the list.
+   */
+  private findNext(from: StoryPosition): StoryPosition | null {
+    const chapters = this.story.chapters;
+    const totalBeats = chapters.reduce((sum, chapter) => sum + chapter.beats.length, 0);
+    let { chapterIndex, beatIndex } = from;
+
+    // Bounded so that chapters continuing into each other cannot loop forever
+    for (let steps = 0; steps <= totalBeats + chapters.length; steps++) {
+      const chapter = chapters[chapterIndex];
+      beatIndex++;
+
+      if (beatIndex >= chapter.beats.length) {
+        chapterIndex = chapter.next !== undefined
+          ? chapters.findIndex(c => c.id === chapter.next)
+          : chapterIndex + 1;
+        if (chapterIndex < 0 || chapterIndex >= chapters.length) return null;
+        beatIndex = -1;
+        continue;
+      }
+
+      if (this.isConditionMet(chapter.beats[beatIndex].condition)) {
+        return { chapterIndex, beatIndex };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the beat a choice leads to (null if its scene is outside the story)
+   */
+  private resolveChoice(choice: StoryChoice): StoryPosition | null {
+    if (choice.chapterId) {
+      const chapterIndex = this.story.chapters.findIndex(chapter => chapter.id === choice.chapterId);
+      if (chapterIndex < 0) return null;
+      if (!choice.sceneId) return this.findNext({ chapterIndex, beatIndex: -1 });
+
+      const beatIndex = this.story.chapters[chapterIndex].beats.findIndex(b => b.sceneId === choice.sceneId);
+      return beatIndex >= 0 ? { chapterIndex, beatIndex } : null;
+    }
+
+    return choice.sceneId ? this.locate(choice.sceneId) : null;
+  }
+
+  /**
+   * Finds the beat showing a scene, preferring the current chapter
+   */
+  private locate(sceneId: string): StoryPosition | null {
+    const chapters = this.story.chapters;
+    const preferred = this.position?.chapterIndex ?? -1;
+    const order = preferred >= 0
+      ? [preferred, ...chapters.keys()].filter((index, i, all) => all.indexOf(index) === i)
+      : [...chapters.keys()];
+
+    for (const chapterIndex of order) {
+      const beatIndex = chapters[chapterIndex].beats.findIndex(beat => beat.sceneId === sceneId);
+      if (beatIndex >= 0) return { chapterIndex, beatIndex };
+    }
+    return null;
+  }
+
+  private async goTo(position: StoryPosition, signal?: AbortSignal): Promise<void> {
+    const beat = this.beatAt(position);
+    if (!beat) return;
+
+    this.pendingPosition = position;
+    await this.sceneManager.loadSceneById(beat.sceneId, signal);
+  }
+
+  /**
+   * Updates the story position for a newly loaded scene
+   */
+  private onSceneLoaded(scene: SceneMetadata): void {
+    const depth = this.sceneManager.getHistory().length;
+    const pending = this.pendingPosition;
+    const remembered = this.positions[depth - 1];
+    this.pendingPosition = null;
+
+    let position: StoryPosition | null;
+    if (pending && this.beatAt(pending)?.sceneId === scene.id) {
+      position = pending;
+    } else if (remembered && this.beatAt(remembered)?.sceneId === scene.id) {
+      // Went back to a history entry
+      position = remembered;
+    } else {
+      position = this.locate(scene.id);
+    }
+
+    this.positions.length = Math.max(0, depth - 1);
+    this.positions.push(position);
+    this.position = position;
+
+    if (position) {
+      const chapter = this.story.chapters[position.chapterIndex];
+      console.log(`Story: ${chapter.title}, beat ${position.beatIndex + 1}/${chapter.beats.length}`);
+    }
+    this.emitPosition();
+  }
+
+  private emitPosition(): void {
+    this.events.emit('positionChanged', {
+      chapter: this.getCurrentChapter(),
+      beat: this.getCurrentBeat(),
+      choices: this.getChoices(),
+      hasNext: this.hasNext()
+    });
+  }
+
+  /**
+   * Removes all listeners
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.events.removeAllListeners();
+  }
+}
@@ -0,0 +1,240 @@
+import { TimelineController, TimelineEntry } from './TimelineController.js';
+
+/**
+ * TimelineBar - Scrubbable date bar for a TimelineController
+ *
+ * Captures are drawn as ticks placed by capture date (evenly spaced if they
+ * all share one date). Dragging along the track previews the nearest capture
+ * and loads it on release; the arrow keys step while the track is focused.
+ * Styles are inline, like OverlayPanel.
+ */
+
+export interface TimelineBarConfig {
+  /** Element the bar is added to (default document.body) */
+  parent?: HTMLElement;
+}
+
+const BUTTON_CSS =
+  'background:none; border:1px solid rgba(255, 255, 255, 0.3); color:inherit; border-radius:4px;' +
+  'min-width:36px; min-height:36px; cursor:pointer; font-size:14px;';
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class TimelineBar {
+  private timeline: TimelineController;
+  private root: HTMLDivElement;
+  private track: HTMLDivElement;
+  private playButton: HTMLButtonElement;
+  private label: HTMLDivElement;
+  private range: HTMLDivElement;
+  private ticks: HTMLDivElement[] = [];
+  private offsets: number[] = [];
+  private preview: number = -1;
+  private scrubbing: boolean = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(timeline: TimelineController, config: TimelineBarConfig = {}) {
+    this.timeline = timeline;
+    const parent = config.parent || document.body;
+
+    this.root = document.createElement('div');
+    this.root.style.cssText =
+      'position:fixed; top:20px; left:50%; transform:translateX(-50%);' +
+      'width:min(640px, calc(100vw - 40px)); display:none; flex-direction:column; gap:8px; z-index:1000;' +
+      'padding:10px 14px; background:rgba(20, 20, 24, 0.92); color:#e8e8e8; border-radius:8px;' +
+      'box-shadow:0 8px 32px rgba(0, 0, 0, 0.5); font-size:13px;';
+
+    const controls = document.createElement('div');
+    controls.style.cssText = 'display:flex; align-items:center; gap:8px;';
+
+    const back = this.createButton('◀', 'Previous capture', () => this.run(timeline.step(-1)));
+    this.playButton = this.createButton('▶', 'Play', () => {
+      if (timeline.isPlaying()) {
+        timeline.pause();
+      } else {
+        timeline.play();
+      }
+    });
+    const forward = this.createButton('▶▶', 'Next capture', () => this.run(timeline.step(1)));
+
+    this.label = document.createElement('div');
+    this.label.style.cssText = 'flex:1; white-space:nowrap; overflow:hidden; text-overflow:ellipsis;';
+
+    this.range = document.createElement('div');
+    this.range.style.cssText = 'opacity:0.6; white-space:nowrap;';
+
+    controls.append(back, this.playButton, forward, this.label, this.range);
+
+    this.track = document.createElement('div');
+    this.track.tabIndex = 0;
+    this.track.setAttribute('role', 'slider');
+    this.track.setAttribute('aria-label', 'Capture timeline');
+    this.track.style.cssText =
+      'position:relative; height:28px; cursor:pointer; touch-action:none; outline-offset:2px;' +
+      'background:linear-gradient(rgba(255, 255, 255, 0.25), rgba(255, 255, 255, 0.25)) center / 100% 2px no-repeat;';
+
+    this.root.append(controls, this.track);
+    parent.appendChild(this.root);
+
+    this.track.addEventListener('pointerdown', this.onPointerDown);
+    this.track.addEventListener('pointermove', this.onPointerMove);
+    this.track.addEventListener('pointerup', this.onPointerUp);
+    this.track.addEventListener('pointercancel', this.onPointerCancel);
+    this.track.addEventListener('keydown', this.onKeyDown);
+
+    this.unsubscribers.push(
+      timeline.events.on('entriesChanged', () => this.renderTicks()),
+      timeline.events.on('positionChanged', () => this.renderPosition()),
+      timeline.events.on('playbackChanged', ({ playing }) => {
+        this.playButton.textContent = playing ? '❚❚' : '▶';
+        this.playButton.setAttribute('aria-label', playing ? 'Pause' : 'Play');
+      })
+    );
+
+    this.renderTicks();
+  }
+
+  public show(): void {
+    this.root.style.display = 'flex';
+  }
+
+  public hide(): void {
+    this.root.style.display = 'none';
+  }
+
+  public isVisible(): boolean {
+    return this.root.style.display !== 'none';
+  }
+
+  private createButton(text: string, label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.setAttribute('aria-label', label);
+    button.style.cssText = BUTTON_CSS;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Lays out one tick per capture, as a fraction of the track width
+   */
+  private renderTicks(): void {
+    const entries = this.timeline.getEntries();
+    this.ticks.forEach(tick => tick.remove());
+    this.ticks = [];
+
+    const first = entries[0]?.date.getTime() ?? 0;
+    const span = (entries[entries.length - 1]?.date.getTime() ?? 0) - first;
+    this.offsets = entries.map((entry, index) => {
+      if (span > 0) return (entry.date.getTime() - first) / span;
+      return entries.length > 1 ? index / (entries.length - 1) : 0.5;
+    });
+
+    this.ticks = entries.map((entry, index) => {
+      const tick = document.createElement('div');
+      tick.title = `${formatDate(entry.date)} · ${entry.scene.title}`;
+      tick.style.cssText =
+        `position:absolute; top:50%; left:${this.offsets[index] * 100}%; width:8px; height:8px;` +
+        'margin:-4px 0 0 -4px; border-radius:50%; background:#88ccff; pointer-events:none;';
+      this.track.appendChild(tick);
+      return tick;
+    });
+
+    this.range.textContent = entries.length > 0
+      ? `${formatDate(entries[0].date)} – ${formatDate(entries[entries.length - 1].date)} (${entries.length})`
+      : 'No dated captures';
+    this.renderPosition();
+  }
+
+  /**
+   * Highlights the current (or previewed) capture and updates the label
+   */
+  private renderPosition(): void {
+    const index = this.scrubbing ? this.preview : this.timeline.getIndex();
+    const entries = this.timeline.getEntries();
+
+    this.ticks.forEach((tick, i) => {
+      const active = i === index;
+      tick.style.transform = active ? 'scale(1.8)' : '';
+      tick.style.background = active ? '#ffffff' : '#88ccff';
+    });
+
+    const entry: TimelineEntry | undefined = entries[index];
+    this.label.textContent = entry
+      ? `${formatDate(entry.date)} · ${entry.scene.title}`
+      : 'Current scene is not on the timeline';
+    this.track.setAttribute('aria-valuetext', this.label.textContent);
+  }
+
+  /**
+   * Index of the capture whose tick is nearest to a pointer position
+   */
+  private nearestIndex(clientX: number): number {
+    if (this.offsets.length === 0) return -1;
+
+    const rect = this.track.getBoundingClientRect();
+    const fraction = (clientX - rect.left) / rect.width;
+    let nearest = 0;
+    this.offsets.forEach((offset, index) => {
+      if (Math.abs(offset - fraction) < Math.abs(this.offsets[nearest] - fraction)) {
+        nearest = index;
+      }
+    });
+    return nearest;
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    this.scrubbing = true;
+    this.track.setPointerCapture(event.pointerId);
+    this.preview = this.nearestIndex(event.clientX);
+    this.renderPosition();
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (!this.scrubbing) return;
+    this.preview = this.nearestIndex(event.clientX);
+    this.renderPosition();
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (!this.scrubbing) return;
+    this.scrubbing = false;
+    this.track.releasePointerCapture(event.pointerId);
+
+    const index = this.nearestIndex(event.clientX);
+    this.renderPosition();
+    if (index >= 0 && index !== this.timeline.getIndex()) {
+      this.run(this.timeline.seek(index));
+    }
+  };
+
+  private onPointerCancel = (): void => {
+    this.scrubbing = false;
+    this.renderPosition();
+  };
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      this.run(this.timeline.step(event.key === 'ArrowLeft' ? -1 : 1));
+    }
+  };
+
+  /**
+   * Awaits a timeline navigation; load failures are logged by the controller
+   */
+  private run(navigation: Promise<void>): void {
+    void navigation.catch(error => console.error('Timeline navigation failed:', error));
+  }
+
+  /**
+   * Removes the bar from the page
+   */
+  public dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.root.remove();
+  }
+}
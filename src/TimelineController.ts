@@ -0,0 +1,411 @@
+import * as THREE from 'three';
+import { SceneManager } from './SceneManager.js';
+import { SceneMetadata, parseCaptureDate } from './scenes.js';
+import { GeoSpatialManager, GeoLocation } from './GeoSpatial.js';
+import { PlatformEnvironment, EnvironmentSettings } from './PlatformEnvironment.js';
+import { isLoadCancellation } from './NeRFLoader.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+
+/**
+ * TimelineController - Chronological navigation by capture date
+ *
+ * Orders the catalog scenes that have a `captureDate` and steps through them
+ * in date order, either manually or as timed playback. The timeline can be
+ * narrowed to a date range, a tag, or the captures around one location to
+ * compare the same place across dates.
+ *
+ * Optionally the environment follows each capture's date: the time of day
+ * from the date's time part (e.g. "2024-03-15T18:30") and the sun strength
+ * from the season at the capture's latitude. A scene's own environment
+ * preset takes precedence for the settings it defines. SceneManager blends
+ * both in one transition (see SceneManager.setEnvironmentProvider).
+ *
+ * Loading any scene outside the timeline's control pauses playback.
+ */
+
+/**
+ * A capture on the timeline
+ */
+export interface TimelineEntry {
+  scene: SceneMetadata;
+  date: Date;
+}
+
+/**
+ * Which captures are on the timeline; criteria are combined
+ */
+export interface TimelineFilter {
+  from?: Date;
+  to?: Date;
+  tag?: string;
+  /** Captures within `radius` meters of a location, e.g. to compare one place over time */
+  near?: { location: GeoLocation; radius: number };
+}
+
+export interface TimelineOptions {
+  /** Time each capture is shown during playback in milliseconds (default 6000) */
+  interval?: number;
+  /** Restart from the first capture after the last (default false) */
+  loop?: boolean;
+  /**
+   * Environment of the SceneManager, whose sun intensity the capture dates
+   * scale (syncing is unavailable if omitted)
+   */
+  environment?: PlatformEnvironment;
+  /** Sync the environment to each capture's date (default false) */
+  syncEnvironment?: boolean;
+}
+
+/**
+ * Events emitted by TimelineController
+ */
+export interface TimelineEvents {
+  entriesChanged: { entries: TimelineEntry[]; filter: TimelineFilter };
+  /** index is -1 when the current scene is not on the timeline */
+  positionChanged: { entry: TimelineEntry | null; index: number };
+  playbackChanged: { playing: boolean };
+  /** The environment finished blending to a capture date */
+  environmentSynced: { scene: SceneMetadata; environment: EnvironmentSettings };
+}
+
+/**
+ * Environment matching a capture's date
+ * The time of day is read from the date string as written (local time at the
+ * capture); dates without a time leave it unchanged. The sun strength scales
+ * with the noon sun elevation for the season and latitude.
+ * @param noonIntensity - Sun intensity of a high summer sun
+ */
+export function captureDateEnvironment(scene: SceneMetadata, noonIntensity: number): EnvironmentSettings {
+  const date = parseCaptureDate(scene.captureDate);
+  if (!date) return {};
+
+  const settings: EnvironmentSettings = {};
+  const time = scene.captureDate?.match(/T(\d{2}):(\d{2})/);
+  if (time) {
+    settings.timeOfDay = Number(time[1]) + Number(time[2]) / 60;
+  }
+
+  // Solar declination approximation, degrees
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86400000);
+  const declination = 23.44 * Math.sin(((284 + dayOfYear) / 365) * Math.PI * 2);
+  const noonElevation = 90 - Math.abs(scene.location.latitude - declination);
+  const factor = Math.sin(THREE.MathUtils.degToRad(Math.max(0, noonElevation)));
+  settings.sunIntensity = Math.round(noonIntensity * THREE.MathUtils.clamp(factor, 0.25, 1) * 100) / 100;
+
+  return settings;
+}
+
+export class TimelineController {
+  public readonly events = new TypedEventEmitter<TimelineEvents>();
+
+  private sceneManager: SceneManager;
+  private geoManager: GeoSpatialManager;
+  private environment: PlatformEnvironment | null;
+  private baseSunIntensity: number;
+  private interval: number;
+  private loop: boolean;
+  private syncEnvironment: boolean = false;
+
+  private filter: TimelineFilter = {};
+  private entries: TimelineEntry[] = [];
+  private index: number = -1;
+  private playback: AbortController | null = null;
+  // Set while the timeline itself starts a scene load, so it does not pause playback
+  private navigating: boolean = false;
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * @param sceneManager - Provides the catalog and loads the captures
+   * @param geoManager - Used for distances in location filters
+   * @param options - Playback and environment options
+   */
+  constructor(sceneManager: SceneManager, geoManager: GeoSpatialManager, options: TimelineOptions = {}) {
+    this.sceneManager = sceneManager;
+    this.geoManager = geoManager;
+    this.environment = options.environment || null;
+    this.baseSunIntensity = this.environment ? this.environment.sunIntensity : 1.5;
+    this.interval = options.interval ?? 6000;
+    this.loop = options.loop ?? false;
+
+    const events = sceneManager.events;
+    this.unsubscribers.push(
+      events.on('sceneWillLoad', () => {
+        if (!this.navigating) this.pause();
+      }),
+      events.on('sceneLoaded', ({ scene }) => this.updateIndex(scene)),
+      events.on('environmentApplied', ({ scene, environment }) => {
+        if (this.syncEnvironment && parseCaptureDate(scene.captureDate)) {
+          this.events.emit('environmentSynced', { scene, environment });
+        }
+      }),
+      // Edited catalog entries (e.g. a corrected capture date) may move on the timeline
+      events.on('sceneUpdated', () => this.rebuild()),
+      events.on('sceneAdded', () => this.rebuild()),
+      events.on('sceneRemoved', () => this.rebuild())
+    );
+
+    this.rebuild();
+    if (options.syncEnvironment) {
+      this.setSyncEnvironment(true);
+    }
+  }
+
+  /**
+   * Gets the captures on the timeline, oldest first
+   */
+  public getEntries(): TimelineEntry[] {
+    return [...this.entries];
+  }
+
+  public getFilter(): TimelineFilter {
+    return { ...this.filter };
+  }
+
+  /**
+   * Replaces the timeline filter
+   */
+  public setFilter(filter: TimelineFilter): void {
+    this.filter = { ...filter };
+    this.rebuild();
+  }
+
+  /**
+   * Restricts the timeline to captures of the same place as a scene
+   * @param radius - Meters (default 100)
+   */
+  public compareLocation(scene: SceneMetadata, radius: number = 100): TimelineEntry[] {
+    this.setFilter({ ...this.filter, near: { location: scene.location, radius } });
+    return this.getEntries();
+  }
+
+  /**
+   * Removes the location restriction
+   */
+  public clearComparison(): void {
+    const { near: _near, ...filter } = this.filter;
+    this.setFilter(filter);
+  }
+
+  /**
+   * Index of the current scene on the timeline (-1 if it is not on it)
+   */
+  public getIndex(): number {
+    return this.index;
+  }
+
+  public getCurrentEntry(): TimelineEntry | null {
+    return this.entries[this.index] ?? null;
+  }
+
+  /**
+   * Loads the capture at a timeline index; stops playback
+   */
+  public async seek(index: number, signal?: AbortSignal): Promise<void> {
+    this.pause();
+    await this.load(index, signal);
+  }
+
+  /**
+   * Loads the capture closest to a date; stops playback
+   */
+  public async seekToDate(date: Date, signal?: AbortSignal): Promise<void> {
+    if (this.entries.length === 0) return;
+
+    let closest = 0;
+    this.entries.forEach((entry, index) => {
+      const distance = Math.abs(entry.date.getTime() - date.getTime());
+      if (distance < Math.abs(this.entries[closest].date.getTime() - date.getTime())) {
+        closest = index;
+      }
+    });
+    await this.seek(closest, signal);
+  }
+
+  /**
+   * Loads the capture before (-1) or after (1) the current one
+   */
+  public async step(delta: number, signal?: AbortSignal): Promise<void> {
+    if (this.entries.length === 0) return;
+    const base = this.index < 0 ? (delta > 0 ? -1 : this.entries.length) : this.index;
+    const index = THREE.MathUtils.clamp(base + delta, 0, this.entries.length - 1);
+    if (index !== this.index) {
+      await this.seek(index, signal);
+    }
+  }
+
+  /**
+   * Starts stepping through the captures in date order from the current one
+   */
+  public play(): void {
+    if (this.playback || this.entries.length === 0) return;
+
+    const controller = new AbortController();
+    this.playback = controller;
+    this.events.emit('playbackChanged', { playing: true });
+
+    void this.runPlayback(controller.signal).finally(() => {
+      if (this.playback === controller) {
+        this.playback = null;
+        this.events.emit('playbackChanged', { playing: false });
+      }
+    });
+  }
+
+  /**
+   * Stops playback, keeping the current capture
+   */
+  public pause(): void {
+    const playback = this.playback;
+    if (!playback) return;
+
+    this.playback = null;
+    playback.abort();
+    this.events.emit('playbackChanged', { playing: false });
+  }
+
+  public isPlaying(): boolean {
+    return this.playback !== null;
+  }
+
+  /**
+   * Sets the time each capture is shown during playback in milliseconds
+   */
+  public setInterval(interval: number): void {
+    this.interval = interval;
+  }
+
+  public getInterval(): number {
+    return this.interval;
+  }
+
+  public setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Enables syncing the environment to capture dates (applied to the current capture right away)
+   * Scene presets take precedence, and user overrides of the environment are kept.
+   */
+  public setSyncEnvironment(enabled: boolean): void {
+    if (enabled === this.syncEnvironment || !this.environment) return;
+    this.syncEnvironment = enabled;
+    this.sceneManager.setEnvironmentProvider(
+      enabled ? scene => captureDateEnvironment(scene, this.baseSunIntensity) : null
+    );
+  }
+
+  public isSyncingEnvironment(): boolean {
+    return this.syncEnvironment;
+  }
+
+  private async runPlayback(signal: AbortSignal): Promise<void> {
+    if (this.index < 0 && !(await this.load(0, signal))) return;
+
+    // A capture that failed to load, so the next step moves past it
+    let failedId: string | null = null;
+
+    while (!signal.aborted) {
+      await this.wait(this.interval, signal);
+      if (signal.aborted || this.entries.length === 0) return;
+
+      // Stepping from the current entry follows catalog changes during playback
+      const failed: number = failedId ? this.entries.findIndex(entry => entry.scene.id === failedId) : -1;
+      let position = (failed >= 0 ? failed : this.index) + 1;
+      if (position >= this.entries.length) {
+        if (!this.loop) return;
+        position = 0;
+      }
+
+      // Failed captures are skipped, cancellation ends playback
+      const id: string = this.entries[position].scene.id;
+      const loaded = await this.load(position, signal);
+      if (!loaded && signal.aborted) return;
+      failedId = loaded ? null : id;
+    }
+  }
+
+  /**
+   * Loads the capture at an index
+   * @returns Whether it loaded; failures other than cancellation are logged
+   */
+  private async load(index: number, signal?: AbortSignal): Promise<boolean> {
+    const entry = this.entries[index];
+    if (!entry) return false;
+
+    let load: Promise<void>;
+    this.navigating = true;
+    try {
+      load = this.sceneManager.loadSceneById(entry.scene.id, signal);
+    } finally {
+      this.navigating = false;
+    }
+
+    try {
+      await load;
+      return true;
+    } catch (error) {
+      if (!isLoadCancellation(error)) {
+        console.error(`Timeline: failed to load ${entry.scene.id}:`, error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Resolves after a delay, or as soon as the signal aborts
+   */
+  private wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Rebuilds the entries from the catalog and the current filter
+   */
+  private rebuild(): void {
+    const { from, to, tag, near } = this.filter;
+
+    this.entries = this.sceneManager.getAllScenes()
+      .map(scene => ({ scene, date: parseCaptureDate(scene.captureDate) }))
+      .filter((entry): entry is TimelineEntry => {
+        const { scene, date } = entry;
+        if (!date) return false;
+        if (from && date < from) return false;
+        if (to && date > to) return false;
+        if (tag && !scene.tags?.includes(tag)) return false;
+        if (near && this.geoManager.calculateDistance(near.location, scene.location) > near.radius) {
+          return false;
+        }
+        return true;
+      })
+      // Stable sort keeps catalog order for captures on the same date
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    this.events.emit('entriesChanged', { entries: this.getEntries(), filter: this.getFilter() });
+    this.updateIndex(this.sceneManager.getCurrentScene());
+  }
+
+  private updateIndex(scene: SceneMetadata | null): void {
+    this.index = scene ? this.entries.findIndex(entry => entry.scene.id === scene.id) : -1;
+    this.events.emit('positionChanged', { entry: this.getCurrentEntry(), index: this.index });
+  }
+
+  /**
+   * Stops playback and removes all listeners
+   */
+  public dispose(): void {
+    this.pause();
+    this.setSyncEnvironment(false);
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.events.removeAllListeners();
+  }
+}
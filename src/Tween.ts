@@ -0,0 +1,72 @@
+/**
+ * Tween - requestAnimationFrame based interpolation helper
+ *
+ * Drives a callback with an eased progress value from 0 to 1 over a duration.
+ * Used for scene transitions and other short animations that should not
+ * depend on the main render loop.
+ */
+
+export type EasingFunction = (t: number) => number;
+
+export const Easing = {
+  linear: (t: number): number => t,
+  easeInCubic: (t: number): number => t * t * t,
+  easeOutCubic: (t: number): number => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number): number =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+export interface TweenOptions {
+  easing?: EasingFunction;
+  /** Aborting jumps straight to the final state and resolves */
+  signal?: AbortSignal;
+}
+
+/**
+ * Calls `onUpdate` every frame with eased progress until `duration` has passed
+ * @param duration - Duration in milliseconds (<= 0 applies the final state immediately)
+ * @param onUpdate - Receives the eased progress in [0, 1]; always called with 1 at the end
+ * @returns Promise that resolves when the tween completes or is aborted
+ */
+export function tween(
+  duration: number,
+  onUpdate: (t: number) => void,
+  options: TweenOptions = {}
+): Promise<void> {
+  const { easing = Easing.easeInOutCubic, signal } = options;
+
+  return new Promise((resolve) => {
+    if (duration <= 0 || signal?.aborted) {
+      onUpdate(1);
+      resolve();
+      return;
+    }
+
+    const start = performance.now();
+    let frame = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      cancelAnimationFrame(frame);
+      signal?.removeEventListener('abort', finish);
+      onUpdate(1);
+      resolve();
+    };
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / duration);
+      if (t >= 1) {
+        finish();
+        return;
+      }
+      onUpdate(easing(t));
+      frame = requestAnimationFrame(step);
+    };
+
+    signal?.addEventListener('abort', finish);
+    onUpdate(0);
+    frame = requestAnimationFrame(step);
+  });
+}
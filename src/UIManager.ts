@@ -2,18 +2,43 @@ import { Gui } from 'uil';
 import * as THREE from 'three';
 import { SceneManager } from './SceneManager.js';
 import { PlatformEnvironment } from './PlatformEnvironment.js';
-import { NeRFLoader } from './NeRFLoader.js';
+import { NeRFLoader, GroundLeveling, isLoadCancellation } from './NeRFLoader.js';
+import { TRANSITION_STYLES, TransitionStyle } from './SceneTransition.js';
+import { TypedEventEmitter } from './EventEmitter.js';
+import { MultiCaptureManager, CaptureSelector } from './MultiCaptureManager.js';
+import { SceneCropShape, SceneTransform } from './scenes.js';
+import { createSceneManifest } from './SceneManifest.js';
+import { CameraDirector } from './CameraDirector.js';
+import { AnnotationManager } from './AnnotationManager.js';
+import { StoryGraph } from './StoryGraph.js';
+import { OverlayPanel, renderRichText } from './OverlayPanel.js';
+import { TimelineController } from './TimelineController.js';
+import { TimelineBar } from './TimelineBar.js';
+import { SceneBrowser } from './SceneBrowser.js';
+import { lintCatalog, LintIssue, LintSeverity } from './CatalogLinter.js';
+import { SceneAuthoring } from './SceneAuthoring.js';
+import { SceneEditor } from './SceneEditor.js';
+import { CaptureImporter, CaptureImportOptions } from './CaptureImporter.js';
+import { CropEditor, CropGizmoMode } from './CropEditor.js';
+import { HeadingTool } from './HeadingTool.js';
+import { GEO_PROJECTIONS, GeoProjection } from './GeoSpatial.js';
+import { GEO_ORIGIN_POLICIES, GeoOriginController, GeoOriginPolicy } from './GeoOrigin.js';
 
 /**
  * UIManager - Enhanced Responsive UI Controls
  *
  * Provides comprehensive interactive controls for:
- * - Scene navigation with NeRF URL management
+ * - Scene navigation (searchable browser) with NeRF URL management
  * - Camera & view controls
  * - Geospatial positioning
  * - NeRF/Luma quality & rendering settings
  * - Environment (time of day, lighting)
  * - Model transformations
+ * - Multi-capture mode (optional)
+ * - Annotations (optional)
+ * - Story chapters and choices (optional)
+ * - Capture date timeline (optional)
+ * - Scene authoring form with undo/redo and drafts (optional)
  *
  * Features:
  * - Responsive sizing based on viewport
@@ -30,23 +55,134 @@ export interface UIConfig {
   top?: string;
   camera?: THREE.Camera;
   renderer?: THREE.WebGLRenderer;
+  /** Enables the Multi-Capture controls */
+  multiCapture?: MultiCaptureManager;
+  /** Enables viewpoint bookmarks and smooth camera moves */
+  cameraDirector?: CameraDirector;
+  /** Enables the Annotations controls */
+  annotations?: AnnotationManager;
+  /** Enables chapter selection and the story choices panel; Next follows the story */
+  story?: StoryGraph;
+  /** Enables the Timeline controls and date bar */
+  timeline?: TimelineController;
+  /** Enables the Scene Authoring controls and editor */
+  authoring?: SceneAuthoring;
+  /** Importer used by the Load Capture panel (default: one without a drop target) */
+  importer?: CaptureImporter;
+  /** Enables the Crop Volume controls */
+  cropEditor?: CropEditor;
+  /** Enables the heading controls under Geospatial Position */
+  headingTool?: HeadingTool;
+  /** Enables the Origin policy list; Reset Origin goes through it */
+  geoOrigin?: GeoOriginController;
 }
 
+/**
+ * Values of the Model Adjustments sliders
+ * They edit the scale multiplier, Y offset and heading of the NeRFLoader
+ * model transform; other offsets and tilt of a scene preset are preserved.
+ */
+export interface ModelTransformState {
+  scale: number;
+  yOffset: number;
+  /** Degrees */
+  rotationY: number;
+}
+
+/**
+ * Slider values representing a model transform
+ */
+function toModelTransformState(transform: SceneTransform): ModelTransformState {
+  const euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  if (transform.quaternion) {
+    euler.setFromQuaternion(new THREE.Quaternion().fromArray(transform.quaternion));
+  }
+
+  return {
+    scale: transform.scale ?? 1,
+    yOffset: transform.position?.[1] ?? 0,
+    rotationY: Math.round(THREE.MathUtils.radToDeg(euler.y) * 100) / 100
+  };
+}
+
+/**
+ * Events emitted by UIManager when the user changes view state
+ */
+export interface UIManagerEvents {
+  modelTransformChanged: ModelTransformState;
+  timeOfDayChanged: { hour: number };
+}
+
+/**
+ * Whether an automatic leveling changed the model enough to ask about it
+ */
+function isNoticeableLeveling({ plane, previous, transform }: GroundLeveling): boolean {
+  return plane.tilt > 0.5 || Math.abs(transform.position[1] - previous.position[1]) > 0.05;
+}
+
+// Crop Shape list entries; 'platform' stands for no crop (the platform walls)
+const CROP_SHAPE_LABELS: Record<SceneCropShape | 'platform', string> = {
+  platform: 'Platform',
+  box: 'Box',
+  cylinder: 'Cylinder',
+  polygon: 'Polygon',
+  band: 'Height Band'
+};
+
+// Projection list entries
+const PROJECTION_LABELS: Record<GeoProjection, string> = {
+  equirectangular: 'Equirectangular',
+  enu: 'Local ENU (WGS84)',
+  'web-mercator': 'Web Mercator'
+};
+
+// Origin list entries
+const ORIGIN_POLICY_LABELS: Record<GeoOriginPolicy, string> = {
+  fixed: 'Fixed',
+  'catalog-centroid': 'Catalog Center',
+  'filter-centroid': 'Filter Center',
+  'first-loaded': 'First Loaded'
+};
+
+// sessionStorage key of the "Override Scene Lighting" toggle
+const ENVIRONMENT_OVERRIDE_KEY = 'memoryblocks.environmentOverride';
+
 export class UIManager {
+  public readonly events = new TypedEventEmitter<UIManagerEvents>();
+
   private gui: Gui;
   private sceneManager: SceneManager;
   private platformEnv: PlatformEnvironment;
   private nerfLoader: NeRFLoader;
   private camera?: THREE.Camera;
   private renderer?: THREE.WebGLRenderer;
+  private multiCapture?: MultiCaptureManager;
+  private cameraDirector?: CameraDirector;
+  private annotations?: AnnotationManager;
+  private story?: StoryGraph;
+  private storyPanel?: OverlayPanel;
+  private timeline?: TimelineController;
+  private timelineBar?: TimelineBar;
+  private sceneBrowser: SceneBrowser;
+  private lintPanel?: OverlayPanel;
+  private authoring?: SceneAuthoring;
+  private sceneEditor?: SceneEditor;
+  private importer: CaptureImporter;
+  private ownsImporter: boolean;
+  private importPanel?: OverlayPanel;
+  private levelPanel?: OverlayPanel;
+  private cropEditor?: CropEditor;
+  private headingTool?: HeadingTool;
+  private geoOrigin?: GeoOriginController;
 
   // Control references for cleanup
   private controlRefs: any[] = [];
   private resizeHandler?: () => void;
+  private eventUnsubscribers: (() => void)[] = [];
 
   // Control references for programmatic updates
   private controls: {
-    sceneSelector?: GuiControl;
+    chapterSelector?: GuiControl;
     infoDisplay?: GuiControl;
     scaleSlider?: GuiControl;
     yOffsetSlider?: GuiControl;
@@ -61,10 +197,14 @@ export class UIManager {
     modelRotationY: 0,
     cameraFOV: 75,
     cameraDistance: 50,
+    viewpointIndex: 0,
     nerfURL: '',
     loadingAnimation: true,
     particleReveal: true,
     enableShaderIntegration: true,
+    preloadAdjacent: true,
+    environmentOverride: false,
+    captureRadius: 500,
     semanticMaskForeground: true,
     semanticMaskBackground: true,
   };
@@ -80,6 +220,18 @@ export class UIManager {
     this.nerfLoader = nerfLoader;
     this.camera = config.camera;
     this.renderer = config.renderer;
+    this.multiCapture = config.multiCapture;
+    this.cameraDirector = config.cameraDirector;
+    this.annotations = config.annotations;
+    this.story = config.story;
+    this.timeline = config.timeline;
+    this.authoring = config.authoring;
+    this.cropEditor = config.cropEditor;
+    this.headingTool = config.headingTool;
+    this.geoOrigin = config.geoOrigin;
+    this.sceneBrowser = new SceneBrowser(sceneManager);
+    this.importer = config.importer || new CaptureImporter(sceneManager, nerfLoader);
+    this.ownsImporter = !config.importer;
 
     const {
       title = 'MemoryBlocks',
@@ -94,8 +246,96 @@ export class UIManager {
       name: title
     });
 
+    // Restore the session's environment override before building the controls
+    this.state.environmentOverride = sessionStorage.getItem(ENVIRONMENT_OVERRIDE_KEY) === 'true';
+    this.sceneManager.setEnvironmentOverride(this.state.environmentOverride);
+
     this.setupControls();
     this.setupResponsiveness();
+    this.setupSceneEvents();
+  }
+
+  /**
+   * Keeps the scene info in sync with SceneManager lifecycle events
+   */
+  private setupSceneEvents(): void {
+    const events = this.sceneManager.events;
+
+    this.eventUnsubscribers.push(
+      events.on('sceneWillLoad', ({ scene }) => {
+        this.gui.setVal('Info', `Loading ${scene.title}...`);
+      }),
+      events.on('loadProgress', ({ scene, progress }) => {
+        this.gui.setVal('Info', `Loading ${scene.title}... ${Math.round(progress * 100)}%`);
+      }),
+      events.on('sceneLoaded', ({ scene, index }) => {
+        this.state.currentScene = index;
+
+        // The first viewpoint is the scene's entry view
+        this.state.viewpointIndex = 0;
+        if (this.cameraDirector && scene.viewpoints?.length) {
+          this.moveCamera(this.cameraDirector.goToEntryView(scene.viewpoints));
+        }
+      }),
+      events.on('modelReady', () => {
+        this.syncModelTransformControls();
+        this.updateSceneInfo();
+      }),
+      events.on('environmentApplied', () => {
+        this.syncEnvironmentControls();
+      }),
+      events.on('sceneLoadFailed', ({ scene, error }) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.gui.setVal('Info', `Failed to load ${scene.title}\n\n${message}`);
+      })
+    );
+
+    this.eventUnsubscribers.push(
+      events.on('sceneWillLoad', () => this.levelPanel?.close()),
+      this.nerfLoader.events.on('groundLeveled', ({ automatic, ...leveling }) => {
+        this.syncModelTransformControls();
+        this.events.emit('modelTransformChanged', this.getModelTransformState());
+        if (!automatic || isNoticeableLeveling(leveling)) {
+          this.showLevelingPanel(leveling);
+        }
+      })
+    );
+
+    // Loaded captures have moved; distances from the origin changed
+    this.eventUnsubscribers.push(
+      this.nerfLoader.getGeoManager().events.on('originChanged', () => {
+        this.updateGeospatialInfo();
+        if (this.multiCapture?.isActive()) this.updateCaptureInfo(this.multiCapture);
+      })
+    );
+    if (this.geoOrigin) {
+      this.eventUnsubscribers.push(
+        this.geoOrigin.events.on('policyChanged', ({ policy }) => {
+          this.gui.setVal('Origin', ORIGIN_POLICY_LABELS[policy]);
+        })
+      );
+    }
+
+    const importEvents = this.importer.events;
+    this.eventUnsubscribers.push(
+      importEvents.on('importStarted', ({ scene }) => {
+        this.gui.setVal('Info', `Loading ${scene.title}...`);
+      }),
+      importEvents.on('imported', ({ scene, fileName, addedToCatalog }) => {
+        // Object URLs mean nothing to the user, show the file name instead
+        this.state.nerfURL = scene.url.startsWith('blob:') ? fileName : scene.url;
+        this.gui.setVal('Current URL', this.state.nerfURL);
+        if (!addedToCatalog) {
+          this.syncModelTransformControls();
+          this.gui.setVal('Info', `${scene.title}\n\nShown outside the catalog`);
+        }
+      }),
+      importEvents.on('importFailed', ({ fileName, error }) => {
+        if (isLoadCancellation(error)) return;
+        const message = error instanceof Error ? error.message : String(error);
+        this.gui.setVal('Info', `Failed to import ${fileName}\n\n${message}`);
+      })
+    );
   }
 
   /**
@@ -141,6 +381,36 @@ export class UIManager {
 
     // Row 6: Model Transformations
     this.setupModelControls();
+
+    // Row 7: Multi-Capture (optional)
+    if (this.multiCapture) {
+      this.setupMultiCaptureControls(this.multiCapture);
+    }
+
+    // Row 8: Annotations (optional)
+    if (this.annotations) {
+      this.setupAnnotationControls(this.annotations);
+    }
+
+    // Row 9: Story (optional)
+    if (this.story) {
+      this.setupStoryControls(this.story);
+    }
+
+    // Row 10: Timeline (optional)
+    if (this.timeline) {
+      this.setupTimelineControls(this.timeline);
+    }
+
+    // Row 11: Scene Authoring (optional)
+    if (this.authoring) {
+      this.setupAuthoringControls(this.authoring);
+    }
+
+    // Row 12: Crop Volume (optional)
+    if (this.cropEditor) {
+      this.setupCropControls(this.cropEditor);
+    }
   }
 
   /**
@@ -148,7 +418,6 @@ export class UIManager {
    */
   private setupSceneControls(): void {
     const scenes = this.sceneManager.getAllScenes();
-    const sceneNames = scenes.map((s, i) => `${i}: ${s.title}`);
 
     console.log(`\n=== Scene List Initialized ===`);
     console.log(`Total scenes available: ${scenes.length}`);
@@ -159,15 +428,12 @@ export class UIManager {
 
     this.gui.add('group', { name: 'Scene Navigation', open: true });
 
-    // Scene selector dropdown
-    this.controls.sceneSelector = this.gui.add('list', {
-      name: 'Select Scene',
-      list: sceneNames,
-      value: sceneNames[0]
-    }).onChange((value: string) => {
-      const index = parseInt(value.split(':')[0]);
-      this.state.currentScene = index;
-      this.loadSceneAtIndex(index);
+    // Searchable scene browser with tag facets
+    this.gui.add('button', {
+      name: 'Browse Scenes',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      this.sceneBrowser.toggle();
     });
 
     // Previous button
@@ -193,6 +459,33 @@ export class UIManager {
       height: 60,
       mode: 'text'
     });
+
+    // Transition controls (only when the SceneManager has transitions enabled)
+    const transitions = this.sceneManager.getTransitions();
+    if (transitions) {
+      const { style, duration } = transitions.getOptions();
+
+      const styleControl = this.gui.add('list', {
+        name: 'Transition',
+        list: TRANSITION_STYLES,
+        value: style
+      }).onChange((value: string) => {
+        transitions.setOptions({ style: value as TransitionStyle });
+      });
+      this.controlRefs.push(styleControl);
+
+      const durationControl = this.gui.add('slide', {
+        name: 'Transition (s)',
+        min: 0,
+        max: 5,
+        value: duration / 1000,
+        precision: 1,
+        step: 0.1
+      }).onChange((value: number) => {
+        transitions.setOptions({ duration: value * 1000 });
+      });
+      this.controlRefs.push(durationControl);
+    }
   }
 
   /**
@@ -230,6 +523,26 @@ export class UIManager {
     });
     this.controlRefs.push(resetCamBtn);
 
+    if (this.cameraDirector) {
+      // Cycle through the scene's viewpoints
+      const nextViewBtn = this.gui.add('button', {
+        name: 'Next Viewpoint',
+        fontColor: '#88ccff'
+      }).onChange(() => {
+        this.nextViewpoint();
+      });
+      this.controlRefs.push(nextViewBtn);
+
+      // Bookmark the current view in the scene's catalog entry
+      const saveViewBtn = this.gui.add('button', {
+        name: 'Save Viewpoint',
+        fontColor: '#88ff88'
+      }).onChange(() => {
+        this.saveViewpoint();
+      });
+      this.controlRefs.push(saveViewBtn);
+    }
+
     // Renderer Info
     if (this.renderer) {
       const info = this.renderer.info;
@@ -261,12 +574,12 @@ export class UIManager {
     });
     this.controlRefs.push(urlControl);
 
-    // Custom URL input button
+    // URL, file and folder loading
     const customURLBtn = this.gui.add('button', {
-      name: 'Load Custom URL',
+      name: 'Load Capture',
       fontColor: '#88ccff'
     }).onChange(() => {
-      this.loadCustomNeRFURL();
+      this.showCaptureImport();
     });
     this.controlRefs.push(customURLBtn);
 
@@ -300,6 +613,19 @@ export class UIManager {
     });
     this.controlRefs.push(shaderControl);
 
+    // Background preloading of the next/previous scenes
+    const preloadControl = this.gui.add('bool', {
+      name: 'Preload Adjacent',
+      value: this.state.preloadAdjacent
+    }).onChange((value: boolean) => {
+      this.state.preloadAdjacent = value;
+      this.sceneManager.setPreloadAdjacent(value);
+      if (value) {
+        this.sceneManager.preloadAdjacentScenes();
+      }
+    });
+    this.controlRefs.push(preloadControl);
+
     // Reload Current Scene button
     const reloadBtn = this.gui.add('button', {
       name: 'Reload with Settings',
@@ -344,12 +670,41 @@ export class UIManager {
     });
     this.controlRefs.push(geoInfoControl);
 
+    const geoOrigin = this.geoOrigin;
+    if (geoOrigin) {
+      const originControl = this.gui.add('list', {
+        name: 'Origin',
+        list: Object.values(ORIGIN_POLICY_LABELS),
+        value: ORIGIN_POLICY_LABELS[geoOrigin.getPolicy()]
+      }).onChange((value: string) => {
+        const policy = GEO_ORIGIN_POLICIES.find(key => ORIGIN_POLICY_LABELS[key] === value);
+        if (policy) geoOrigin.setPolicy(policy);
+      });
+      this.controlRefs.push(originControl);
+    }
+
+    // Loaded captures move to their positions in the new projection
+    const projectionControl = this.gui.add('list', {
+      name: 'Projection',
+      list: Object.values(PROJECTION_LABELS),
+      value: PROJECTION_LABELS[geoManager.getProjection()]
+    }).onChange((value: string) => {
+      const projection = GEO_PROJECTIONS.find(key => PROJECTION_LABELS[key] === value);
+      if (!projection) return;
+      geoManager.setProjection(projection);
+    });
+    this.controlRefs.push(projectionControl);
+
     // Reset Origin button
     const resetOriginBtn = this.gui.add('button', {
       name: 'Reset Origin',
       fontColor: '#ff8888'
     }).onChange(() => {
-      geoManager.reset();
+      if (geoOrigin) {
+        geoOrigin.resetOrigin();
+      } else {
+        geoManager.reset();
+      }
       console.log('Geospatial origin reset');
       this.updateGeospatialInfo();
     });
@@ -363,6 +718,68 @@ export class UIManager {
       this.manualPositionOverride();
     });
     this.controlRefs.push(manualPosBtn);
+
+    if (this.headingTool) {
+      this.setupHeadingControls(this.headingTool);
+    }
+  }
+
+  /**
+   * Heading controls, in the Geospatial Position group
+   * The heading is set against a north arrow and saved into the scene's location
+   */
+  private setupHeadingControls(headingTool: HeadingTool): void {
+    const arrowControl = this.gui.add('bool', {
+      name: 'North Arrow',
+      value: headingTool.isEditing()
+    }).onChange((value: boolean) => {
+      headingTool.setEditing(value);
+    });
+    this.controlRefs.push(arrowControl);
+
+    const headingControl = this.gui.add('slide', {
+      name: 'Heading',
+      min: 0,
+      max: 360,
+      value: headingTool.getHeading(),
+      precision: 1,
+      step: 0.5
+    }).onChange((value: number) => {
+      headingTool.setHeading(value);
+    });
+    this.controlRefs.push(headingControl);
+
+    const saveBtn = this.gui.add('button', {
+      name: 'Save Heading to Scene',
+      fontColor: '#88ff88'
+    }).onChange(() => {
+      const scene = this.sceneManager.getCurrentScene();
+      if (!headingTool.saveToScene() || !scene) {
+        alert('Load a scene first.');
+        return;
+      }
+      this.gui.setVal('Info', `Saved heading for ${scene.title}\n\nUse "Export Catalog" to keep it.`);
+    });
+    this.controlRefs.push(saveBtn);
+
+    const revertBtn = this.gui.add('button', {
+      name: 'Revert Heading',
+      fontColor: '#ff8888'
+    }).onChange(() => {
+      headingTool.revert();
+    });
+    this.controlRefs.push(revertBtn);
+
+    // Follow headings set by scene loads, the gizmo and the scene editor
+    this.eventUnsubscribers.push(
+      headingTool.events.on('headingChanged', ({ heading }) => {
+        this.gui.setVal('Heading', heading);
+        this.updateGeospatialInfo();
+      }),
+      headingTool.events.on('editingChanged', ({ enabled }) => {
+        this.gui.setVal('North Arrow', enabled);
+      })
+    );
   }
 
   /**
@@ -380,25 +797,34 @@ export class UIManager {
       precision: 1,
       step: 0.5
     }).onChange((value: number) => {
-      this.state.timeOfDay = value;
-      this.platformEnv.timeOfDay = value;
+      this.setTimeOfDay(value, false);
     });
     this.controlRefs.push(timeControl);
 
-    // Ambient Light Intensity
-    const ambientLight = this.platformEnv.getDirectionalLight();
+    // Sun Intensity (at noon, scaled down with sun elevation)
     const ambientControl = this.gui.add('slide', {
       name: 'Sun Intensity',
       min: 0.1,
       max: 3.0,
-      value: 1.5,
+      value: this.platformEnv.sunIntensity,
       precision: 2,
       step: 0.1
     }).onChange((value: number) => {
-      ambientLight.intensity = value;
+      this.platformEnv.sunIntensity = value;
     });
     this.controlRefs.push(ambientControl);
 
+    // Keep the current lighting instead of scene presets for this session
+    const overrideControl = this.gui.add('bool', {
+      name: 'Override Scene Lighting',
+      value: this.state.environmentOverride
+    }).onChange((value: boolean) => {
+      this.state.environmentOverride = value;
+      sessionStorage.setItem(ENVIRONMENT_OVERRIDE_KEY, String(value));
+      this.sceneManager.setEnvironmentOverride(value);
+    });
+    this.controlRefs.push(overrideControl);
+
     // Shadow toggle
     if (this.renderer) {
       const shadowControl = this.gui.add('bool', {
@@ -413,6 +839,18 @@ export class UIManager {
     }
   }
 
+  /**
+   * Updates the environment sliders after a scene preset was blended in
+   */
+  private syncEnvironmentControls(): void {
+    const { timeOfDay, sunIntensity } = this.platformEnv.getEnvironment();
+    this.state.timeOfDay = timeOfDay;
+    this.gui.setVal('Time (H)', timeOfDay);
+    this.gui.setVal('Sun Intensity', sunIntensity);
+
+    this.events.emit('timeOfDayChanged', { hour: timeOfDay });
+  }
+
   /**
    * Model transformation controls (Row 6)
    */
@@ -428,8 +866,7 @@ export class UIManager {
       precision: 2,
       step: 0.1
     }).onChange((value: number) => {
-      this.state.modelScale = value;
-      this.nerfLoader.setScale(value);
+      this.applyModelTransforms({ scale: value }, false);
     });
     this.controlRefs.push(scaleControl);
 
@@ -442,10 +879,7 @@ export class UIManager {
       precision: 1,
       step: 0.5
     }).onChange((value: number) => {
-      const container = this.nerfLoader.getContainer();
-      const delta = value - this.state.modelYOffset;
-      container.position.y += delta;
-      this.state.modelYOffset = value;
+      this.applyModelTransforms({ yOffset: value }, false);
     });
     this.controlRefs.push(yOffsetControl);
 
@@ -458,13 +892,11 @@ export class UIManager {
       precision: 0,
       step: 5
     }).onChange((value: number) => {
-      this.state.modelRotationY = value;
-      const container = this.nerfLoader.getContainer();
-      container.rotation.y = (value * Math.PI) / 180;
+      this.applyModelTransforms({ rotationY: value }, false);
     });
     this.controlRefs.push(rotationControl);
 
-    // Reset button
+    // Reset button (back to the scene's default transform)
     const resetBtn = this.gui.add('button', {
       name: 'Reset Transforms',
       fontColor: '#ff8888'
@@ -472,45 +904,799 @@ export class UIManager {
       this.resetModelTransforms();
     });
     this.controlRefs.push(resetBtn);
+
+    // Put the detected ground plane on the platform surface
+    const levelBtn = this.gui.add('button', {
+      name: 'Level to Ground',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      if (!this.nerfLoader.levelToGround()) {
+        this.gui.setVal('Info', 'No ground plane found\n\nUse the Y Offset and Rotation Y sliders instead.');
+      }
+    });
+    this.controlRefs.push(levelBtn);
+
+    // Store the current transform as the scene's default
+    const saveDefaultBtn = this.gui.add('button', {
+      name: 'Save as Scene Default',
+      fontColor: '#88ff88'
+    }).onChange(() => {
+      this.saveSceneDefaultTransform();
+    });
+    this.controlRefs.push(saveDefaultBtn);
+
+    // Download the catalog including saved defaults
+    const exportBtn = this.gui.add('button', {
+      name: 'Export Catalog',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      this.exportCatalog();
+    });
+    this.controlRefs.push(exportBtn);
+
+    // Report suspicious or duplicate metadata before exporting
+    const checkBtn = this.gui.add('button', {
+      name: 'Check Catalog',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      this.showLintReport();
+    });
+    this.controlRefs.push(checkBtn);
+  }
+
+  /**
+   * Multi-capture controls (Row 7)
+   */
+  private setupMultiCaptureControls(multiCapture: MultiCaptureManager): void {
+    this.gui.add('group', { name: 'Multi-Capture', open: false });
+
+    const radiusControl = this.gui.add('slide', {
+      name: 'Radius (m)',
+      min: 10,
+      max: 5000,
+      value: this.state.captureRadius,
+      precision: 0,
+      step: 10
+    }).onChange((value: number) => {
+      this.state.captureRadius = value;
+    });
+    this.controlRefs.push(radiusControl);
+
+    const nearbyBtn = this.gui.add('button', {
+      name: 'Show Nearby',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      const location = this.sceneManager.getCurrentScene()?.location
+        || this.nerfLoader.getGeoManager().getOrigin();
+      if (!location) {
+        alert('Load a scene first to choose captures around it.');
+        return;
+      }
+      this.showCaptures({ near: { location, radius: this.state.captureRadius } });
+    });
+    this.controlRefs.push(nearbyBtn);
+
+    const tagBtn = this.gui.add('button', {
+      name: 'Show by Tag',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      const tag = prompt('Enter tag:');
+      if (tag && tag.trim()) {
+        this.showCaptures({ tag: tag.trim() });
+      }
+    });
+    this.controlRefs.push(tagBtn);
+
+    const idsBtn = this.gui.add('button', {
+      name: 'Show by IDs',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      const input = prompt('Enter scene IDs (comma separated):');
+      const ids = input?.split(',').map(id => id.trim()).filter(Boolean);
+      if (ids && ids.length > 0) {
+        this.showCaptures({ ids });
+      }
+    });
+    this.controlRefs.push(idsBtn);
+
+    const captureInfo = this.gui.add('string', {
+      name: 'Captures',
+      value: 'No captures loaded',
+      height: 80,
+      mode: 'text'
+    });
+    this.controlRefs.push(captureInfo);
+
+    const toggleBtn = this.gui.add('button', {
+      name: 'Toggle Capture',
+      fontColor: '#cccccc'
+    }).onChange(() => {
+      const captures = multiCapture.getCaptures();
+      if (captures.length === 0) return;
+      const input = prompt('Capture number to show/hide:', '1');
+      const capture = captures[Number(input) - 1];
+      if (capture) {
+        multiCapture.setCaptureVisible(capture.scene.id, !capture.visible);
+      }
+    });
+    this.controlRefs.push(toggleBtn);
+
+    const clearBtn = this.gui.add('button', {
+      name: 'Clear Captures',
+      fontColor: '#ff8888'
+    }).onChange(() => {
+      multiCapture.clear();
+    });
+    this.controlRefs.push(clearBtn);
+
+    const events = multiCapture.events;
+    const update = () => this.updateCaptureInfo(multiCapture);
+    this.eventUnsubscribers.push(
+      events.on('captureLoaded', update),
+      events.on('captureUnloaded', update),
+      events.on('captureVisibilityChanged', update),
+      events.on('loadProgress', ({ scene, progress }) => {
+        this.gui.setVal('Captures', `Loading ${scene.title}... ${Math.round(progress * 100)}%`);
+      })
+    );
+  }
+
+  /**
+   * Annotation controls (Row 8)
+   * Annotations added in authoring mode are kept with Export Catalog
+   */
+  private setupAnnotationControls(annotations: AnnotationManager): void {
+    this.gui.add('group', { name: 'Annotations', open: false });
+
+    const markersControl = this.gui.add('bool', {
+      name: 'Show Markers',
+      value: true
+    }).onChange((value: boolean) => {
+      annotations.setMarkersVisible(value);
+    });
+    this.controlRefs.push(markersControl);
+
+    const authoringControl = this.gui.add('bool', {
+      name: 'Authoring Mode',
+      value: annotations.isAuthoring()
+    }).onChange((value: boolean) => {
+      annotations.setAuthoring(value);
+      if (value) {
+        console.log('Authoring mode: click the model to add an annotation, click a marker to edit it');
+      }
+    });
+    this.controlRefs.push(authoringControl);
+  }
+
+  /**
+   * Story controls (Row 9) and the choices panel shown for story beats
+   */
+  private setupStoryControls(story: StoryGraph): void {
+    this.gui.add('group', { name: story.getTitle() ? `Story: ${story.getTitle()}` : 'Story', open: false });
+
+    const chapters = story.getChapters();
+    const chapterNames = chapters.map((chapter, i) => `${i + 1}: ${chapter.title}`);
+    this.controls.chapterSelector = this.gui.add('list', {
+      name: 'Chapter',
+      list: chapterNames,
+      value: chapterNames[0]
+    }).onChange((value: string) => {
+      const chapter = chapters[parseInt(value.split(':')[0]) - 1];
+      if (chapter) {
+        this.runStoryNavigation(story.startChapter(chapter.id), `chapter ${chapter.title}`);
+      }
+    });
+
+    const panelBtn = this.gui.add('button', {
+      name: 'Show Story Panel',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      this.updateStoryPanel(story);
+    });
+    this.controlRefs.push(panelBtn);
+
+    this.storyPanel = new OverlayPanel({ placement: 'bottom', width: '480px' });
+
+    this.eventUnsubscribers.push(
+      story.events.on('positionChanged', ({ chapter }) => {
+        const chapterIndex = chapter ? chapters.indexOf(chapter) : -1;
+        if (chapterIndex >= 0) {
+          this.controls.chapterSelector?.setValue(chapterNames[chapterIndex]);
+        }
+        this.updateStoryPanel(story);
+      })
+    );
   }
 
   /**
-   * Load scene at specific index and update UI
+   * Shows the current beat's narration, choices and a Continue button
+   * (hidden when the current scene is not part of the story)
    */
-  private async loadSceneAtIndex(index: number): Promise<void> {
+  private updateStoryPanel(story: StoryGraph): void {
+    const panel = this.storyPanel;
+    if (!panel) return;
+
+    const chapter = story.getCurrentChapter();
+    const beat = story.getCurrentBeat();
+    const position = story.getPosition();
+    if (!chapter || !beat || !position) {
+      panel.hide();
+      return;
+    }
+
+    const scene = this.sceneManager.getSceneInfo(beat.sceneId);
+    panel.setTitle(`${chapter.title} · ${position.beatIndex + 1}/${chapter.beats.length}`);
+
+    const heading = document.createElement('div');
+    heading.style.cssText = 'font-weight:600; margin-bottom:6px;';
+    heading.textContent = scene?.title || beat.sceneId;
+    panel.setContent(heading, ...(beat.text ? [renderRichText(beat.text)] : []));
+
+    const actions: Array<{ label: string; onClick: () => void; primary?: boolean }> = story
+      .getChoices()
+      .map(choice => ({
+        label: choice.label,
+        primary: true,
+        onClick: () => this.runStoryNavigation(story.choose(choice), `"${choice.label}"`)
+      }));
+    if (story.hasNext()) {
+      actions.push({
+        label: 'Continue',
+        onClick: () => this.runStoryNavigation(story.next(), 'the next beat')
+      });
+    }
+    if (this.sceneManager.getHistory().length > 1) {
+      actions.push({ label: 'Back', onClick: () => this.previousScene() });
+    }
+
+    panel.setActions(actions);
+    panel.show();
+  }
+
+  /**
+   * Awaits a story navigation, logging failures other than cancellation
+   */
+  private async runStoryNavigation(navigation: Promise<void>, description: string): Promise<void> {
     try {
-      await this.sceneManager.loadSceneByIndex(index);
-      this.updateSceneInfo();
+      await navigation;
     } catch (error) {
-      console.error('Failed to load scene:', error);
+      if (!isLoadCancellation(error)) {
+        console.error(`Failed to go to ${description}:`, error);
+      }
     }
   }
 
   /**
-   * Load next scene
+   * Timeline controls (Row 10)
+   */
+  private setupTimelineControls(timeline: TimelineController): void {
+    this.gui.add('group', { name: 'Timeline', open: false });
+    this.timelineBar = new TimelineBar(timeline);
+    const timelineBar = this.timelineBar;
+
+    const showControl = this.gui.add('bool', {
+      name: 'Show Timeline',
+      value: false
+    }).onChange((value: boolean) => {
+      if (value) {
+        timelineBar.show();
+      } else {
+        timelineBar.hide();
+      }
+    });
+    this.controlRefs.push(showControl);
+
+    const playBtn = this.gui.add('button', {
+      name: 'Play / Pause',
+      fontColor: '#88ff88'
+    }).onChange(() => {
+      if (timeline.isPlaying()) {
+        timeline.pause();
+      } else {
+        timelineBar.show();
+        this.gui.setVal('Show Timeline', true);
+        timeline.play();
+      }
+    });
+    this.controlRefs.push(playBtn);
+
+    const intervalControl = this.gui.add('slide', {
+      name: 'Interval (s)',
+      min: 2,
+      max: 30,
+      value: timeline.getInterval() / 1000,
+      precision: 0,
+      step: 1
+    }).onChange((value: number) => {
+      timeline.setInterval(value * 1000);
+    });
+    this.controlRefs.push(intervalControl);
+
+    const loopControl = this.gui.add('bool', {
+      name: 'Loop',
+      value: false
+    }).onChange((value: boolean) => {
+      timeline.setLoop(value);
+    });
+    this.controlRefs.push(loopControl);
+
+    const rangeBtn = this.gui.add('button', {
+      name: 'Date Range',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      const input = prompt('Date range (YYYY-MM-DD..YYYY-MM-DD, either side optional; empty for all):', '');
+      if (input === null) return;
+
+      const [fromText = '', toText = ''] = input.split('..').map(part => part.trim());
+      const from = fromText ? new Date(fromText) : undefined;
+      // An end date includes that whole day
+      const to = toText ? new Date(`${toText}T23:59:59.999Z`) : undefined;
+      if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+        alert('Dates must be written as YYYY-MM-DD.');
+        return;
+      }
+      timeline.setFilter({ ...timeline.getFilter(), from, to });
+    });
+    this.controlRefs.push(rangeBtn);
+
+    // Compare captures of the current scene's place across dates
+    const compareControl = this.gui.add('bool', {
+      name: 'Same Location',
+      value: false
+    }).onChange((value: boolean) => {
+      const current = this.sceneManager.getCurrentScene();
+      if (!value) {
+        timeline.clearComparison();
+      } else if (current) {
+        const entries = timeline.compareLocation(current);
+        console.log(`Timeline: ${entries.length} captures of ${current.title}'s location`);
+      } else {
+        alert('Load a scene first to compare its location over time.');
+        this.gui.setVal('Same Location', false);
+      }
+    });
+    this.controlRefs.push(compareControl);
+
+    const syncControl = this.gui.add('bool', {
+      name: 'Sync Environment',
+      value: timeline.isSyncingEnvironment()
+    }).onChange((value: boolean) => {
+      timeline.setSyncEnvironment(value);
+    });
+    this.controlRefs.push(syncControl);
+
+    this.eventUnsubscribers.push(
+      timeline.events.on('environmentSynced', () => this.syncEnvironmentControls())
+    );
+  }
+
+  /**
+   * Scene authoring controls (Row 11)
+   * Edits are kept as a local draft until exported from the editor or with Export Catalog
+   */
+  private setupAuthoringControls(authoring: SceneAuthoring): void {
+    this.gui.add('group', { name: 'Scene Authoring', open: false });
+    this.sceneEditor = new SceneEditor(authoring, this.sceneManager, this.nerfLoader);
+    const editor = this.sceneEditor;
+
+    const editBtn = this.gui.add('button', {
+      name: 'Edit Current Scene',
+      fontColor: '#88ccff'
+    }).onChange(() => {
+      editor.open();
+    });
+    this.controlRefs.push(editBtn);
+
+    const newBtn = this.gui.add('button', {
+      name: 'New Scene',
+      fontColor: '#88ff88'
+    }).onChange(() => {
+      editor.open(null);
+    });
+    this.controlRefs.push(newBtn);
+
+    const undoBtn = this.gui.add('button', {
+      name: 'Undo Edit',
+      fontColor: '#ffaa88'
+    }).onChange(() => {
+      this.runAuthoringStep(() => authoring.undo(), 'undo');
+    });
+    this.controlRefs.push(undoBtn);
+
+    const redoBtn = this.gui.add('button', {
+      name: 'Redo Edit',
+      fontColor: '#ffaa88'
+    }).onChange(() => {
+      this.runAuthoringStep(() => authoring.redo(), 'redo');
+    });
+    this.controlRefs.push(redoBtn);
+
+    this.eventUnsubscribers.push(
+      authoring.events.on('draftRestored', ({ edits, savedAt }) => {
+        this.gui.setVal('Info', `Restored ${edits} unexported scene edits from ${savedAt.slice(0, 10)}\n\nExport the catalog to keep them.`);
+      })
+    );
+  }
+
+  /**
+   * Crop volume controls (Row 12)
+   * Crops are edited with a gizmo on the model and saved into the scene's catalog entry
+   */
+  private setupCropControls(cropEditor: CropEditor): void {
+    this.gui.add('group', { name: 'Crop Volume', open: false });
+
+    const shapeControl = this.gui.add('list', {
+      name: 'Crop Shape',
+      list: Object.values(CROP_SHAPE_LABELS),
+      value: CROP_SHAPE_LABELS[cropEditor.getShape() ?? 'platform']
+    }).onChange((value: string) => {
+      const shape = (Object.keys(CROP_SHAPE_LABELS) as Array<SceneCropShape | 'platform'>)
+        .find(key => CROP_SHAPE_LABELS[key] === value);
+      if (shape) cropEditor.setShape(shape === 'platform' ? null : shape);
+    });
+    this.controlRefs.push(shapeControl);
+
+    const keepControl = this.gui.add('bool', {
+      name: 'Keep Inside',
+      value: cropEditor.getKeep() === 'inside'
+    }).onChange((value: boolean) => {
+      cropEditor.setKeep(value ? 'inside' : 'outside');
+    });
+    this.controlRefs.push(keepControl);
+
+    const editControl = this.gui.add('bool', {
+      name: 'Edit Crop',
+      value: cropEditor.isEditing()
+    }).onChange((value: boolean) => {
+      cropEditor.setEditing(value);
+    });
+    this.controlRefs.push(editControl);
+
+    const modes: Record<string, CropGizmoMode> = { Move: 'translate', Rotate: 'rotate', Scale: 'scale' };
+    const modeControl = this.gui.add('list', {
+      name: 'Gizmo',
+      list: Object.keys(modes),
+      value: 'Move'
+    }).onChange((value: string) => {
+      cropEditor.setMode(modes[value]);
+    });
+    this.controlRefs.push(modeControl);
+
+    const saveBtn = this.gui.add('button', {
+      name: 'Save Crop to Scene',
+      fontColor: '#88ff88'
+    }).onChange(() => {
+      const scene = this.sceneManager.getCurrentScene();
+      if (!cropEditor.saveToScene() || !scene) {
+        alert('Load a scene first.');
+        return;
+      }
+      this.gui.setVal('Info', `Saved crop volume for ${scene.title}\n\nUse "Export Catalog" to keep it.`);
+    });
+    this.controlRefs.push(saveBtn);
+
+    const revertBtn = this.gui.add('button', {
+      name: 'Revert Crop',
+      fontColor: '#ff8888'
+    }).onChange(() => {
+      cropEditor.revert();
+    });
+    this.controlRefs.push(revertBtn);
+
+    // Follow crops set by scene loads, undo and the scene editor
+    this.eventUnsubscribers.push(
+      this.nerfLoader.events.on('cropChanged', ({ crop }) => {
+        this.gui.setVal('Crop Shape', CROP_SHAPE_LABELS[crop?.shape ?? 'platform']);
+        this.gui.setVal('Keep Inside', (crop?.keep ?? 'inside') === 'inside');
+      }),
+      cropEditor.events.on('editingChanged', ({ enabled }) => {
+        this.gui.setVal('Edit Crop', enabled);
+      })
+    );
+  }
+
+  /**
+   * Runs an undo or redo step, reporting when there is nothing to do
+   */
+  private runAuthoringStep(step: () => boolean, name: string): void {
+    try {
+      if (!step()) this.gui.setVal('Info', `Nothing to ${name}`);
+    } catch (error) {
+      console.error(`Scene edit ${name} failed:`, error);
+      this.gui.setVal('Info', `Could not ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Shows the selected captures, hiding the single-scene model meanwhile
+   */
+  private async showCaptures(selector: CaptureSelector): Promise<void> {
+    const multiCapture = this.multiCapture;
+    if (!multiCapture) return;
+
+    if (multiCapture.selectScenes(selector).length === 0) {
+      alert('No scenes match the selection.');
+      return;
+    }
+
+    this.nerfLoader.getContainer().visible = false;
+    const captures = await multiCapture.showCaptures(selector);
+    console.log(`Multi-capture: ${captures.length} captures loaded`);
+    this.updateCaptureInfo(multiCapture);
+  }
+
+  /**
+   * Update the multi-capture list
+   */
+  private updateCaptureInfo(multiCapture: MultiCaptureManager): void {
+    const captures = multiCapture.getCaptures();
+
+    // Back to single-scene mode once every capture is unloaded
+    if (captures.length === 0) {
+      this.nerfLoader.getContainer().visible = true;
+      this.gui.setVal('Captures', 'No captures loaded');
+      return;
+    }
+
+    const lines = captures.map((capture, i) => {
+      const mark = capture.visible ? '●' : '○';
+      const distance = capture.distanceFromOrigin !== null
+        ? ` (${capture.distanceFromOrigin.toFixed(0)}m)`
+        : '';
+      return `${i + 1}. ${mark} ${capture.scene.title}${distance}`;
+    });
+    const megabytes = multiCapture.getEstimatedBytes() / (1024 * 1024);
+    lines.push(`~${megabytes.toFixed(0)} MB`);
+
+    this.gui.setVal('Captures', lines.join('\n'));
+  }
+
+  /**
+   * Gets the current values of the Model Adjustments sliders
+   */
+  public getModelTransformState(): ModelTransformState {
+    return {
+      scale: this.state.modelScale,
+      yOffset: this.state.modelYOffset,
+      rotationY: this.state.modelRotationY
+    };
+  }
+
+  /**
+   * Gets the slider values of the current scene's default transform
+   */
+  public getDefaultModelTransformState(): ModelTransformState {
+    return toModelTransformState(this.sceneManager.getCurrentScene()?.transform ?? {});
+  }
+
+  /**
+   * Applies model adjustments to the container and keeps the sliders in sync
+   * @param transforms - Values to change; omitted values are left untouched
+   * @param updateControls - Whether to move the sliders (false when called from a slider)
+   */
+  public applyModelTransforms(
+    transforms: Partial<ModelTransformState>,
+    updateControls: boolean = true
+  ): void {
+    const transform = this.nerfLoader.getModelTransform();
+    const { scale, yOffset, rotationY } = transforms;
+
+    if (scale !== undefined) {
+      this.state.modelScale = scale;
+      transform.scale = scale;
+      if (updateControls) this.gui.setVal('Scale', scale);
+    }
+
+    if (yOffset !== undefined) {
+      this.state.modelYOffset = yOffset;
+      transform.position[1] = yOffset;
+      if (updateControls) this.gui.setVal('Y Offset', yOffset);
+    }
+
+    if (rotationY !== undefined) {
+      // Replace the heading only, keeping any tilt from the scene preset
+      const quaternion = new THREE.Quaternion().fromArray(transform.quaternion);
+      const euler = new THREE.Euler().setFromQuaternion(quaternion, 'YXZ');
+      euler.y = THREE.MathUtils.degToRad(rotationY);
+      transform.quaternion = quaternion.setFromEuler(euler).toArray() as [number, number, number, number];
+
+      this.state.modelRotationY = rotationY;
+      if (updateControls) this.gui.setVal('Rotation Y', rotationY);
+    }
+
+    this.nerfLoader.setModelTransform(transform);
+    this.events.emit('modelTransformChanged', this.getModelTransformState());
+  }
+
+  /**
+   * Updates the sliders from the loader's model transform (e.g. after a scene preset was applied)
+   */
+  private syncModelTransformControls(): void {
+    const { scale, yOffset, rotationY } = toModelTransformState(this.nerfLoader.getModelTransform());
+    this.state.modelScale = scale;
+    this.state.modelYOffset = yOffset;
+    this.state.modelRotationY = rotationY;
+
+    this.gui.setVal('Scale', scale);
+    this.gui.setVal('Y Offset', yOffset);
+    this.gui.setVal('Rotation Y', rotationY);
+  }
+
+  /**
+   * Asks to keep, adjust or undo a ground leveling
+   */
+  private showLevelingPanel(leveling: GroundLeveling): void {
+    if (!this.levelPanel) {
+      this.levelPanel = new OverlayPanel({ title: 'Ground Leveling', placement: 'bottom', width: '480px' });
+    }
+    const panel = this.levelPanel;
+    const { plane, previous, transform } = leveling;
+
+    const text = document.createElement('p');
+    text.style.margin = '0';
+    const lift = transform.position[1] - previous.position[1];
+    text.textContent =
+      `The ground was tilted ${plane.tilt.toFixed(1)}° and the model was ${lift >= 0 ? 'raised' : 'lowered'} ` +
+      `${Math.abs(lift).toFixed(2)} m (${Math.round(plane.inlierRatio * 100)}% of the lowest splats lie on it). ` +
+      'Fine-tune with the buttons below or the Model Adjustments sliders.';
+
+    const nudge = (meters: number) => {
+      this.applyModelTransforms({ yOffset: this.state.modelYOffset + meters });
+    };
+    panel.setContent(text);
+    panel.setActions([
+      { label: 'Keep', primary: true, onClick: () => panel.close() },
+      { label: 'Raise 0.1 m', onClick: () => nudge(0.1) },
+      { label: 'Lower 0.1 m', onClick: () => nudge(-0.1) },
+      {
+        label: 'Save as Scene Default',
+        onClick: () => {
+          this.saveSceneDefaultTransform();
+          panel.close();
+        }
+      },
+      {
+        label: 'Undo',
+        onClick: () => {
+          this.nerfLoader.setModelTransform(previous);
+          this.syncModelTransformControls();
+          this.events.emit('modelTransformChanged', this.getModelTransformState());
+          panel.close();
+        }
+      }
+    ]);
+    panel.show();
+  }
+
+  /**
+   * Saves the current model transform as the current scene's default
+   */
+  private saveSceneDefaultTransform(): void {
+    const scene = this.sceneManager.getCurrentScene();
+    if (!scene) {
+      alert('Load a scene first.');
+      return;
+    }
+
+    this.sceneManager.setSceneTransform(scene.id, this.nerfLoader.getModelTransform());
+    this.gui.setVal('Info', `Saved default transform for ${scene.title}\n\nUse "Export Catalog" to keep it.`);
+  }
+
+  /**
+   * Lints the current catalog and lists the issues by severity;
+   * clicking an issue loads its scene
+   */
+  private showLintReport(): void {
+    const report = lintCatalog(this.sceneManager.getAllScenes());
+    if (!this.lintPanel) {
+      this.lintPanel = new OverlayPanel({ title: 'Catalog Check', placement: 'center', width: '560px' });
+    }
+    const panel = this.lintPanel;
+
+    const { error, warning, info } = report.counts;
+    const summary = document.createElement('div');
+    summary.style.cssText = 'margin-bottom:8px;';
+    summary.textContent = report.issues.length === 0
+      ? `${report.sceneCount} scenes, no issues found`
+      : `${report.sceneCount} scenes: ${error} errors, ${warning} warnings, ${info} notes`;
+
+    const colors: Record<LintSeverity, string> = { error: '#ff8888', warning: '#ffcc66', info: '#88ccff' };
+    const renderIssue = (issue: LintIssue) => {
+      const item = document.createElement('button');
+      item.title = issue.relatedIds?.length ? `Also: ${issue.relatedIds.join(', ')}` : `Load ${issue.sceneId}`;
+      item.style.cssText =
+        'display:block; width:100%; text-align:left; padding:6px 10px; min-height:36px; cursor:pointer;' +
+        'border-radius:4px; color:inherit; font-size:12px; background:rgba(255, 255, 255, 0.04);' +
+        `border:1px solid rgba(255, 255, 255, 0.1); border-left:3px solid ${colors[issue.severity]};`;
+
+      const heading = document.createElement('div');
+      heading.style.cssText = 'font-weight:600;';
+      heading.textContent = `${issue.sceneId}${issue.field ? ` · ${issue.field}` : ''}`;
+
+      const message = document.createElement('div');
+      message.style.cssText = 'opacity:0.8;';
+      message.textContent = `${issue.message} [${issue.rule}]`;
+
+      item.append(heading, message);
+      item.addEventListener('click', () => {
+        panel.close();
+        this.sceneManager.loadSceneById(issue.sceneId).catch(err => {
+          if (!isLoadCancellation(err)) console.error(`Failed to load ${issue.sceneId}:`, err);
+        });
+      });
+      return item;
+    };
+
+    const list = document.createElement('div');
+    list.style.cssText = 'display:flex; flex-direction:column; gap:4px;';
+    list.append(...report.issues.map(renderIssue));
+
+    panel.setContent(summary, list);
+    panel.setActions([{ label: 'Recheck', onClick: () => this.showLintReport() }]);
+    panel.show();
+
+    this.gui.setVal('Info', report.ok
+      ? `Catalog check: ${warning} warnings, ${info} notes`
+      : `Catalog check: ${error} errors, ${warning} warnings`);
+  }
+
+  /**
+   * Downloads the scene catalog, including saved default transforms, as a manifest
+   */
+  private exportCatalog(): void {
+    const manifest = createSceneManifest(this.sceneManager.getAllScenes());
+    const blob = new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'scenes.json';
+    link.click();
+    URL.revokeObjectURL(url);
+
+    this.authoring?.markExported('json');
+  }
+
+  /**
+   * Sets the time of day and keeps the slider in sync
+   * @param hour - Time in hours (0-24)
+   * @param updateControls - Whether to move the slider (false when called from the slider)
+   */
+  public setTimeOfDay(hour: number, updateControls: boolean = true): void {
+    this.state.timeOfDay = hour;
+    this.platformEnv.timeOfDay = hour;
+    if (updateControls) this.gui.setVal('Time (H)', hour);
+
+    this.events.emit('timeOfDayChanged', { hour });
+  }
+
+  /**
+   * Load next scene: the next story beat while in the story, else the next catalog scene
    */
   private async nextScene(): Promise<void> {
     try {
+      if (this.story?.hasNext()) {
+        await this.story.next();
+        return;
+      }
       await this.sceneManager.loadNextScene();
-      this.state.currentScene = this.sceneManager.getCurrentSceneIndex();
-      this.updateSceneInfo();
-      this.updateSceneSelector();
     } catch (error) {
-      console.error('Failed to load next scene:', error);
+      if (!isLoadCancellation(error)) {
+        console.error('Failed to load next scene:', error);
+      }
     }
   }
 
   /**
-   * Load previous scene
+   * Go back to the previously visited scene
    */
   private async previousScene(): Promise<void> {
     try {
       await this.sceneManager.loadPreviousScene();
-      this.state.currentScene = this.sceneManager.getCurrentSceneIndex();
-      this.updateSceneInfo();
-      this.updateSceneSelector();
     } catch (error) {
-      console.error('Failed to load previous scene:', error);
+      if (!isLoadCancellation(error)) {
+        console.error('Failed to load previous scene:', error);
+      }
     }
   }
 
@@ -532,18 +1718,6 @@ export class UIManager {
     }
   }
 
-  /**
-   * Update scene selector value
-   */
-  private updateSceneSelector(): void {
-    const scenes = this.sceneManager.getAllScenes();
-    const index = this.state.currentScene;
-    if (index >= 0 && index < scenes.length && this.controls.sceneSelector) {
-      const sceneLabel = `${index}: ${scenes[index].title}`;
-      this.controls.sceneSelector.setValue(sceneLabel);
-    }
-  }
-
   /**
    * Update geospatial info display
    */
@@ -568,13 +1742,75 @@ export class UIManager {
       }
     }
 
+    const orientation = this.nerfLoader.getGeoOrientation();
+    if (orientation) {
+      const rotation = geoManager.orientationToScene(orientation);
+      const { heading = 0, pitch = 0, roll = 0 } = geoManager.orientationFromScene(rotation);
+      positionInfo += `\nHeading: ${heading.toFixed(1)}°`;
+      if (pitch || roll) positionInfo += ` (pitch ${pitch}°, roll ${roll}°)`;
+    }
+
     this.gui.setVal('Location', positionInfo);
   }
 
   /**
-   * Reset camera to default position
+   * Moves to the next viewpoint of the current scene, wrapping around
+   */
+  private nextViewpoint(): void {
+    const viewpoints = this.sceneManager.getCurrentScene()?.viewpoints;
+    if (!this.cameraDirector || !viewpoints?.length) {
+      this.gui.setVal('Info', 'This scene has no viewpoints yet.\nUse "Save Viewpoint" to add one.');
+      return;
+    }
+
+    this.state.viewpointIndex = (this.state.viewpointIndex + 1) % viewpoints.length;
+    const viewpoint = viewpoints[this.state.viewpointIndex];
+    this.gui.setVal('Info', `Viewpoint ${this.state.viewpointIndex + 1}/${viewpoints.length}: ${viewpoint.name}`);
+    this.moveCamera(this.cameraDirector.goToViewpoint(viewpoint));
+  }
+
+  /**
+   * Saves the current camera view as a viewpoint of the current scene
+   */
+  private saveViewpoint(): void {
+    const scene = this.sceneManager.getCurrentScene();
+    if (!this.cameraDirector || !scene) {
+      alert('Load a scene first.');
+      return;
+    }
+
+    const count = scene.viewpoints?.length ?? 0;
+    const name = prompt('Viewpoint name:', `View ${count + 1}`);
+    if (!name || !name.trim()) return;
+
+    this.sceneManager.addSceneViewpoint(scene.id, this.cameraDirector.captureViewpoint(name.trim()));
+    this.gui.setVal('Info', `Saved viewpoint "${name.trim()}" for ${scene.title}\n\nUse "Export Catalog" to keep it.`);
+  }
+
+  /**
+   * Keeps the FOV slider in sync once a camera move has finished
+   */
+  private moveCamera(move: Promise<void>): void {
+    move.then(() => {
+      if (this.camera instanceof THREE.PerspectiveCamera) {
+        this.state.cameraFOV = this.camera.fov;
+        this.gui.setVal('FOV', Math.round(this.camera.fov));
+      }
+    });
+  }
+
+  /**
+   * Reset camera to the scene's entry view (first viewpoint) or the default position
    */
   private resetCamera(): void {
+    if (this.cameraDirector) {
+      this.state.viewpointIndex = 0;
+      this.moveCamera(
+        this.cameraDirector.goToEntryView(this.sceneManager.getCurrentScene()?.viewpoints)
+      );
+      return;
+    }
+
     if (this.camera) {
       this.camera.position.set(30, 20, 30);
       this.camera.lookAt(0, 0, 0);
@@ -592,34 +1828,83 @@ export class UIManager {
   }
 
   /**
-   * Load custom NeRF URL via prompt
+   * Shows the panel for loading a capture from a URL, a file or a folder
    */
-  private loadCustomNeRFURL(): void {
-    const url = prompt('Enter Luma capture URL:', 'https://lumalabs.ai/capture/');
-    if (url && url.trim()) {
-      this.loadNeRFFromURL(url.trim());
+  private showCaptureImport(): void {
+    if (!this.importPanel) {
+      this.importPanel = new OverlayPanel({ title: 'Load Capture', placement: 'center', width: '440px' });
     }
-  }
+    const panel = this.importPanel;
+    const importer = this.importer;
+
+    const input = document.createElement('input');
+    input.type = 'url';
+    input.placeholder = 'Luma capture or .ply/.splat/.ksplat URL';
+    input.style.cssText =
+      'width:100%; background:rgba(255, 255, 255, 0.08); color:inherit; border:1px solid rgba(255, 255, 255, 0.2);' +
+      'border-radius:4px; padding:6px 8px; min-height:32px; font-size:13px; box-sizing:border-box;';
+
+    const catalogLabel = document.createElement('label');
+    catalogLabel.style.cssText = 'display:flex; gap:6px; align-items:center; cursor:pointer; margin:10px 0;';
+    const catalogCheckbox = document.createElement('input');
+    catalogCheckbox.type = 'checkbox';
+    catalogCheckbox.checked = !!importer.getDefaults().addToCatalog;
+    catalogCheckbox.addEventListener('change', () => {
+      importer.setDefaults({ ...importer.getDefaults(), addToCatalog: catalogCheckbox.checked });
+    });
+    catalogLabel.append(catalogCheckbox, document.createTextNode('Add to the session catalog'));
 
-  /**
-   * Load NeRF from custom URL
-   */
-  private async loadNeRFFromURL(url: string): Promise<void> {
-    try {
-      console.log(`Loading custom NeRF from: ${url}`);
-      await this.nerfLoader.loadNeRFModel(url, {
+    const hint = document.createElement('div');
+    hint.style.cssText = 'opacity:0.7; font-size:12px;';
+    hint.textContent = 'Files and folders (a splat file with a metadata JSON) can also be dropped onto the view.';
+
+    const status = document.createElement('div');
+    status.style.cssText = 'color:#ffaa88; white-space:pre-wrap; margin-top:8px;';
+
+    const run = async (load: (options: CaptureImportOptions) => Promise<unknown>) => {
+      status.textContent = '';
+      const options: CaptureImportOptions = {
+        addToCatalog: catalogCheckbox.checked,
         loadingAnimationEnabled: this.state.loadingAnimation,
         particleRevealEnabled: this.state.particleReveal,
         enableThreeShaderIntegration: this.state.enableShaderIntegration
-      });
+      };
+      try {
+        if (await load(options)) panel.close();
+      } catch (error) {
+        if (!isLoadCancellation(error)) {
+          status.textContent = error instanceof Error ? error.message : String(error);
+        }
+      }
+    };
 
-      this.state.nerfURL = url;
-      this.gui.setVal('Current URL', url);
-      console.log('Custom NeRF loaded successfully');
-    } catch (error) {
-      console.error('Failed to load custom NeRF:', error);
-      alert('Failed to load NeRF from URL. Check console for details.');
+    const actions: Array<{ label: string; onClick: () => void; primary?: boolean }> = [
+      {
+        label: 'Load URL',
+        primary: true,
+        onClick: () => {
+          if (input.value.trim()) run(options => importer.importUrl(input.value.trim(), options));
+        }
+      },
+      { label: 'Choose File…', onClick: () => run(options => importer.openFilePicker(false, options)) },
+      { label: 'Choose Folder…', onClick: () => run(options => importer.openFilePicker(true, options)) }
+    ];
+    const temporary = importer.getTemporaryScene();
+    if (temporary) {
+      actions.push({
+        label: `Add "${temporary.title}" to Catalog`,
+        onClick: () => {
+          const added = importer.addToCatalog();
+          this.gui.setVal('Info', added ? `${added.title} added to the session catalog` : 'The capture is no longer shown');
+          panel.close();
+        }
+      });
     }
+
+    panel.setContent(input, catalogLabel, hint, status);
+    panel.setActions(actions);
+    panel.show();
+    input.focus();
   }
 
   /**
@@ -632,13 +1917,17 @@ export class UIManager {
         console.log('Reloading scene with updated settings...');
         await this.nerfLoader.loadNeRFModel(currentScene.url, {
           location: currentScene.location,
+          transform: currentScene.transform,
           loadingAnimationEnabled: this.state.loadingAnimation,
           particleRevealEnabled: this.state.particleReveal,
           enableThreeShaderIntegration: this.state.enableShaderIntegration
         });
+        this.syncModelTransformControls();
         console.log('Scene reloaded successfully');
       } catch (error) {
-        console.error('Failed to reload scene:', error);
+        if (!isLoadCancellation(error)) {
+          console.error('Failed to reload scene:', error);
+        }
       }
     }
   }
@@ -659,22 +1948,15 @@ export class UIManager {
   }
 
   /**
-   * Reset model transforms to default
+   * Reset model transforms to the current scene's default (identity if it has none)
    */
   private resetModelTransforms(): void {
-    this.state.modelScale = 1.0;
-    this.state.modelYOffset = 0;
-    this.state.modelRotationY = 0;
-
-    const container = this.nerfLoader.getContainer();
-    this.nerfLoader.setScale(1.0);
-    container.position.y = 0;
-    container.rotation.y = 0;
+    this.nerfLoader.setModelTransform(this.sceneManager.getCurrentScene()?.transform ?? {});
 
     // Update UI sliders
-    this.gui.setVal('Scale', 1.0);
-    this.gui.setVal('Y Offset', 0);
-    this.gui.setVal('Rotation Y', 0);
+    this.syncModelTransformControls();
+
+    this.events.emit('modelTransformChanged', this.getModelTransformState());
   }
 
   /**
@@ -690,6 +1972,20 @@ export class UIManager {
   public dispose(): void {
     console.log('UIManager: Starting cleanup...');
 
+    // Remove scene event listeners
+    this.eventUnsubscribers.forEach(unsubscribe => unsubscribe());
+    this.eventUnsubscribers = [];
+    this.events.removeAllListeners();
+
+    this.sceneBrowser.dispose();
+    this.storyPanel?.dispose();
+    this.lintPanel?.dispose();
+    this.importPanel?.dispose();
+    this.levelPanel?.dispose();
+    this.timelineBar?.dispose();
+    this.sceneEditor?.dispose();
+    if (this.ownsImporter) this.importer.dispose();
+
     // Remove resize handler
     if (this.resizeHandler) {
       window.removeEventListener('resize', this.resizeHandler);
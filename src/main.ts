@@ -2,8 +2,26 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { PlatformEnvironment } from './PlatformEnvironment.js';
 import { NeRFLoader } from './NeRFLoader.js';
+import { GeoSpatialManager, GEO_PROJECTIONS } from './GeoSpatial.js';
 import { SceneManager } from './SceneManager.js';
+import { SceneTransitionController } from './SceneTransition.js';
+import { MultiCaptureManager } from './MultiCaptureManager.js';
+import { CameraDirector } from './CameraDirector.js';
+import { AnnotationManager } from './AnnotationManager.js';
+import { CropEditor } from './CropEditor.js';
+import { HeadingTool } from './HeadingTool.js';
+import { GeoOriginController, GEO_ORIGIN_POLICIES } from './GeoOrigin.js';
+import { parseCoordinates } from './SceneEditor.js';
+import { ArraySceneSource, FallbackSceneSource, ManifestSceneSource } from './SceneSource.js';
+import { NARRATIVE_SCENES } from './scenes.js';
+import { lintCatalog, formatLintReport } from './CatalogLinter.js';
+import { NARRATIVE_STORY } from './story.js';
+import { StoryGraph } from './StoryGraph.js';
+import { TimelineController } from './TimelineController.js';
+import { SceneAuthoring } from './SceneAuthoring.js';
+import { CaptureImporter } from './CaptureImporter.js';
 import { UIManager } from './UIManager.js';
+import { DeepLinkRouter } from './DeepLinkRouter.js';
 import { InWorldGUIManager } from './InWorldGUIManager.js';
 
 /**
@@ -63,13 +81,116 @@ const platformEnvironment = new PlatformEnvironment(scene, {
 // Set initial time to afternoon for nice lighting
 platformEnvironment.timeOfDay = 14; // 2 PM
 
+// Geospatial projection (override with ?projection=enu or ?projection=web-mercator)
+const projectionParam = new URLSearchParams(window.location.search).get('projection');
+const geoManager = new GeoSpatialManager({
+  projection: GEO_PROJECTIONS.find(projection => projection === projectionParam)
+});
+
 // Initialize NeRF loader with platform constraints
-const nerfLoader = new NeRFLoader(scene, {
-  size: PLATFORM_SIZE,
-  height: PLATFORM_HEIGHT,
-  surfaceY: 0  // Platform top surface is at Y=0
+const nerfLoader = new NeRFLoader(
+  scene,
+  {
+    size: PLATFORM_SIZE,
+    height: PLATFORM_HEIGHT,
+    surfaceY: 0  // Platform top surface is at Y=0
+  },
+  geoManager,
+  {
+    // Keep up to 4 hidden models (recent + preloaded neighbours) within ~768 MB
+    cache: { maxEntries: 4, maxBytes: 768 * 1024 * 1024 },
+    // Captures without a saved transform are leveled onto the platform; the
+    // UI asks to keep, adjust or undo it
+    autoLevelGround: true
+  }
+);
+
+// Load the scene catalog from an external manifest if one is available
+// (override with ?manifest=path/to/scenes.json), falling back to scenes.ts
+const SCENE_MANIFEST_URL =
+  new URLSearchParams(window.location.search).get('manifest') || '/scenes.json';
+const sceneSource = new FallbackSceneSource([
+  new ManifestSceneSource(SCENE_MANIFEST_URL),
+  new ArraySceneSource(NARRATIVE_SCENES, 'built-in catalog')
+]);
+const sceneTransitions = new SceneTransitionController(nerfLoader, {
+  camera,
+  controls,
+  style: 'crossfade',
+  duration: 1200
+});
+const sceneManager = new SceneManager(nerfLoader, sceneSource, {
+  transitions: sceneTransitions,
+  // Blend to each scene's lighting preset (e.g. dusk captures) over 2 seconds
+  environment: platformEnvironment,
+  environmentDuration: 2000
+});
+await sceneManager.initialize();
+
+// Undoable catalog editing; unexported edits from an earlier visit are
+// replayed before anything else reads the catalog
+const authoring = new SceneAuthoring(sceneManager, nerfLoader);
+authoring.restoreDraft();
+
+// Geospatial origin at the catalog's center, so positions do not depend on
+// which scene loads first (override with ?origin=filter-centroid,
+// ?origin=first-loaded or a fixed ?origin=lat,lon[,alt])
+const originParam = new URLSearchParams(window.location.search).get('origin') || '';
+const fixedOrigin = parseCoordinates(originParam);
+const geoOrigin = new GeoOriginController(sceneManager, nerfLoader, {
+  policy: fixedOrigin ? 'fixed' : GEO_ORIGIN_POLICIES.find(policy => policy === originParam) || 'catalog-centroid',
+  fixedOrigin: fixedOrigin || undefined,
+  camera,
+  controls
+});
+
+// Multi-capture mode: several geolocated captures at once, placed relative
+// to the main loader's geospatial origin
+const multiCapture = new MultiCaptureManager(scene, sceneManager, nerfLoader.getGeoManager(), {
+  maxCaptures: 6,
+  maxBytes: 1024 * 1024 * 1024,
+  platformConstraints: { size: PLATFORM_SIZE, height: PLATFORM_HEIGHT, surfaceY: 0 }
 });
-const sceneManager = new SceneManager(nerfLoader);
+
+// Smooth camera moves to per-scene viewpoints (the first one is the entry view)
+const cameraDirector = new CameraDirector(camera, controls, nerfLoader.getContainer(), {
+  duration: 1500
+});
+
+// Clickable hotspots anchored inside each capture (see SceneMetadata.annotations)
+const annotations = new AnnotationManager(scene, camera, renderer.domElement, nerfLoader, sceneManager, {
+  controls
+});
+
+// Gizmo for each capture's crop volume (see SceneMetadata.crop)
+const cropEditor = new CropEditor(scene, camera, renderer.domElement, nerfLoader, sceneManager, {
+  controls
+});
+
+// North arrow for setting each capture's heading (see GeoLocation.heading)
+const headingTool = new HeadingTool(scene, camera, renderer.domElement, nerfLoader, sceneManager, {
+  controls
+});
+
+// Chapters and branching choices through the catalog; disabled if the loaded
+// catalog (e.g. an external manifest) lacks the story's scenes
+let story: StoryGraph | undefined;
+try {
+  story = new StoryGraph(NARRATIVE_STORY, sceneManager);
+} catch (error) {
+  console.warn('Story disabled:', error instanceof Error ? error.message : error);
+}
+
+// Chronological playback of captures by captureDate, optionally syncing the
+// lighting to each capture's date
+const timeline = new TimelineController(sceneManager, nerfLoader.getGeoManager(), {
+  interval: 6000,
+  environment: platformEnvironment
+});
+
+// Loads splat files and folders dropped onto the canvas or picked in the
+// Load Capture panel
+const importer = new CaptureImporter(sceneManager, nerfLoader, { dropTarget: renderer.domElement });
 
 // Initialize UI controls with camera and renderer for enhanced controls
 const uiManager = new UIManager(sceneManager, platformEnvironment, nerfLoader, {
@@ -77,7 +198,28 @@ const uiManager = new UIManager(sceneManager, platformEnvironment, nerfLoader, {
   left: '20px',
   top: '20px',
   camera: camera,
-  renderer: renderer
+  renderer: renderer,
+  multiCapture,
+  cameraDirector,
+  annotations,
+  story,
+  timeline,
+  authoring,
+  importer,
+  cropEditor,
+  headingTool,
+  geoOrigin
+});
+
+// Restore scene, camera and environment from the URL hash and keep it in sync
+// (e.g. #scene=art-hotel&cam=12,8,20&target=0,2,0&time=18.5)
+const deepLinkRouter = new DeepLinkRouter({
+  sceneManager,
+  uiManager,
+  platformEnv: platformEnvironment,
+  camera,
+  controls,
+  cameraDirector
 });
 
 // Initialize In-World 3D GUI (optional feature)
@@ -122,6 +264,11 @@ function listScenes() {
 // Expose helper functions to window
 (window as any).loadScene = loadScene;
 (window as any).listScenes = listScenes;
+(window as any).lintCatalog = () => {
+  const report = lintCatalog(sceneManager.getAllScenes());
+  console.log(formatLintReport(report));
+  return report;
+};
 
 // Handle window resize
 window.addEventListener('resize', () => {
@@ -135,11 +282,20 @@ function animate() {
   requestAnimationFrame(animate);
 
   controls.update();
+  annotations.update();
+  cropEditor.update();
+  headingTool.update();
   renderer.render(scene, camera);
 }
 
 animate();
 
+// Restored after the render loop starts and without blocking it, so the
+// loading transition of a linked scene is drawn
+void deepLinkRouter.restore()
+  .catch(error => console.error('Deep link: failed to restore the view:', error))
+  .then(() => deepLinkRouter.start());
+
 console.log('\n🎮 MemoryBlocks - Geospatial NeRF Viewer Initialized');
 console.log('═══════════════════════════════════════════════════\n');
 console.log('✅ Platform: 60x60m with dynamic sky');
@@ -148,8 +304,8 @@ console.log('✅ Positioning: All models sit on platform surface (Y=0)');
 console.log('✅ UI: Interactive controls loaded');
 console.log('✅ 3D GUI: In-world GUI panels with terrain and sky controls');
 console.log('\n📋 UI Controls (left panel):');
-console.log('  • Scene selector dropdown - Choose from all available scenes');
-console.log('  • Previous/Next buttons - Navigate sequentially');
+console.log('  • Browse Scenes - Search by text, tags, capture date and distance');
+console.log('  • Previous/Next buttons - Go back along the path taken / continue the story');
 console.log('  • Time slider - Adjust day/night cycle (0-24 hours)');
 console.log('  • Model adjustments - Scale and vertical offset');
 console.log('\n🎨 3D In-World GUI Panels:');
@@ -161,13 +317,40 @@ console.log('  listScenes()            - Show all available scenes with details'
 console.log('  loadScene(n)            - Load scene by index (0-based)');
 console.log('  loadScene("id")         - Load scene by ID string');
 console.log('  inWorldGUI.setVisible() - Toggle 3D GUI visibility (true/false)');
-console.log('\n📍 Scene list has been populated dynamically from scenes.ts');
-console.log('   Check the UI dropdown or run listScenes() to see all scenes.\n');
+console.log('  multiCapture.showCaptures({ tag: "urban" }) - Show several captures at once');
+console.log('  story.choose(0) / story.next() - Follow the story\'s choices and chapters');
+console.log('  sceneManager.queryScenes({ tags: ["urban"], text: "hotel" }) - Search the catalog');
+console.log('  sceneManager.setNavigationScope({ tags: ["urban"] }) - Limit Next/Previous to matches');
+console.log('  timeline.play() / timeline.seekToDate(new Date("2024-03-01")) - Captures in date order');
+console.log('  authoring.undo() / authoring.exportModule() - Undo catalog edits, regenerate scenes.ts');
+console.log('  annotations.setAuthoring(true) - Click the model to add annotations');
+console.log('  cropEditor.setShape("box") / cropEditor.setEditing(true) - Crop floaters with a gizmo');
+console.log('  headingTool.setEditing(true) / headingTool.setHeading(90) - Face the capture to true north');
+console.log('  geoOrigin.setPolicy("filter-centroid") - Center the origin on the scoped scenes');
+console.log('  geoManager.sceneToGeo(nerfLoader.getContainer().position) - Coordinates of a scene position');
+console.log('  nerfLoader.levelToGround() - Put the capture\'s ground plane on the platform');
+console.log('  lintCatalog()           - Report duplicate or suspicious scene metadata');
+console.log('  importer.openFilePicker() - Load a local .ply/.splat/.ksplat file (or drop one onto the view)');
+console.log('  deepLinkRouter.getShareUrl() - Link to the current scene, view and time');
+console.log(`\n📍 Scene list has been populated dynamically (manifest: ${SCENE_MANIFEST_URL}, fallback: scenes.ts)`);
+console.log('   Click "Browse Scenes" or run listScenes() to see all scenes.\n');
 
 // Expose to window for testing
 (window as any).platformEnvironment = platformEnvironment;
 (window as any).nerfLoader = nerfLoader;
+(window as any).geoManager = geoManager;
+(window as any).geoOrigin = geoOrigin;
 (window as any).sceneManager = sceneManager;
 (window as any).uiManager = uiManager;
+(window as any).deepLinkRouter = deepLinkRouter;
+(window as any).multiCapture = multiCapture;
+(window as any).cameraDirector = cameraDirector;
+(window as any).annotations = annotations;
+(window as any).cropEditor = cropEditor;
+(window as any).headingTool = headingTool;
+(window as any).story = story;
+(window as any).timeline = timeline;
+(window as any).authoring = authoring;
+(window as any).importer = importer;
 (window as any).inWorldGUI = inWorldGUI;
 (window as any).scene = scene;
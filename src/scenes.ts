@@ -1,4 +1,99 @@
 import { GeoLocation } from './GeoSpatial.js';
+import { EnvironmentSettings } from './PlatformEnvironment.js';
+import { SplatFormat } from './SplatFormats.js';
+
+/**
+ * Default model transform of a scene, applied on top of geo positioning and
+ * auto-scaling. Arrays keep the catalog JSON-friendly.
+ */
+export interface SceneTransform {
+  /** Offset from the geo-positioned location in meters [x, y, z] */
+  position?: [number, number, number];
+  /** Rotation quaternion [x, y, z, w] */
+  quaternion?: [number, number, number, number];
+  /** Multiplier applied to the auto-scale factor */
+  scale?: number;
+}
+
+/**
+ * Named camera viewpoint of a scene
+ * Coordinates are relative to the model container, so viewpoints follow the
+ * model's geo position and transform.
+ */
+export interface SceneViewpoint {
+  name: string;
+  /** Camera position [x, y, z] */
+  position: [number, number, number];
+  /** Orbit target [x, y, z] */
+  target: [number, number, number];
+  /** Vertical field of view in degrees (camera FOV unchanged if omitted) */
+  fov?: number;
+}
+
+/**
+ * Annotation anchored at a point inside a capture
+ */
+export interface SceneAnnotation {
+  /** Unique within the scene */
+  id: string;
+  title: string;
+  /** Paragraphs with **bold**, *italic* and [links](https://...) */
+  text: string;
+  /** Anchor point [x, y, z] relative to the model container, like viewpoints */
+  position: [number, number, number];
+  /** Image URL shown in the detail panel */
+  image?: string;
+  /** Scene the detail panel links to */
+  linkedSceneId?: string;
+}
+
+/**
+ * Crop volume of a scene, replacing the platform clipping walls
+ * Coordinates are relative to the model container, like viewpoints, so the
+ * crop follows the model's geo position and transform. Y is up.
+ */
+export type SceneCrop = SceneBoxCrop | SceneCylinderCrop | ScenePolygonCrop | SceneBandCrop;
+
+export type SceneCropShape = SceneCrop['shape'];
+
+interface SceneCropBase {
+  /** Keep the splats inside the volume (default) or cut the volume out */
+  keep?: 'inside' | 'outside';
+}
+
+/** Oriented box */
+export interface SceneBoxCrop extends SceneCropBase {
+  shape: 'box';
+  center: [number, number, number];
+  /** Edge lengths [x, y, z] before rotation */
+  size: [number, number, number];
+  /** Rotation quaternion [x, y, z, w] */
+  quaternion?: [number, number, number, number];
+}
+
+/** Upright cylinder */
+export interface SceneCylinderCrop extends SceneCropBase {
+  shape: 'cylinder';
+  center: [number, number, number];
+  radius: number;
+  height: number;
+}
+
+/** Convex polygon extruded vertically; an omitted bound leaves that side open */
+export interface ScenePolygonCrop extends SceneCropBase {
+  shape: 'polygon';
+  /** Outline [x, z] points */
+  points: [number, number][];
+  minY?: number;
+  maxY?: number;
+}
+
+/** Horizontal slab; an omitted bound leaves that side open */
+export interface SceneBandCrop extends SceneCropBase {
+  shape: 'band';
+  minY?: number;
+  maxY?: number;
+}
 
 /**
  * Scene metadata interface
@@ -8,10 +103,21 @@ export interface SceneMetadata {
   id: string;
   title: string;
   url: string;
+  /** Splat file format, for file URLs without a .ply/.splat/.ksplat extension */
+  format?: SplatFormat;
   location: GeoLocation;
   description?: string;
   captureDate?: string;
   tags?: string[];
+  transform?: SceneTransform;
+  /** Camera bookmarks; the first one is the scene's entry view */
+  viewpoints?: SceneViewpoint[];
+  /** Lighting preset applied when the scene loads (e.g. dusk captures) */
+  environment?: EnvironmentSettings;
+  /** Clickable in-world hotspots */
+  annotations?: SceneAnnotation[];
+  /** Crop volume (default: the platform walls and floor) */
+  crop?: SceneCrop;
 }
 
 /**
@@ -93,3 +199,50 @@ export function getSceneByIndex(index: number): SceneMetadata | undefined {
 export function getSceneCount(): number {
   return NARRATIVE_SCENES.length;
 }
+
+/**
+ * Deep copy of a catalog entry, sharing no objects or arrays with it
+ */
+export function cloneScene(scene: SceneMetadata): SceneMetadata {
+  return JSON.parse(JSON.stringify(scene));
+}
+
+/**
+ * Parses a capture date ("YYYY-MM-DD", optionally followed by an ISO time)
+ * @returns null if missing or malformed
+ */
+export function parseCaptureDate(value?: string): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Rounds a transform for storage and drops identity values
+ * @returns undefined if the transform is the identity
+ */
+export function normalizeSceneTransform(transform: SceneTransform): SceneTransform | undefined {
+  const round = (value: number, digits: number) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  };
+  const result: SceneTransform = {};
+
+  if (transform.position) {
+    const position = transform.position.map(v => round(v, 3)) as [number, number, number];
+    if (position.some(v => v !== 0)) result.position = position;
+  }
+
+  if (transform.quaternion) {
+    const quaternion = transform.quaternion.map(v => round(v, 6)) as [number, number, number, number];
+    const [x, y, z, w] = quaternion;
+    if (x !== 0 || y !== 0 || z !== 0 || Math.abs(w) !== 1) result.quaternion = quaternion;
+  }
+
+  if (transform.scale !== undefined) {
+    const scale = round(transform.scale, 4);
+    if (scale !== 1) result.scale = scale;
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
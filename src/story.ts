@@ -0,0 +1,130 @@
+/**
+ * Narrative story structure on top of the scene catalog
+ *
+ * A story is a list of chapters, each an ordered list of beats. A beat shows
+ * one catalog scene and may offer named choices that branch to another scene
+ * or chapter. Beats and choices can be conditional on the scenes the viewer
+ * has already visited. See StoryGraph for navigation.
+ */
+
+/**
+ * Condition on the scenes visited this session (all given lists must hold)
+ */
+export interface StoryCondition {
+  /** Scene ids that must all have been visited */
+  visited?: string[];
+  /** Scene ids that must not have been visited */
+  notVisited?: string[];
+}
+
+/**
+ * A named branch, e.g. "Go to the rooftop"
+ * Targets a scene, a chapter (its first available beat), or a scene within a chapter.
+ */
+export interface StoryChoice {
+  label: string;
+  sceneId?: string;
+  chapterId?: string;
+  /** Hidden unless the condition holds */
+  condition?: StoryCondition;
+}
+
+/**
+ * One step of a chapter, showing a catalog scene
+ */
+export interface StoryBeat {
+  sceneId: string;
+  /** Narration shown with the beat (same subset of Markdown as annotations) */
+  text?: string;
+  choices?: StoryChoice[];
+  /** Skipped when continuing through the story unless the condition holds */
+  condition?: StoryCondition;
+}
+
+export interface StoryChapter {
+  id: string;
+  title: string;
+  beats: StoryBeat[];
+  /** Chapter that follows the last beat (default: the next chapter in the list, none for the last) */
+  next?: string;
+}
+
+export interface StoryDefinition {
+  title?: string;
+  chapters: StoryChapter[];
+}
+
+/**
+ * Built-in story through the narrative scenes
+ */
+export const NARRATIVE_STORY: StoryDefinition = {
+  title: 'MemoryBlocks',
+  chapters: [
+    {
+      id: 'arrival',
+      title: 'Arrival',
+      beats: [
+        { sceneId: 'brc2010', text: 'Where it all started.' },
+        { sceneId: 'orange-burger' },
+        {
+          sceneId: 'art-hotel',
+          text: 'The hotel stands at the corner. Go inside, or keep walking through the city?',
+          choices: [
+            { label: 'Enter the hotel', chapterId: 'hotel' },
+            { label: 'Walk through the city', chapterId: 'city' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'hotel',
+      title: 'The Hotel',
+      next: 'home',
+      beats: [
+        { sceneId: 'hallway-sasha' },
+        {
+          sceneId: 'rpd',
+          choices: [
+            {
+              label: 'Step out into the city',
+              chapterId: 'city',
+              condition: { notVisited: ['budapesterstrasse'] }
+            }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'city',
+      title: 'The City',
+      next: 'home',
+      beats: [
+        { sceneId: 'budapesterstrasse' },
+        { sceneId: 'back-in-berlin' },
+        {
+          sceneId: 'night-park',
+          choices: [
+            {
+              label: 'Return to the hotel',
+              chapterId: 'hotel',
+              condition: { notVisited: ['hallway-sasha'] }
+            }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'home',
+      title: 'Home',
+      beats: [
+        { sceneId: 'homesweethome' },
+        {
+          sceneId: 'home-30',
+          text: 'Having seen both the hotel and the city, the house feels different.',
+          condition: { visited: ['rpd', 'back-in-berlin'] }
+        },
+        { sceneId: 'eden' }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,7 @@
+/**
+ * Vite `?raw` imports: the file's source text as a string
+ */
+declare module '*?raw' {
+  const source: string;
+  export default source;
+}